@@ -0,0 +1,66 @@
+/**
+ * Capabilities guarded by separate credentials:
+ * - ingest: webhook POSTs from the Pact Broker
+ * - debug: read-only `/debug`, `/dead-letters`, `/flaky`, `/metrics/verification-latency` and `/routes/dry-run`
+ * - admin: destructive `/debug?clear=true`, `/debug?clearPublicationThreads=true` and `/dead-letters?replay=<id>` / `?discard=<id>`
+ * - trigger: `/trigger`, `/trigger-daily` and `/trigger-weekly`
+ */
+export type AccessScope = 'ingest' | 'debug' | 'admin' | 'trigger';
+
+// Minimal environment interface for access control
+export interface AccessControlEnv {
+	DEBUG_KEY: string;
+	INGEST_TOKEN?: string;
+	DEBUG_TOKEN?: string;
+	ADMIN_TOKEN?: string;
+	TRIGGER_TOKEN?: string;
+}
+
+const SCOPE_TOKEN_ENV_KEYS: Record<AccessScope, keyof AccessControlEnv> = {
+	ingest: 'INGEST_TOKEN',
+	debug: 'DEBUG_TOKEN',
+	admin: 'ADMIN_TOKEN',
+	trigger: 'TRIGGER_TOKEN',
+};
+
+// Scopes that never fall back to DEBUG_KEY: wiping state must not be possible with the widely shared legacy key
+const SCOPES_WITHOUT_FALLBACK: ReadonlySet<AccessScope> = new Set(['admin']);
+
+/**
+ * Returns the token configured for a scope.
+ * Scopes without a dedicated token fall back to DEBUG_KEY so existing deployments keep working,
+ * except admin, which returns an empty string (refusing every request) until ADMIN_TOKEN is set.
+ */
+export function getScopeToken(env: AccessControlEnv, scope: AccessScope): string {
+	const token = env[SCOPE_TOKEN_ENV_KEYS[scope]]?.trim();
+	if (token) return token;
+	return SCOPES_WITHOUT_FALLBACK.has(scope) ? '' : env.DEBUG_KEY;
+}
+
+/**
+ * Returns true when the request carries the token for the given scope,
+ * either as `Authorization: Bearer <token>` or (legacy) as the `key` query parameter.
+ */
+export function isAuthorizedForScope(request: Request, env: AccessControlEnv, scope: AccessScope): boolean {
+	const expected = getScopeToken(env, scope);
+	if (!expected) return false;
+	const actual = getRequestToken(request);
+	return actual !== null && tokensMatch(actual, expected);
+}
+
+// Compares in constant time so response timing does not reveal how much of a guessed token is right
+function tokensMatch(actual: string, expected: string): boolean {
+	const encoder = new TextEncoder();
+	const actualBytes = encoder.encode(actual);
+	const expectedBytes = encoder.encode(expected);
+	// timingSafeEqual throws on different lengths; comparing the expected token with itself keeps the timing the same
+	if (actualBytes.byteLength !== expectedBytes.byteLength) return !crypto.subtle.timingSafeEqual(expectedBytes, expectedBytes);
+	return crypto.subtle.timingSafeEqual(actualBytes, expectedBytes);
+}
+
+function getRequestToken(request: Request): string | null {
+	const authorization = request.headers.get('Authorization');
+	const match = authorization ? /^Bearer\s+(.+)$/i.exec(authorization.trim()) : null;
+	if (match?.[1]) return match[1];
+	return new URL(request.url).searchParams.get('key');
+}
@@ -0,0 +1,794 @@
+import { isVerificationPayload } from './payload-utils';
+import type {
+	DeadLetterEntry,
+	PactWebhookPayload,
+	ProviderChannelOutboxEntry,
+	PublishedGroupChannels,
+	PublicationThreadEntry,
+	PublicationThreadInfo,
+	StoredPactEventData,
+	VerificationLatencyKind,
+	VerificationStreak,
+} from './types';
+
+/**
+ * SQLite storage of the PactAggregator Durable Object.
+ *
+ * - `events`: pending events, one row per event, keyed to the minute bucket they are published from
+ * - `publication_threads`: provider channel Slack threads, one row per pact version and channel
+ * - `stats`: named counters and timestamps (lastEventTime, totalProcessed, publishLeaseUntil, ...)
+ * - `pact_activity`: every accepted event, kept for ACTIVITY_RETENTION_DAYS after publishing to feed the digests
+ * - `verification_streaks`: the current run of verification results per provider, consumer and provider branch
+ * - `verification_latencies`: time from publication to the first (master branch) verification per pact, kept like the activity
+ * - `owner_mentions`: when owners were last mentioned about a provider and consumer in a channel, kept for the mention cooldown
+ * - `deployments`: the environments pacticipant versions are deployed to or released in, so threads created or verified later show them
+ * - `provider_channel_outbox`: provider channel work that must reach Slack at least once, one row per entry in enqueue order
+ * - `event_fingerprints`: when webhook deliveries were last stored, kept for the deduplication window
+ * - `publish_failures`: the failed publish attempts in a row per pacticipant version group
+ * - `published_group_channels`: the main channels the events of a failing group were already posted to
+ * - `dead_letters`: groups and outbox entries that are no longer retried, until they are replayed or discarded
+ *
+ * Provider, consumer, branch and channel are kept in their own indexed columns so lookups do not
+ * have to load every row; the full event / thread info is stored as JSON next to them.
+ */
+
+export type AggregatorStat =
+	| 'lastEventTime'
+	| 'lastProcessTime'
+	| 'totalProcessed'
+	| 'lastProcessedCount'
+	| 'suppressedDuplicates'
+	| 'mutedDropped'
+	| 'mutedStoredOnly'
+	| 'mutedSkippedMainChannel'
+	| 'publishLeaseUntil'
+	| 'providerChannelOutboxSeq';
+
+export interface StoredEventRow {
+	id: number;
+	bucketMinute: number;
+	event: StoredPactEventData;
+}
+
+export interface PactActivityRow {
+	id: number;
+	ts: number;
+	payload: PactWebhookPayload;
+}
+
+export interface PactActivityFilter {
+	since?: number;
+	providerName?: string;
+	consumerName?: string;
+	pactVersion?: string;
+}
+
+export interface VerificationLatencyRow {
+	ts: number;
+	providerName: string;
+	consumerName: string;
+	pactVersion: string | undefined;
+	kind: VerificationLatencyKind;
+	latencyMs: number;
+}
+
+export interface PublicationThreadFilter {
+	providerName?: string;
+	consumerName?: string;
+	consumerVersionBranch?: string;
+	channel?: string;
+}
+
+// Data written by versions that kept everything in single key-value entries
+const LEGACY_EVENTS_KEY = 'events';
+const LEGACY_PUBLICATION_THREADS_KEY = 'publicationThreads';
+const LEGACY_STAT_KEYS: AggregatorStat[] = [
+	'lastEventTime',
+	'lastProcessTime',
+	'totalProcessed',
+	'lastProcessedCount',
+	'suppressedDuplicates',
+];
+const LEGACY_KV_MIGRATION = 'legacy-kv-to-sqlite';
+const LEGACY_OUTBOX_KEY = 'providerChannelOutbox';
+const LEGACY_OUTBOX_SEQ_KEY = 'providerChannelOutboxSeq';
+const LEGACY_EVENT_FINGERPRINTS_KEY = 'eventFingerprints';
+const LEGACY_PUBLISH_FAILURES_KEY = 'publishFailures';
+const LEGACY_PUBLISHED_GROUP_CHANNELS_KEY = 'publishedGroupChannels';
+const LEGACY_DEAD_LETTERS_KEY = 'deadLetters';
+const LEGACY_KV_STORES_MIGRATION = 'kv-stores-to-sqlite';
+
+const SCHEMA = `
+	CREATE TABLE IF NOT EXISTS events (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		bucket_minute INTEGER NOT NULL,
+		ts INTEGER NOT NULL,
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		branch TEXT NOT NULL,
+		pacticipant TEXT NOT NULL,
+		pacticipant_version_number TEXT NOT NULL,
+		data TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS events_bucket_minute ON events (bucket_minute);
+	CREATE INDEX IF NOT EXISTS events_provider_name ON events (provider_name);
+	CREATE INDEX IF NOT EXISTS events_consumer_name ON events (consumer_name);
+	CREATE INDEX IF NOT EXISTS events_branch ON events (branch);
+
+	CREATE TABLE IF NOT EXISTS publication_threads (
+		key TEXT PRIMARY KEY,
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		consumer_version_branch TEXT NOT NULL,
+		consumer_version_number TEXT NOT NULL,
+		channel TEXT NOT NULL,
+		updated_ts INTEGER NOT NULL,
+		info TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS publication_threads_provider_consumer_branch
+		ON publication_threads (provider_name, consumer_name, consumer_version_branch);
+	CREATE INDEX IF NOT EXISTS publication_threads_consumer_version ON publication_threads (consumer_name, consumer_version_number);
+	CREATE INDEX IF NOT EXISTS publication_threads_channel ON publication_threads (channel);
+
+	CREATE TABLE IF NOT EXISTS stats (
+		name TEXT PRIMARY KEY,
+		value INTEGER NOT NULL
+	);
+
+	CREATE TABLE IF NOT EXISTS pact_activity (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		ts INTEGER NOT NULL,
+		event_type TEXT NOT NULL,
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		pact_version TEXT,
+		data TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS pact_activity_ts ON pact_activity (ts);
+	CREATE INDEX IF NOT EXISTS pact_activity_provider_consumer ON pact_activity (provider_name, consumer_name);
+
+	CREATE TABLE IF NOT EXISTS verification_streaks (
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		provider_version_branch TEXT NOT NULL,
+		failing_since INTEGER,
+		consecutive_failures INTEGER NOT NULL,
+		updated_at INTEGER NOT NULL,
+		PRIMARY KEY (provider_name, consumer_name, provider_version_branch)
+	);
+
+	CREATE TABLE IF NOT EXISTS verification_latencies (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		ts INTEGER NOT NULL,
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		pact_version TEXT,
+		kind TEXT NOT NULL,
+		latency_ms INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS verification_latencies_ts ON verification_latencies (ts);
+	CREATE INDEX IF NOT EXISTS verification_latencies_provider ON verification_latencies (provider_name);
+
+	CREATE TABLE IF NOT EXISTS owner_mentions (
+		owner TEXT NOT NULL,
+		provider_name TEXT NOT NULL,
+		consumer_name TEXT NOT NULL,
+		channel TEXT NOT NULL,
+		mentioned_at INTEGER NOT NULL,
+		PRIMARY KEY (owner, provider_name, consumer_name, channel)
+	);
+	CREATE INDEX IF NOT EXISTS owner_mentions_mentioned_at ON owner_mentions (mentioned_at);
+
+	CREATE TABLE IF NOT EXISTS deployments (
+		pacticipant TEXT NOT NULL,
+		version_number TEXT NOT NULL,
+		environment TEXT NOT NULL,
+		released INTEGER NOT NULL,
+		ts INTEGER NOT NULL,
+		PRIMARY KEY (pacticipant, environment, version_number)
+	);
+	CREATE INDEX IF NOT EXISTS deployments_pacticipant_version ON deployments (pacticipant, version_number);
+
+	CREATE TABLE IF NOT EXISTS provider_channel_outbox (
+		seq INTEGER PRIMARY KEY,
+		available_at INTEGER NOT NULL,
+		data TEXT NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS provider_channel_outbox_available_at ON provider_channel_outbox (available_at);
+
+	CREATE TABLE IF NOT EXISTS event_fingerprints (
+		fingerprint TEXT PRIMARY KEY,
+		seen_at INTEGER NOT NULL
+	);
+	CREATE INDEX IF NOT EXISTS event_fingerprints_seen_at ON event_fingerprints (seen_at);
+
+	CREATE TABLE IF NOT EXISTS publish_failures (
+		group_key TEXT PRIMARY KEY,
+		attempts INTEGER NOT NULL
+	);
+
+	CREATE TABLE IF NOT EXISTS published_group_channels (
+		group_key TEXT NOT NULL,
+		channel TEXT NOT NULL,
+		event_ts INTEGER NOT NULL,
+		PRIMARY KEY (group_key, channel, event_ts)
+	);
+
+	CREATE TABLE IF NOT EXISTS dead_letters (
+		id TEXT PRIMARY KEY,
+		dead_lettered_at INTEGER NOT NULL,
+		data TEXT NOT NULL
+	);
+
+	CREATE TABLE IF NOT EXISTS schema_migrations (
+		name TEXT PRIMARY KEY,
+		applied_at INTEGER NOT NULL
+	);
+`;
+
+/**
+ * Creates the tables (when missing) and converts data stored by older versions on first access.
+ * Must run before any other storage access, i.e. inside blockConcurrencyWhile() in the constructor
+ * and again after deleteAll(), which drops the tables as well.
+ */
+export async function initializeAggregatorStorage(storage: DurableObjectStorage, currentTime: number): Promise<void> {
+	storage.sql.exec(SCHEMA);
+
+	await migrateKvKeys(
+		storage,
+		LEGACY_KV_MIGRATION,
+		[LEGACY_EVENTS_KEY, LEGACY_PUBLICATION_THREADS_KEY, ...LEGACY_STAT_KEYS],
+		currentTime,
+		(legacy) => {
+			const events = (legacy.get(LEGACY_EVENTS_KEY) ?? {}) as Record<string, StoredPactEventData[] | undefined>;
+			for (const [bucketKey, eventList] of Object.entries(events)) {
+				const bucketMinute = parseInt(bucketKey.slice(bucketKey.indexOf(':') + 1));
+				for (const event of eventList ?? []) {
+					insertEvent(storage.sql, bucketMinute, event);
+				}
+			}
+
+			const threads = (legacy.get(LEGACY_PUBLICATION_THREADS_KEY) ?? {}) as Record<string, PublicationThreadInfo | undefined>;
+			for (const [key, info] of Object.entries(threads)) {
+				if (info) upsertPublicationThread(storage.sql, key, info);
+			}
+
+			for (const name of LEGACY_STAT_KEYS) {
+				const value = legacy.get(name);
+				if (typeof value === 'number') setStat(storage.sql, name, value);
+			}
+		},
+	);
+
+	await migrateKvKeys(
+		storage,
+		LEGACY_KV_STORES_MIGRATION,
+		[
+			LEGACY_OUTBOX_KEY,
+			LEGACY_OUTBOX_SEQ_KEY,
+			LEGACY_EVENT_FINGERPRINTS_KEY,
+			LEGACY_PUBLISH_FAILURES_KEY,
+			LEGACY_PUBLISHED_GROUP_CHANNELS_KEY,
+			LEGACY_DEAD_LETTERS_KEY,
+		],
+		currentTime,
+		(legacy) => {
+			const outbox = (legacy.get(LEGACY_OUTBOX_KEY) ?? {}) as Record<string, ProviderChannelOutboxEntry | undefined>;
+			for (const entry of Object.values(outbox)) {
+				if (entry) upsertOutboxEntry(storage.sql, entry);
+			}
+			const seq = legacy.get(LEGACY_OUTBOX_SEQ_KEY);
+			if (typeof seq === 'number') setStat(storage.sql, 'providerChannelOutboxSeq', seq);
+
+			const fingerprints = (legacy.get(LEGACY_EVENT_FINGERPRINTS_KEY) ?? {}) as Record<string, number>;
+			for (const [fingerprint, seenAt] of Object.entries(fingerprints)) {
+				upsertEventFingerprint(storage.sql, fingerprint, seenAt);
+			}
+
+			const failures = (legacy.get(LEGACY_PUBLISH_FAILURES_KEY) ?? {}) as Record<string, number>;
+			for (const [groupKey, attempts] of Object.entries(failures)) {
+				upsertPublishFailure(storage.sql, groupKey, attempts);
+			}
+
+			const published = (legacy.get(LEGACY_PUBLISHED_GROUP_CHANNELS_KEY) ?? {}) as Record<string, PublishedGroupChannels>;
+			for (const [groupKey, channels] of Object.entries(published)) {
+				for (const [channel, eventTs] of Object.entries(channels)) {
+					insertPublishedGroupChannel(storage.sql, groupKey, channel, eventTs);
+				}
+			}
+
+			const deadLetters = (legacy.get(LEGACY_DEAD_LETTERS_KEY) ?? {}) as Record<string, DeadLetterEntry | undefined>;
+			for (const deadLetter of Object.values(deadLetters)) {
+				if (deadLetter) insertDeadLetter(storage.sql, deadLetter);
+			}
+		},
+	);
+}
+
+/**
+ * Imports the key-value entries an older version stored under `keys` in one transaction, then deletes them.
+ * The keys are deleted after the transaction commits; if that delete was lost, they are not imported twice.
+ */
+async function migrateKvKeys(
+	storage: DurableObjectStorage,
+	migration: string,
+	keys: string[],
+	currentTime: number,
+	importValues: (values: Map<string, unknown>) => void,
+): Promise<void> {
+	const values = await storage.get(keys);
+	if (values.size === 0) return;
+
+	storage.transactionSync(() => {
+		if (storage.sql.exec('SELECT name FROM schema_migrations WHERE name = ?', migration).toArray().length > 0) return;
+		importValues(values);
+		storage.sql.exec('INSERT INTO schema_migrations (name, applied_at) VALUES (?, ?)', migration, currentTime);
+	});
+	await storage.delete([...values.keys()]);
+	console.log(`Migrated legacy storage keys to SQLite: ${[...values.keys()].join(', ')}`);
+}
+
+/**
+ * Returns all pending events in bucket order, and in arrival order within a bucket.
+ */
+export function selectEvents(sql: SqlStorage): StoredEventRow[] {
+	return sql
+		.exec<{ id: number; bucket_minute: number; data: string }>('SELECT id, bucket_minute, data FROM events ORDER BY bucket_minute, id')
+		.toArray()
+		.map((row) => ({ id: row.id, bucketMinute: row.bucket_minute, event: JSON.parse(row.data) as StoredPactEventData }));
+}
+
+export function selectEventsInBucket(sql: SqlStorage, bucketMinute: number): StoredEventRow[] {
+	return sql
+		.exec<{ id: number; data: string }>('SELECT id, data FROM events WHERE bucket_minute = ? ORDER BY id', bucketMinute)
+		.toArray()
+		.map((row) => ({ id: row.id, bucketMinute, event: JSON.parse(row.data) as StoredPactEventData }));
+}
+
+export function insertEvent(sql: SqlStorage, bucketMinute: number, event: StoredPactEventData): void {
+	const branch = isVerificationPayload(event) ? event.providerVersionBranch : event.consumerVersionBranch;
+	sql.exec(
+		`INSERT INTO events (bucket_minute, ts, provider_name, consumer_name, branch, pacticipant, pacticipant_version_number, data)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		bucketMinute,
+		event.ts,
+		event.providerName,
+		event.consumerName,
+		branch,
+		event.pacticipant,
+		event.pacticipantVersionNumber,
+		JSON.stringify(event),
+	);
+}
+
+export function moveEventToBucket(sql: SqlStorage, id: number, bucketMinute: number): void {
+	sql.exec('UPDATE events SET bucket_minute = ? WHERE id = ?', bucketMinute, id);
+}
+
+export function deleteEvent(sql: SqlStorage, id: number): void {
+	sql.exec('DELETE FROM events WHERE id = ?', id);
+}
+
+export function deleteEventsInBucket(sql: SqlStorage, bucketMinute: number): void {
+	sql.exec('DELETE FROM events WHERE bucket_minute = ?', bucketMinute);
+}
+
+export function selectPublicationThreads(sql: SqlStorage, filter: PublicationThreadFilter = {}): PublicationThreadEntry[] {
+	const columns: [string, string | undefined][] = [
+		['provider_name', filter.providerName],
+		['consumer_name', filter.consumerName],
+		['consumer_version_branch', filter.consumerVersionBranch],
+		['channel', filter.channel],
+	];
+	const conditions = columns.filter(([, value]) => value !== undefined);
+	const where = conditions.length > 0 ? ` WHERE ${conditions.map(([column]) => `${column} = ?`).join(' AND ')}` : '';
+	return sql
+		.exec<{ key: string; info: string }>(
+			`SELECT key, info FROM publication_threads${where} ORDER BY key`,
+			...conditions.map(([, value]) => value),
+		)
+		.toArray()
+		.map((row) => ({ key: row.key, info: JSON.parse(row.info) as PublicationThreadInfo }));
+}
+
+/**
+ * Returns the threads whose pact has been awaiting a verification result since `publishedBefore` or earlier.
+ */
+export function selectPublicationThreadsAwaitingVerification(sql: SqlStorage, publishedBefore: number): PublicationThreadEntry[] {
+	return sql
+		.exec<{ key: string; info: string }>(
+			"SELECT key, info FROM publication_threads WHERE json_extract(info, '$.awaitingVerificationSince') <= ? ORDER BY key",
+			publishedBefore,
+		)
+		.toArray()
+		.map((row) => ({ key: row.key, info: JSON.parse(row.info) as PublicationThreadInfo }));
+}
+
+export function selectPublicationThread(sql: SqlStorage, key: string): PublicationThreadInfo | undefined {
+	const [row] = sql.exec<{ info: string }>('SELECT info FROM publication_threads WHERE key = ?', key).toArray();
+	return row ? (JSON.parse(row.info) as PublicationThreadInfo) : undefined;
+}
+
+/**
+ * Inserts or replaces a publication thread. The channel is the last segment of the thread key.
+ */
+export function upsertPublicationThread(sql: SqlStorage, key: string, info: PublicationThreadInfo): void {
+	sql.exec(
+		`INSERT OR REPLACE INTO publication_threads
+			(key, provider_name, consumer_name, consumer_version_branch, consumer_version_number, channel, updated_ts, info)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		key,
+		info.payload.providerName,
+		info.payload.consumerName,
+		info.payload.consumerVersionBranch,
+		info.payload.consumerVersionNumber,
+		key.slice(key.lastIndexOf('|') + 1),
+		Number(info.updatedTs) || 0,
+		JSON.stringify(info),
+	);
+}
+
+/**
+ * @returns false when there was no thread with that key
+ */
+export function deletePublicationThread(sql: SqlStorage, key: string): boolean {
+	return sql.exec('DELETE FROM publication_threads WHERE key = ? RETURNING key', key).toArray().length > 0;
+}
+
+export function deleteAllPublicationThreads(sql: SqlStorage): void {
+	sql.exec('DELETE FROM publication_threads');
+}
+
+/**
+ * Returns the recorded activity in arrival order.
+ */
+export function selectPactActivity(sql: SqlStorage, filter: PactActivityFilter = {}): PactActivityRow[] {
+	const conditions: [string, string | number][] = [];
+	if (filter.since !== undefined) conditions.push(['ts >= ?', filter.since]);
+	if (filter.providerName !== undefined) conditions.push(['provider_name = ?', filter.providerName]);
+	if (filter.consumerName !== undefined) conditions.push(['consumer_name = ?', filter.consumerName]);
+	if (filter.pactVersion !== undefined) conditions.push(['pact_version = ?', filter.pactVersion]);
+	const where = conditions.length > 0 ? ` WHERE ${conditions.map(([condition]) => condition).join(' AND ')}` : '';
+	return sql
+		.exec<{ id: number; ts: number; data: string }>(
+			`SELECT id, ts, data FROM pact_activity${where} ORDER BY id`,
+			...conditions.map(([, value]) => value),
+		)
+		.toArray()
+		.map((row) => ({ id: row.id, ts: row.ts, payload: JSON.parse(row.data) as PactWebhookPayload }));
+}
+
+export function insertPactActivity(sql: SqlStorage, ts: number, payload: PactWebhookPayload, pactVersion: string | undefined): void {
+	sql.exec(
+		`INSERT INTO pact_activity (ts, event_type, provider_name, consumer_name, pact_version, data)
+			VALUES (?, ?, ?, ?, ?, ?)`,
+		ts,
+		payload.eventType,
+		payload.providerName,
+		payload.consumerName,
+		pactVersion ?? null,
+		JSON.stringify(payload),
+	);
+}
+
+/**
+ * @returns the number of deleted rows
+ */
+export function deletePactActivityBefore(sql: SqlStorage, ts: number): number {
+	return sql.exec('DELETE FROM pact_activity WHERE ts < ? RETURNING id', ts).toArray().length;
+}
+
+/**
+ * Returns the recorded verification latencies in arrival order, of one provider when given.
+ */
+export function selectVerificationLatencies(sql: SqlStorage, providerName?: string): VerificationLatencyRow[] {
+	const where = providerName !== undefined ? ' WHERE provider_name = ?' : '';
+	return sql
+		.exec<{
+			ts: number;
+			provider_name: string;
+			consumer_name: string;
+			pact_version: string | null;
+			kind: VerificationLatencyKind;
+			latency_ms: number;
+		}>(
+			`SELECT ts, provider_name, consumer_name, pact_version, kind, latency_ms FROM verification_latencies${where} ORDER BY id`,
+			...(providerName !== undefined ? [providerName] : []),
+		)
+		.toArray()
+		.map((row) => ({
+			ts: row.ts,
+			providerName: row.provider_name,
+			consumerName: row.consumer_name,
+			pactVersion: row.pact_version ?? undefined,
+			kind: row.kind,
+			latencyMs: row.latency_ms,
+		}));
+}
+
+export function insertVerificationLatency(sql: SqlStorage, row: VerificationLatencyRow): void {
+	sql.exec(
+		`INSERT INTO verification_latencies (ts, provider_name, consumer_name, pact_version, kind, latency_ms)
+			VALUES (?, ?, ?, ?, ?, ?)`,
+		row.ts,
+		row.providerName,
+		row.consumerName,
+		row.pactVersion ?? null,
+		row.kind,
+		row.latencyMs,
+	);
+}
+
+export function deleteVerificationLatenciesBefore(sql: SqlStorage, ts: number): number {
+	return sql.exec('DELETE FROM verification_latencies WHERE ts < ? RETURNING id', ts).toArray().length;
+}
+
+export function selectVerificationStreak(
+	sql: SqlStorage,
+	providerName: string,
+	consumerName: string,
+	providerVersionBranch: string,
+): VerificationStreak | undefined {
+	const [row] = sql
+		.exec<{ failing_since: number | null; consecutive_failures: number; updated_at: number }>(
+			`SELECT failing_since, consecutive_failures, updated_at FROM verification_streaks
+				WHERE provider_name = ? AND consumer_name = ? AND provider_version_branch = ?`,
+			providerName,
+			consumerName,
+			providerVersionBranch,
+		)
+		.toArray();
+	return row
+		? {
+				providerName,
+				consumerName,
+				providerVersionBranch,
+				failingSince: row.failing_since,
+				consecutiveFailures: row.consecutive_failures,
+				updatedAt: row.updated_at,
+			}
+		: undefined;
+}
+
+export function upsertVerificationStreak(sql: SqlStorage, streak: VerificationStreak): void {
+	sql.exec(
+		`INSERT OR REPLACE INTO verification_streaks
+			(provider_name, consumer_name, provider_version_branch, failing_since, consecutive_failures, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?)`,
+		streak.providerName,
+		streak.consumerName,
+		streak.providerVersionBranch,
+		streak.failingSince,
+		streak.consecutiveFailures,
+		streak.updatedAt,
+	);
+}
+
+export function getStat(sql: SqlStorage, name: AggregatorStat): number {
+	const [row] = sql.exec<{ value: number }>('SELECT value FROM stats WHERE name = ?', name).toArray();
+	return row?.value ?? 0;
+}
+
+export function setStat(sql: SqlStorage, name: AggregatorStat, value: number): void {
+	sql.exec('INSERT OR REPLACE INTO stats (name, value) VALUES (?, ?)', name, value);
+}
+
+export interface OwnerMention {
+	owner: string;
+	providerName: string;
+	consumerName: string;
+	channel: string;
+	mentionedAt: number;
+}
+
+export function selectOwnerMentionTime(sql: SqlStorage, mention: Omit<OwnerMention, 'mentionedAt'>): number | undefined {
+	const [row] = sql
+		.exec<{ mentioned_at: number }>(
+			`SELECT mentioned_at FROM owner_mentions WHERE owner = ? AND provider_name = ? AND consumer_name = ? AND channel = ?`,
+			mention.owner,
+			mention.providerName,
+			mention.consumerName,
+			mention.channel,
+		)
+		.toArray();
+	return row?.mentioned_at;
+}
+
+export function upsertOwnerMention(sql: SqlStorage, mention: OwnerMention): void {
+	sql.exec(
+		`INSERT OR REPLACE INTO owner_mentions (owner, provider_name, consumer_name, channel, mentioned_at) VALUES (?, ?, ?, ?, ?)`,
+		mention.owner,
+		mention.providerName,
+		mention.consumerName,
+		mention.channel,
+		mention.mentionedAt,
+	);
+}
+
+export function deleteOwnerMentionsBefore(sql: SqlStorage, ts: number): number {
+	return sql.exec('DELETE FROM owner_mentions WHERE mentioned_at < ? RETURNING owner', ts).toArray().length;
+}
+
+export interface Deployment {
+	pacticipant: string;
+	versionNumber: string;
+	environment: string;
+	/**
+	 * Released versions coexist; a deployment replaces the version previously deployed to the environment
+	 */
+	released: boolean;
+	ts: number;
+}
+
+export function recordDeploymentRow(sql: SqlStorage, deployment: Deployment): void {
+	if (!deployment.released) {
+		sql.exec(
+			'DELETE FROM deployments WHERE pacticipant = ? AND environment = ? AND released = 0 AND version_number != ?',
+			deployment.pacticipant,
+			deployment.environment,
+			deployment.versionNumber,
+		);
+	}
+	// Keeps the time the version first arrived in the environment; deploying a released version makes it replaceable
+	sql.exec(
+		`INSERT INTO deployments (pacticipant, version_number, environment, released, ts) VALUES (?, ?, ?, ?, ?)
+			ON CONFLICT (pacticipant, environment, version_number) DO UPDATE SET released = MIN(released, excluded.released)`,
+		deployment.pacticipant,
+		deployment.versionNumber,
+		deployment.environment,
+		deployment.released ? 1 : 0,
+		deployment.ts,
+	);
+}
+
+/**
+ * Deletes releases recorded before `ts`. Deployments are kept, as there is only one per pacticipant and environment.
+ */
+export function deleteReleasesBefore(sql: SqlStorage, ts: number): number {
+	return sql.exec('DELETE FROM deployments WHERE released = 1 AND ts < ? RETURNING environment', ts).toArray().length;
+}
+
+/**
+ * Returns the environments a pacticipant version is deployed to or released in, in recording order.
+ */
+export function selectDeploymentEnvironments(sql: SqlStorage, pacticipant: string, versionNumber: string): string[] {
+	return sql
+		.exec<{ environment: string }>(
+			'SELECT environment FROM deployments WHERE pacticipant = ? AND version_number = ? ORDER BY ts, rowid',
+			pacticipant,
+			versionNumber,
+		)
+		.toArray()
+		.map((row) => row.environment);
+}
+
+/**
+ * Returns the provider channel outbox entries in enqueue order; with `dueBy`, only those available by then.
+ */
+export function selectOutboxEntries(sql: SqlStorage, dueBy?: number, limit?: number): ProviderChannelOutboxEntry[] {
+	const where = dueBy === undefined ? '' : ' WHERE available_at <= ?';
+	const bindings = [...(dueBy === undefined ? [] : [dueBy]), ...(limit === undefined ? [] : [limit])];
+	return sql
+		.exec<{ data: string }>(
+			`SELECT data FROM provider_channel_outbox${where} ORDER BY seq${limit === undefined ? '' : ' LIMIT ?'}`,
+			...bindings,
+		)
+		.toArray()
+		.map((row) => JSON.parse(row.data) as ProviderChannelOutboxEntry);
+}
+
+export function selectOutboxEntry(sql: SqlStorage, id: string): ProviderChannelOutboxEntry | undefined {
+	const [row] = sql.exec<{ data: string }>('SELECT data FROM provider_channel_outbox WHERE seq = ?', Number(id)).toArray();
+	return row ? (JSON.parse(row.data) as ProviderChannelOutboxEntry) : undefined;
+}
+
+/**
+ * Inserts or replaces an outbox entry. Its id is its sequence number.
+ */
+export function upsertOutboxEntry(sql: SqlStorage, entry: ProviderChannelOutboxEntry): void {
+	sql.exec(
+		'INSERT OR REPLACE INTO provider_channel_outbox (seq, available_at, data) VALUES (?, ?, ?)',
+		entry.seq,
+		entry.availableAt,
+		JSON.stringify(entry),
+	);
+}
+
+export function deleteOutboxEntry(sql: SqlStorage, id: string): boolean {
+	return sql.exec('DELETE FROM provider_channel_outbox WHERE seq = ? RETURNING seq', Number(id)).toArray().length > 0;
+}
+
+export function selectEventFingerprintTime(sql: SqlStorage, fingerprint: string): number | undefined {
+	const [row] = sql.exec<{ seen_at: number }>('SELECT seen_at FROM event_fingerprints WHERE fingerprint = ?', fingerprint).toArray();
+	return row?.seen_at;
+}
+
+export function upsertEventFingerprint(sql: SqlStorage, fingerprint: string, seenAt: number): void {
+	sql.exec('INSERT OR REPLACE INTO event_fingerprints (fingerprint, seen_at) VALUES (?, ?)', fingerprint, seenAt);
+}
+
+export function deleteEventFingerprintsBefore(sql: SqlStorage, ts: number): number {
+	return sql.exec('DELETE FROM event_fingerprints WHERE seen_at < ? RETURNING fingerprint', ts).toArray().length;
+}
+
+/**
+ * Returns the failed publish attempts in a row per pacticipant version group.
+ */
+export function selectPublishFailures(sql: SqlStorage): Record<string, number> {
+	const rows = sql
+		.exec<{ group_key: string; attempts: number }>('SELECT group_key, attempts FROM publish_failures ORDER BY group_key')
+		.toArray();
+	return Object.fromEntries(rows.map((row) => [row.group_key, row.attempts]));
+}
+
+export function selectPublishFailureAttempts(sql: SqlStorage, groupKey: string): number {
+	const [row] = sql.exec<{ attempts: number }>('SELECT attempts FROM publish_failures WHERE group_key = ?', groupKey).toArray();
+	return row?.attempts ?? 0;
+}
+
+export function upsertPublishFailure(sql: SqlStorage, groupKey: string, attempts: number): void {
+	sql.exec('INSERT OR REPLACE INTO publish_failures (group_key, attempts) VALUES (?, ?)', groupKey, attempts);
+}
+
+export function deletePublishFailure(sql: SqlStorage, groupKey: string): void {
+	sql.exec('DELETE FROM publish_failures WHERE group_key = ?', groupKey);
+}
+
+/**
+ * Returns the main channels the events of a group were posted to, with the timestamps of the events posted there.
+ */
+export function selectPublishedGroupChannels(sql: SqlStorage, groupKey: string): PublishedGroupChannels {
+	const published: PublishedGroupChannels = {};
+	const rows = sql
+		.exec<{ channel: string; event_ts: number }>(
+			'SELECT channel, event_ts FROM published_group_channels WHERE group_key = ? ORDER BY rowid',
+			groupKey,
+		)
+		.toArray();
+	for (const row of rows) {
+		(published[row.channel] ??= []).push(row.event_ts);
+	}
+	return published;
+}
+
+export function insertPublishedGroupChannel(sql: SqlStorage, groupKey: string, channel: string, eventTs: number[]): void {
+	for (const ts of eventTs) {
+		sql.exec('INSERT OR IGNORE INTO published_group_channels (group_key, channel, event_ts) VALUES (?, ?, ?)', groupKey, channel, ts);
+	}
+}
+
+export function deletePublishedGroupChannels(sql: SqlStorage, groupKey: string): void {
+	sql.exec('DELETE FROM published_group_channels WHERE group_key = ?', groupKey);
+}
+
+/**
+ * Returns the dead letters, the oldest first.
+ */
+export function selectDeadLetters(sql: SqlStorage): DeadLetterEntry[] {
+	return sql
+		.exec<{ data: string }>('SELECT data FROM dead_letters ORDER BY dead_lettered_at, rowid')
+		.toArray()
+		.map((row) => JSON.parse(row.data) as DeadLetterEntry);
+}
+
+export function selectDeadLetter(sql: SqlStorage, id: string): DeadLetterEntry | undefined {
+	const [row] = sql.exec<{ data: string }>('SELECT data FROM dead_letters WHERE id = ?', id).toArray();
+	return row ? (JSON.parse(row.data) as DeadLetterEntry) : undefined;
+}
+
+export function countDeadLetters(sql: SqlStorage): number {
+	return sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM dead_letters').one().count;
+}
+
+export function insertDeadLetter(sql: SqlStorage, deadLetter: DeadLetterEntry): void {
+	sql.exec(
+		'INSERT OR REPLACE INTO dead_letters (id, dead_lettered_at, data) VALUES (?, ?, ?)',
+		deadLetter.id,
+		deadLetter.deadLetteredAt,
+		JSON.stringify(deadLetter),
+	);
+}
+
+export function deleteDeadLetter(sql: SqlStorage, id: string): boolean {
+	return sql.exec('DELETE FROM dead_letters WHERE id = ? RETURNING id', id).toArray().length > 0;
+}
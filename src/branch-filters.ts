@@ -0,0 +1,113 @@
+import { isVerificationPayload } from './payload-utils';
+import { cacheConfigParser, isNonEmptyString, isPlainObject, matchesGlob, parseJsonConfig } from './utils';
+import type { BranchFilterAction, BranchFilterRule, PactWebhookPayload } from './types';
+
+// Minimal environment interface for branch filtering
+export interface BranchFilterEnv {
+	/**
+	 * Pacticipant name (or `*` for every pacticipant) -> a BranchFilterRule or a list of them (object or JSON string)
+	 */
+	BRANCH_FILTERS?: unknown;
+}
+
+export interface ParsedBranchFilters {
+	filters: Record<string, BranchFilterRule[]>;
+	errors: string[];
+}
+
+const ALL_PACTICIPANTS = '*';
+
+// From the strongest to the weakest; when several rules mute an event the strongest action wins
+export const BRANCH_FILTER_ACTIONS: BranchFilterAction[] = ['drop', 'store_only', 'skip_main_channel'];
+const RULE_FIELDS = ['include', 'exclude', 'action'];
+
+/**
+ * Returns the validated BRANCH_FILTERS. They are parsed once per isolate (and again if the config changes);
+ * problems are logged then, and the rules they affect are ignored.
+ */
+export const getBranchFilters = cacheConfigParser(
+	(env: BranchFilterEnv) => [env.BRANCH_FILTERS],
+	parseBranchFilters,
+	'Invalid branch filter, ignoring it',
+);
+
+export function parseBranchFilters(env: BranchFilterEnv): ParsedBranchFilters {
+	const errors: string[] = [];
+	const config = parseJsonConfig('BRANCH_FILTERS', env.BRANCH_FILTERS, errors);
+	if (config === undefined || config === null) return { filters: {}, errors };
+	if (!isPlainObject(config)) {
+		errors.push('BRANCH_FILTERS: expected an object of pacticipant branch filters');
+		return { filters: {}, errors };
+	}
+
+	const filters: Record<string, BranchFilterRule[]> = {};
+	for (const [pacticipant, value] of Object.entries(config)) {
+		const rules: unknown[] = Array.isArray(value) ? value : [value];
+		rules.forEach((rule, index) => {
+			const path = Array.isArray(value) ? `BRANCH_FILTERS.${pacticipant}[${index}]` : `BRANCH_FILTERS.${pacticipant}`;
+			const ruleErrors: string[] = [];
+			const parsed = parseRule(rule, path, ruleErrors);
+			// A rule with a typo could mute far more than intended, so it is dropped as a whole
+			if (parsed && ruleErrors.length === 0) (filters[pacticipant] ??= []).push(parsed);
+			errors.push(...ruleErrors);
+		});
+	}
+	return { filters, errors };
+}
+
+/**
+ * Returns how an event is muted, or undefined when no rule mutes it. The rules of the consumer are checked against the
+ * consumer branch; those of the provider against the provider branch of verifications (publications have none);
+ * the `*` rules against both.
+ */
+export function getBranchFilterAction(env: BranchFilterEnv, payload: PactWebhookPayload): BranchFilterAction | undefined {
+	const { filters } = getBranchFilters(env);
+	const globalRules = filters[ALL_PACTICIPANTS] ?? [];
+	const checks: { branch: string; rules: BranchFilterRule[] }[] = [
+		{ branch: payload.consumerVersionBranch, rules: [...globalRules, ...(filters[payload.consumerName] ?? [])] },
+	];
+	if (isVerificationPayload(payload)) {
+		checks.push({ branch: payload.providerVersionBranch, rules: [...globalRules, ...(filters[payload.providerName] ?? [])] });
+	}
+
+	const actions = new Set(
+		checks.flatMap(({ branch, rules }) => rules.filter((rule) => isMutedBranch(rule, branch)).map((rule) => rule.action)),
+	);
+	return BRANCH_FILTER_ACTIONS.find((action) => actions.has(action));
+}
+
+function isMutedBranch(rule: BranchFilterRule, branch: string): boolean {
+	if (rule.exclude?.some((glob) => matchesGlob(branch, glob))) return true;
+	return rule.include !== undefined && !rule.include.some((glob) => matchesGlob(branch, glob));
+}
+
+function parseRule(rule: unknown, path: string, errors: string[]): BranchFilterRule | undefined {
+	if (!isPlainObject(rule)) {
+		errors.push(`${path}: expected an object`);
+		return undefined;
+	}
+	for (const field of Object.keys(rule)) {
+		if (!RULE_FIELDS.includes(field)) errors.push(`${path}.${field}: unknown field`);
+	}
+
+	const parsed: BranchFilterRule = { action: 'drop' };
+	if (BRANCH_FILTER_ACTIONS.includes(rule.action as BranchFilterAction)) {
+		parsed.action = rule.action as BranchFilterAction;
+	} else {
+		errors.push(`${path}.action: expected one of ${BRANCH_FILTER_ACTIONS.join(', ')}`);
+	}
+	for (const field of ['include', 'exclude'] as const) {
+		const value = rule[field];
+		if (value === undefined) continue;
+		const globs: unknown = typeof value === 'string' ? [value] : value;
+		if (Array.isArray(globs) && globs.length > 0 && globs.every(isNonEmptyString)) {
+			parsed[field] = globs;
+		} else {
+			errors.push(`${path}.${field}: expected a branch glob or a non-empty array of branch globs`);
+		}
+	}
+	if (parsed.include === undefined && parsed.exclude === undefined) {
+		errors.push(`${path}: expected include or exclude branch globs`);
+	}
+	return parsed;
+}
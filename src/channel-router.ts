@@ -0,0 +1,151 @@
+import { getProviderSlackChannel, isVerificationPayload } from './payload-utils';
+import { cacheConfigParser, isNonEmptyString, isPlainObject, matchesGlob, parseJsonConfig } from './utils';
+import type { ChannelRoute, ChannelRouteScope, PactWebhookPayload } from './types';
+
+// Minimal environment interface for channel routing
+export interface ChannelRouterEnv {
+	/**
+	 * Routing rules (array or JSON string), see ChannelRoute. Without a matching rule messages go to the default channels.
+	 */
+	CHANNEL_ROUTES?: unknown;
+	SLACK_CHANNEL: string;
+	PROVIDER_CHANNEL_PREFIX?: string;
+}
+
+export interface ParsedChannelRoutes {
+	routes: ChannelRoute[];
+	errors: string[];
+}
+
+export interface ChannelRouting {
+	providerChannels: string[];
+	mainChannels: string[];
+	matchedRoutes: ChannelRoute[];
+}
+
+const SCOPES: ChannelRouteScope[] = ['provider', 'main'];
+const STATUSES = ['success', 'failure'];
+const ROUTE_FIELDS = ['scope', 'provider', 'consumer', 'branch', 'eventType', 'status', 'channels'];
+
+/**
+ * Returns the validated CHANNEL_ROUTES. They are parsed once per isolate (and again if the config changes);
+ * problems are logged then, and the rules they affect are ignored.
+ */
+export const getChannelRoutes = cacheConfigParser(
+	(env: ChannelRouterEnv) => [env.CHANNEL_ROUTES],
+	parseChannelRoutes,
+	'Invalid channel route, ignoring it',
+);
+
+export function parseChannelRoutes(env: ChannelRouterEnv): ParsedChannelRoutes {
+	const errors: string[] = [];
+	const config = parseJsonConfig('CHANNEL_ROUTES', env.CHANNEL_ROUTES, errors);
+	if (config === undefined || config === null) return { routes: [], errors };
+	if (!Array.isArray(config)) {
+		errors.push('CHANNEL_ROUTES: expected an array of routes');
+		return { routes: [], errors };
+	}
+
+	const routes: ChannelRoute[] = [];
+	config.forEach((rule: unknown, index) => {
+		const path = `CHANNEL_ROUTES[${index}]`;
+		const ruleErrors: string[] = [];
+		const route = parseRoute(rule, path, ruleErrors);
+		// A rule with a typo could match far more than intended, so it is dropped as a whole
+		if (route && ruleErrors.length === 0) routes.push(route);
+		errors.push(...ruleErrors);
+	});
+	return { routes, errors };
+}
+
+/**
+ * Routes a payload: the channels of every matching rule, per scope, or the default channel when no rule of the scope matches.
+ */
+export function routePayload(env: ChannelRouterEnv, payload: PactWebhookPayload): ChannelRouting {
+	const matchedRoutes = getChannelRoutes(env).routes.filter((route) => matchesRoute(route, payload));
+	const channelsFor = (scope: ChannelRouteScope, defaultChannel: string) => {
+		const channels = matchedRoutes
+			.filter((route) => route.scope === scope)
+			.flatMap((route) => route.channels.map((channel) => expandChannel(channel, payload)));
+		return channels.length > 0 ? [...new Set(channels)] : [defaultChannel];
+	};
+	return {
+		providerChannels: channelsFor('provider', getProviderSlackChannel(env, payload)),
+		mainChannels: channelsFor('main', env.SLACK_CHANNEL),
+		matchedRoutes,
+	};
+}
+
+export function getProviderChannels(env: ChannelRouterEnv, payload: PactWebhookPayload): string[] {
+	return routePayload(env, payload).providerChannels;
+}
+
+export function getMainChannels(env: ChannelRouterEnv, payload: PactWebhookPayload): string[] {
+	return routePayload(env, payload).mainChannels;
+}
+
+function matchesRoute(route: ChannelRoute, payload: PactWebhookPayload): boolean {
+	const isVerification = isVerificationPayload(payload);
+	const branch = isVerification ? payload.providerVersionBranch : payload.consumerVersionBranch;
+	if (route.provider !== undefined && route.provider !== payload.providerName) return false;
+	if (route.consumer !== undefined && route.consumer !== payload.consumerName) return false;
+	if (route.branch !== undefined && !matchesGlob(branch, route.branch)) return false;
+	if (route.eventType !== undefined && !route.eventType.includes(payload.eventType)) return false;
+	if (route.status !== undefined) {
+		if (!isVerification) return false;
+		const status = payload.githubVerificationStatus === 'success' ? 'success' : 'failure';
+		if (status !== route.status) return false;
+	}
+	return true;
+}
+
+function expandChannel(channel: string, payload: PactWebhookPayload): string {
+	return channel.replace(/\{provider\}/g, payload.providerName).replace(/\{consumer\}/g, payload.consumerName);
+}
+
+function parseRoute(rule: unknown, path: string, errors: string[]): ChannelRoute | undefined {
+	if (!isPlainObject(rule)) {
+		errors.push(`${path}: expected an object`);
+		return undefined;
+	}
+	for (const field of Object.keys(rule)) {
+		if (!ROUTE_FIELDS.includes(field)) errors.push(`${path}.${field}: unknown field`);
+	}
+
+	const route: ChannelRoute = { scope: 'provider', channels: [] };
+	if (SCOPES.includes(rule.scope as ChannelRouteScope)) {
+		route.scope = rule.scope as ChannelRouteScope;
+	} else {
+		errors.push(`${path}.scope: expected one of ${SCOPES.join(', ')}`);
+	}
+	for (const field of ['provider', 'consumer', 'branch'] as const) {
+		const value = rule[field];
+		if (value === undefined) continue;
+		if (isNonEmptyString(value)) {
+			route[field] = value;
+		} else {
+			errors.push(`${path}.${field}: expected a non-empty string`);
+		}
+	}
+	if (rule.eventType !== undefined) {
+		const eventTypes = typeof rule.eventType === 'string' ? [rule.eventType] : rule.eventType;
+		if (Array.isArray(eventTypes) && eventTypes.length > 0 && eventTypes.every(isNonEmptyString)) {
+			route.eventType = eventTypes;
+		} else {
+			errors.push(`${path}.eventType: expected an event type or a non-empty array of event types`);
+		}
+	}
+	if (rule.status !== undefined) {
+		if (rule.status === 'success' || rule.status === 'failure') {
+			route.status = rule.status;
+		} else {
+			errors.push(`${path}.status: expected one of ${STATUSES.join(', ')}`);
+		}
+	}
+	if (Array.isArray(rule.channels) && rule.channels.length > 0 && rule.channels.every(isNonEmptyString)) {
+		route.channels = rule.channels;
+	} else {
+		errors.push(`${path}.channels: expected a non-empty array of channels`);
+	}
+	return route;
+}
@@ -0,0 +1,138 @@
+import { mapPacticipantToRepo } from './messages';
+import { slackLookupUserIdByEmail } from './slack';
+import { isNonEmptyString, isPlainObject, parseJsonConfig } from './utils';
+
+// Minimal environment interface for commit author lookups
+export interface CommitAuthorEnv {
+	/**
+	 * Set to true to send the author of a consumer commit whose pact failed verification a direct message (default false).
+	 */
+	COMMIT_AUTHOR_DM_ENABLED?: boolean | string;
+	/**
+	 * Commit author email -> Slack user ID (object or JSON string), for authors whose Slack account has another email.
+	 * Checked before users.lookupByEmail.
+	 */
+	COMMIT_AUTHOR_SLACK_USERS?: unknown;
+	GITHUB_BASE_URL: string;
+	/**
+	 * GitHub REST API base URL (default https://api.github.com; e.g. https://github.example.com/api/v3 for GitHub Enterprise)
+	 */
+	GITHUB_API_BASE_URL?: string;
+	/**
+	 * Token for the GitHub commits API (optional secret, needed for private repositories)
+	 */
+	GITHUB_TOKEN?: string;
+	PACTICIPANT_TO_REPO_MAP: Record<string, string>;
+	SLACK_CHANNEL: string;
+	SLACK_TOKEN: string;
+}
+
+/**
+ * Finds the email of the author of a pacticipant's commit; undefined when the commit is not found.
+ * Other failures are thrown, so the direct message is retried.
+ */
+export type CommitAuthorEmailLookup = (pacticipant: string, commitSha: string) => Promise<string | undefined>;
+
+/**
+ * Finds the Slack user ID for an email; undefined when the lookup does not know it. Other failures are thrown.
+ */
+export type SlackUserLookup = (email: string) => Promise<string | undefined>;
+
+interface GithubCommitResponse {
+	commit?: { author?: { email?: string } };
+}
+
+const GITHUB_TIMEOUT_MS = 5000;
+// GitHub answers 422 for a SHA that is not a commit of the repository
+const GITHUB_COMMIT_NOT_FOUND_STATUSES = [404, 422];
+
+export class CommitAuthorLookupError extends Error {
+	constructor(
+		message: string,
+		readonly status?: number,
+	) {
+		super(message);
+		this.name = 'CommitAuthorLookupError';
+	}
+}
+
+export function isCommitAuthorDmEnabled(env: Pick<CommitAuthorEnv, 'COMMIT_AUTHOR_DM_ENABLED'>): boolean {
+	const value = env.COMMIT_AUTHOR_DM_ENABLED;
+	return value === true || value === 'true';
+}
+
+/**
+ * Resolves the Slack user to message about a commit: the author email from `emailLookup`, then the first Slack user
+ * lookup that knows it. Returns undefined only when the commit or the user is not found; failed lookups (5xx, rate limits,
+ * timeouts) are thrown so the provider channel outbox retries the direct message, or dead-letters it.
+ */
+export async function findCommitAuthorSlackUser(
+	pacticipant: string,
+	commitSha: string,
+	emailLookup: CommitAuthorEmailLookup,
+	slackUserLookups: SlackUserLookup[],
+): Promise<string | undefined> {
+	const email = await emailLookup(pacticipant, commitSha);
+	if (!email) return undefined;
+	for (const lookup of slackUserLookups) {
+		const userId = await lookup(email);
+		if (userId) return userId;
+	}
+	return undefined;
+}
+
+/**
+ * The default lookups: the author email from the GitHub commits API, the Slack user from COMMIT_AUTHOR_SLACK_USERS
+ * and then users.lookupByEmail.
+ */
+export async function findCommitAuthorSlackUserForEnv(env: CommitAuthorEnv, pacticipant: string, commitSha: string) {
+	return findCommitAuthorSlackUser(pacticipant, commitSha, createGithubCommitAuthorLookup(env), [
+		createStaticSlackUserLookup(env),
+		(email) => slackLookupUserIdByEmail(env, email),
+	]);
+}
+
+/**
+ * Reads the commit author email from the GitHub commits API, in the repository the commit links point to
+ * (GITHUB_BASE_URL organization, PACTICIPANT_TO_REPO_MAP repository).
+ */
+export function createGithubCommitAuthorLookup(env: CommitAuthorEnv): CommitAuthorEmailLookup {
+	return async (pacticipant, commitSha) => {
+		const owner = new URL(env.GITHUB_BASE_URL).pathname.replace(/^\/+|\/+$/g, '');
+		const repo = mapPacticipantToRepo(env, pacticipant);
+		const apiBaseUrl = (env.GITHUB_API_BASE_URL ?? 'https://api.github.com').trim().replace(/\/+$/, '');
+		const res = await fetch(`${apiBaseUrl}/repos/${owner}/${repo}/commits/${encodeURIComponent(commitSha)}`, {
+			method: 'GET',
+			headers: {
+				Accept: 'application/vnd.github+json',
+				'User-Agent': 'pact-slack-aggregator',
+				...(env.GITHUB_TOKEN && { Authorization: `Bearer ${env.GITHUB_TOKEN}` }),
+			},
+			signal: AbortSignal.timeout(GITHUB_TIMEOUT_MS),
+		});
+		if (GITHUB_COMMIT_NOT_FOUND_STATUSES.includes(res.status)) {
+			console.log(`GitHub commit not found: ${owner}/${repo}@${commitSha}`);
+			return undefined;
+		}
+		if (!res.ok) {
+			throw new CommitAuthorLookupError(`GitHub commit lookup failed: ${owner}/${repo}@${commitSha} -> ${res.status}`, res.status);
+		}
+		const commit: GithubCommitResponse = await res.json();
+		return commit.commit?.author?.email;
+	};
+}
+
+export function createStaticSlackUserLookup(env: Pick<CommitAuthorEnv, 'COMMIT_AUTHOR_SLACK_USERS'>): SlackUserLookup {
+	const errors: string[] = [];
+	const users = parseJsonConfig('COMMIT_AUTHOR_SLACK_USERS', env.COMMIT_AUTHOR_SLACK_USERS, errors);
+	for (const error of errors) {
+		console.error(`Invalid commit author Slack users, ignoring them: ${error}`);
+	}
+	const byEmail = new Map<string, string>();
+	if (isPlainObject(users)) {
+		for (const [email, userId] of Object.entries(users)) {
+			if (isNonEmptyString(userId)) byEmail.set(email.toLowerCase(), userId);
+		}
+	}
+	return (email) => Promise.resolve(byEmail.get(email.toLowerCase()));
+}
@@ -1,8 +1,30 @@
 // Event type constants
 export const PROVIDER_VERIFICATION_PUBLISHED = 'provider_verification_published' as const;
 export const CONTRACT_REQUIRING_VERIFICATION_PUBLISHED = 'contract_requiring_verification_published' as const;
+export const CONTRACT_PUBLISHED = 'contract_published' as const;
+export const CONTRACT_CONTENT_CHANGED = 'contract_content_changed' as const;
+export const PROVIDER_VERIFICATION_SUCCEEDED = 'provider_verification_succeeded' as const;
+export const PROVIDER_VERIFICATION_FAILED = 'provider_verification_failed' as const;
+export const VERIFICATION_EVENT_TYPES = [
+	PROVIDER_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PROVIDER_VERIFICATION_FAILED,
+] as const;
+export const PUBLICATION_EVENT_TYPES = [CONTRACT_REQUIRING_VERIFICATION_PUBLISHED, CONTRACT_PUBLISHED, CONTRACT_CONTENT_CHANGED] as const;
+// Sent from CI after `pact-broker record-deployment` / `record-release`; the Pact Broker has no webhook events for these
+export const PACTICIPANT_VERSION_DEPLOYED = 'pacticipant_version_deployed' as const;
+export const PACTICIPANT_VERSION_RELEASED = 'pacticipant_version_released' as const;
+export const DEPLOYMENT_EVENT_TYPES = [PACTICIPANT_VERSION_DEPLOYED, PACTICIPANT_VERSION_RELEASED] as const;
 export const THREAD_REMOVAL_NOTICE: string = '🦕 *Old pact!*\nThis thread will stop receiving updates!' as const;
 export const DEPRECATION_NOTICE: string = '🧹 *Deprecated pact!*\nThis thread will stop receiving updates!' as const;
+export const AWAITING_VERIFICATION_NOTICE: string =
+	'⏳ *Still awaiting verification!*\nNo verification result has arrived for this pact yet.' as const;
+export const FLAKY_VERIFICATION_BADGE: string =
+	'🎲 *Flaky!*\nVerification results of this pact keep flip-flopping between success and failure.' as const;
 export const THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE: string =
 	'🧵 *Thread discontinued*\nThis thread will stop receiving updates due to many replies. A new thread has been opened for new updates for this contract.' as const;
-export const DAY_MS = 24 * 60 * 60 * 1000;
+// Webhook HMAC signature headers
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Pact-Signature' as const;
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Pact-Signature-Timestamp' as const;
+export const MINUTE_MS = 60 * 1000;
+export const DAY_MS = 24 * 60 * MINUTE_MS;
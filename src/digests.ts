@@ -0,0 +1,95 @@
+import { DAY_MS } from './constants';
+import { findFlakyVerifications, getFlakyVerificationWindowMs } from './flaky-verifications';
+import { getPactVersionFromPayload, isPublicationPayload, isVerificationPayload } from './payload-utils';
+import { isMasterBranch } from './utils';
+import type { BranchPatterns } from './utils';
+import type { PactActivityRow } from './aggregator-storage';
+import type { FlakyVerificationEnv } from './flaky-verifications';
+import type { ContractPublicationPayload, DigestPeriod, DigestReport, ProviderVerificationPayload } from './types';
+
+export const DIGEST_PERIOD_MS: Record<DigestPeriod, number> = {
+	daily: DAY_MS,
+	weekly: 7 * DAY_MS,
+};
+
+// Minimal environment interface for building digests
+export interface DigestEnv extends FlakyVerificationEnv {
+	DAILY_DIGEST_ENABLED?: boolean | string;
+	WEEKLY_DIGEST_ENABLED?: boolean | string;
+	DEFAULT_MASTER_BRANCH?: BranchPatterns;
+	PACTICIPANT_MASTER_BRANCH_EXCEPTIONS?: Record<string, BranchPatterns>;
+}
+
+export function isDigestEnabled(env: DigestEnv, period: DigestPeriod): boolean {
+	const value = period === 'daily' ? env.DAILY_DIGEST_ENABLED : env.WEEKLY_DIGEST_ENABLED;
+	return !(value === false || value === 'false');
+}
+
+/**
+ * Builds the digest of the period [from, to) from the recorded activity.
+ * Publications and verifications are counted within the period, as are pact versions that flip-flopped in it;
+ * unverified pacts and failing verifications reflect the state at `to` over all the activity passed in.
+ * @param activity the recorded activity, in arrival order (only the activity of `providerName` when given)
+ */
+export function buildDigestReport(
+	activity: PactActivityRow[],
+	options: { period: DigestPeriod; from: number; to: number; providerName?: string },
+	env: DigestEnv,
+): DigestReport {
+	const { period, from, to, providerName } = options;
+	const publishedPacts = new Map<string, ContractPublicationPayload>();
+	const verificationsInPeriod = new Map<string, ProviderVerificationPayload>();
+	const verifiedPactVersions = new Set<string>();
+	const latestPublications = new Map<string, ContractPublicationPayload>();
+	const latestMasterVerifications = new Map<string, ProviderVerificationPayload>();
+
+	const activityBefore = activity.filter(({ ts }) => ts < to);
+	for (const { ts, payload } of activityBefore) {
+		const inPeriod = ts >= from;
+		const pair = `${payload.providerName}|${payload.consumerName}`;
+		const pactVersion = getPactVersionFromPayload(payload);
+
+		if (isPublicationPayload(payload)) {
+			// A publication triggers several events (published, requiring verification, content changed)
+			if (inPeriod) publishedPacts.set(`${pair}|${payload.consumerVersionNumber}|${pactVersion}`, payload);
+			latestPublications.set(`${pair}|${payload.consumerVersionBranch}`, payload);
+		} else if (isVerificationPayload(payload)) {
+			if (inPeriod) verificationsInPeriod.set(payload.verificationResultUrl, payload);
+			if (pactVersion) verifiedPactVersions.add(`${pair}|${pactVersion}`);
+			if (isMasterBranch(env, payload.providerName, payload.providerVersionBranch)) {
+				latestMasterVerifications.set(pair, payload);
+			}
+		}
+	}
+
+	const verifications = [...verificationsInPeriod.values()];
+	const verificationsSucceeded = verifications.filter((v) => v.githubVerificationStatus === 'success').length;
+	return {
+		period,
+		from,
+		to,
+		...(providerName !== undefined && { providerName }),
+		publishedPacts: [...publishedPacts.values()],
+		verificationsSucceeded,
+		verificationsFailed: verifications.length - verificationsSucceeded,
+		unverifiedPacts: [...latestPublications.values()].filter((pub) => {
+			const pactVersion = getPactVersionFromPayload(pub);
+			return pactVersion !== undefined && !verifiedPactVersions.has(`${pub.providerName}|${pub.consumerName}|${pactVersion}`);
+		}),
+		failingVerifications: [...latestMasterVerifications.values()].filter((ver) => ver.githubVerificationStatus !== 'success'),
+		flakyVerifications: findFlakyVerifications(activityBefore, getFlakyVerificationWindowMs(env)).filter((f) => f.lastFlipAt >= from),
+	};
+}
+
+/**
+ * A digest with nothing published, verified, unverified, failing or flaky is not posted.
+ */
+export function isEmptyDigestReport(report: DigestReport): boolean {
+	return (
+		report.publishedPacts.length === 0 &&
+		report.verificationsSucceeded + report.verificationsFailed === 0 &&
+		report.unverifiedPacts.length === 0 &&
+		report.failingVerifications.length === 0 &&
+		report.flakyVerifications.length === 0
+	);
+}
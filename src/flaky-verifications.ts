@@ -0,0 +1,75 @@
+import { MINUTE_MS } from './constants';
+import { getPactVersionFromPayload, isVerificationPayload } from './payload-utils';
+import { coerceInt } from './utils';
+import type { PactActivityRow } from './aggregator-storage';
+import type { FlakyVerification } from './types';
+
+// Outcome changes within the window that make a pact version flaky, e.g. success → failed → success
+export const FLAKY_MIN_FLIPS = 2;
+
+// Minimal environment interface for flaky verification detection
+export interface FlakyVerificationEnv {
+	/**
+	 * Window in which the outcome changes are counted (default 1440); 0 disables the detection
+	 */
+	FLAKY_VERIFICATION_WINDOW_MINUTES?: number | string;
+}
+
+export function getFlakyVerificationWindowMs(env: FlakyVerificationEnv): number {
+	return coerceInt(env.FLAKY_VERIFICATION_WINDOW_MINUTES, 1440, { min: 0 }) * MINUTE_MS;
+}
+
+/**
+ * Finds the pact versions whose verification results on a provider branch changed outcome at least
+ * FLAKY_MIN_FLIPS times within `windowMs`.
+ * @param activity the recorded activity, in arrival order
+ * @returns the flaky pairs, most recently flipped first
+ */
+export function findFlakyVerifications(activity: PactActivityRow[], windowMs: number): FlakyVerification[] {
+	if (windowMs <= 0) return [];
+
+	const results = new Map<string, Map<string, { ts: number; success: boolean }>>();
+	const latest = new Map<string, FlakyVerification>();
+	for (const { ts, payload } of activity) {
+		if (!isVerificationPayload(payload)) continue;
+		const pactVersion = getPactVersionFromPayload(payload);
+		if (pactVersion === undefined) continue;
+
+		const key = `${payload.providerName}|${payload.consumerName}|${pactVersion}|${payload.providerVersionBranch}`;
+		const group = results.get(key) ?? new Map<string, { ts: number; success: boolean }>();
+		results.set(key, group);
+		// A result reported by several event types counts once
+		group.set(payload.verificationResultUrl, { ts, success: payload.githubVerificationStatus === 'success' });
+		latest.set(key, {
+			providerName: payload.providerName,
+			consumerName: payload.consumerName,
+			providerVersionBranch: payload.providerVersionBranch,
+			pactVersion,
+			flips: 0,
+			lastFlipAt: ts,
+			verificationResultUrl: payload.verificationResultUrl,
+		});
+	}
+
+	const flaky: FlakyVerification[] = [];
+	for (const [key, group] of results) {
+		const outcomes = [...group.values()];
+		// The time of every outcome change, and of the result it changed from
+		const flips = outcomes.flatMap((outcome, i) => {
+			const previous = outcomes[i - 1];
+			return previous && previous.success !== outcome.success ? [{ from: previous.ts, at: outcome.ts }] : [];
+		});
+
+		let maxFlips = 0;
+		let lastFlipAt = 0;
+		for (const flip of flips) {
+			const count = flips.filter((other) => other.at <= flip.at && other.from >= flip.at - windowMs).length;
+			maxFlips = Math.max(maxFlips, count);
+			if (count >= FLAKY_MIN_FLIPS) lastFlipAt = flip.at;
+		}
+
+		const verification = latest.get(key);
+		if (verification && maxFlips >= FLAKY_MIN_FLIPS) flaky.push({ ...verification, flips: maxFlips, lastFlipAt });
+	}
+	return flaky.sort((a, b) => b.lastFlipAt - a.lastFlipAt);
+}
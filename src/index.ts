@@ -2,44 +2,79 @@ import { now } from './time-utils';
 import type {
 	PactWebhookPayload,
 	PactEventData,
-	StoredPactEventData,
 	DebugInfo,
 	PublicationThreadEntry,
-	ProviderVerificationPublishedPayload,
+	ProviderVerificationPayload,
+	CanIDeploySummary,
+	ProviderChannelOutboxEntry,
+	DigestPeriod,
+	DigestReport,
+	VerificationStreakChange,
+	PayloadFieldError,
 } from './types';
-import { getEventDataFromPayload, getProviderSlackChannel } from './payload-utils';
+import { getEventDataFromPayload, getProviderSlackChannel, isDeploymentPayload, isVerificationPayload } from './payload-utils';
+import { validatePactWebhookPayload } from './payload-validation';
+import { authenticateWebhookRequest } from './webhook-auth';
+import { isAuthorizedForScope } from './access-control';
+import { fetchCanIDeploy, isPactBrokerConfigured } from './pact-broker-client';
 import {
-	createSummaryAndDetailsMessages,
 	createVerificationThreadDetailsForProviderChannel,
-	appendVerificationStatusToProviderPublicationSummary,
-	getPublicationSummaryForPayload,
+	createProviderThreadRootSummary,
+	createProviderThreadRootSummaryBlocks,
+	createVerificationThreadDetailBlocksForProviderChannel,
+	createNoticeBlocks,
+	createDigestMessage,
+	createVerificationEscalationMessage,
+	createVerificationStreakMessage,
+	createCommitAuthorMessage,
 } from './messages';
-import { postPacticipantEventsToSlack, slackPost, slackUpdate, slackFetchThreadReplyCount } from './slack';
-import {
-	DEPRECATION_NOTICE,
-	THREAD_REMOVAL_NOTICE,
-	THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE,
-	PROVIDER_VERIFICATION_PUBLISHED,
-} from './constants';
+import { blocksIfEnabled } from './slack-blocks';
+import { slackPost, slackUpdate, slackFetchThreadReplyCount, SlackApiError, toSlackApiError } from './slack';
+import { THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE } from './constants';
 import { coerceInt, isMasterBranch } from './utils';
+import { getPactAggregatorStub, processEventsForPublication } from './publishing';
+import { isDigestEnabled } from './digests';
+import { getProviderChannels, routePayload, getChannelRoutes } from './channel-router';
+import { getBranchFilterAction } from './branch-filters';
+import { findCommitAuthorSlackUserForEnv } from './commit-authors';
+import {
+	getNextPublishingTime,
+	getPublishingSchedule,
+	getPublishingWindow,
+	hasChannelOverride,
+	isPublishingTime,
+} from './publishing-schedule';
 export { PactAggregator } from './pact-aggregator';
 
 const PUBLISH_CRON = '*/2 * * * *';
 const DAILY_MAINTENANCE_CRON = '0 3 * * *';
+const WEEKLY_DIGEST_CRON = '0 7 * * 1';
+
+// Provider channel outbox delivery: entries claimed per batch, batches per run (entries queued while
+// delivering, e.g. deprecation notices, go out in a later batch), lease while delivering, delay before a retry
+const OUTBOX_BATCH_SIZE = 25;
+const OUTBOX_MAX_BATCHES_PER_RUN = 4;
+const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+const OUTBOX_RETRY_DELAY_MS = 60 * 1000;
 
 export default {
-	async fetch(request: Request, env: Env) {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext) {
 		const aggregatorStub = getPactAggregatorStub(env);
 
 		const url = new URL(request.url);
 
-		// Debug endpoint
-		if (url.pathname === '/debug' && url.searchParams.get('key') === env.DEBUG_KEY) {
-			if (url.searchParams.get('clear') === 'true') {
+		// Debug endpoint (read-only unless a clear flag is passed)
+		if (url.pathname === '/debug') {
+			const clearAll = url.searchParams.get('clear') === 'true';
+			const clearPublicationThreads = url.searchParams.get('clearPublicationThreads') === 'true';
+			if (!isAuthorizedForScope(request, env, clearAll || clearPublicationThreads ? 'admin' : 'debug')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			if (clearAll) {
 				await aggregatorStub.clearAll();
 				return new Response('State cleared', { status: 200 });
 			}
-			if (url.searchParams.get('clearPublicationThreads') === 'true') {
+			if (clearPublicationThreads) {
 				await aggregatorStub.clearPublicationThreads();
 				return new Response('Publication threads cleared', { status: 200 });
 			}
@@ -50,49 +85,145 @@ export default {
 			});
 		}
 
+		// Dead-letter store: list (read-only), or replay/discard a dead-lettered group
+		if (url.pathname === '/dead-letters') {
+			const replayId = url.searchParams.get('replay');
+			const discardId = url.searchParams.get('discard');
+			if (!isAuthorizedForScope(request, env, replayId || discardId ? 'admin' : 'debug')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			if (replayId) {
+				const replayed = await aggregatorStub.replayDeadLetter(replayId);
+				return replayed ? new Response('Dead letter queued for publishing', { status: 200 }) : new Response('Not Found', { status: 404 });
+			}
+			if (discardId) {
+				const discarded = await aggregatorStub.discardDeadLetter(discardId);
+				return discarded ? new Response('Dead letter discarded', { status: 200 }) : new Response('Not Found', { status: 404 });
+			}
+			return jsonResponse(await aggregatorStub.listDeadLetters(), 200);
+		}
+
+		// Flaky verifications (read-only)
+		if (url.pathname === '/flaky') {
+			if (!isAuthorizedForScope(request, env, 'debug')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			return jsonResponse(await aggregatorStub.listFlakyVerifications(), 200);
+		}
+
+		// Verification latency percentiles per provider (read-only), of one provider with ?provider=<name>
+		if (url.pathname === '/metrics/verification-latency') {
+			if (!isAuthorizedForScope(request, env, 'debug')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			return jsonResponse(await aggregatorStub.getVerificationLatencies(url.searchParams.get('provider') ?? undefined), 200);
+		}
+
+		// Routes a sample webhook payload through CHANNEL_ROUTES without posting anything
+		if (url.pathname === '/routes/dry-run') {
+			if (!isAuthorizedForScope(request, env, 'debug')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			if (request.method !== 'POST') {
+				return new Response('Method Not Allowed', { status: 405 });
+			}
+			let sample: unknown;
+			try {
+				sample = await request.json();
+			} catch {
+				return jsonResponse({ error: 'invalid_json', errors: [] }, 400);
+			}
+			const validation = validatePactWebhookPayload(sample);
+			if (!validation.ok) {
+				return jsonResponse({ error: 'invalid_payload', errors: validation.errors }, 400);
+			}
+			if (isDeploymentPayload(validation.payload)) {
+				const error: PayloadFieldError = { field: 'eventType', code: 'not_routed', message: 'deployment events are not routed' };
+				return jsonResponse({ error: 'invalid_payload', errors: [error] }, 400);
+			}
+			return jsonResponse({ ...routePayload(env, validation.payload), errors: getChannelRoutes(env).errors }, 200);
+		}
+
 		// Manual trigger endpoint
 		if (url.pathname === '/trigger') {
-			if (url.searchParams.get('key') !== env.DEBUG_KEY) {
+			if (!isAuthorizedForScope(request, env, 'trigger')) {
 				return new Response('Unauthorized', { status: 401 });
 			}
 			console.log(`Should process? ${shouldProcessAtCurrentTime(env)}`);
+			await deliverProviderChannelUpdates(env);
 			await processEventsForPublication(env);
 			return new Response('Processing completed', { status: 200 });
 		}
 
 		if (url.pathname === '/trigger-daily') {
-			if (url.searchParams.get('key') !== env.DEBUG_KEY) {
+			if (!isAuthorizedForScope(request, env, 'trigger')) {
 				return new Response('Unauthorized', { status: 401 });
 			}
 			await runDailyMaintenance(env);
 			return new Response('Daily maintenance completed', { status: 200 });
 		}
 
+		if (url.pathname === '/trigger-weekly') {
+			if (!isAuthorizedForScope(request, env, 'trigger')) {
+				return new Response('Unauthorized', { status: 401 });
+			}
+			await runDigests(env, 'weekly');
+			return new Response('Weekly digests completed', { status: 200 });
+		}
+
 		if (request.method !== 'POST') {
 			return new Response('Method Not Allowed', { status: 405 });
 		}
 
-		// Check DEBUG_KEY for POST requests
-		const debugKey = url.searchParams.get('key');
-		if (debugKey !== env.DEBUG_KEY) {
+		// Authenticate POST requests (HMAC signature or ingest token fallback)
+		const rawBody = await request.text();
+		const auth = await authenticateWebhookRequest(request, rawBody, env);
+		if (!auth.ok) {
+			console.error(`Rejected webhook: ${auth.reason}`);
 			return new Response('Unauthorized', { status: 401 });
 		}
 
 		// A POST request - process webhook from Pact
+		let body: unknown;
 		try {
-			const rawPayload: PactWebhookPayload = await request.json();
-			const eventData: PactEventData = getEventDataFromPayload(rawPayload);
-
-			await aggregatorStub.addEvent(eventData);
+			body = JSON.parse(rawBody);
+		} catch {
+			return jsonResponse({ error: 'invalid_json', errors: [] }, 400);
+		}
 
-			// Also send to provider-specific channel
-			await postToProvidersChannel(rawPayload, env);
+		const validation = validatePactWebhookPayload(body);
+		if (!validation.ok) {
+			console.error('Rejected invalid webhook payload', validation.errors);
+			return jsonResponse({ error: 'invalid_payload', errors: validation.errors }, 400);
+		}
 
-			return new Response('OK', { status: 200 });
+		try {
+			if (isDeploymentPayload(validation.payload)) {
+				// Queues a root summary refresh for every provider channel thread whose deployed environments changed
+				await aggregatorStub.recordDeployment(validation.payload);
+			} else {
+				const rawPayload: PactWebhookPayload = validation.payload;
+				const eventData: PactEventData = getEventDataFromPayload(rawPayload);
+
+				// The provider channel posts (one per routed channel) are queued in the outbox together with the event
+				const outboxItems = getProviderChannels(env, rawPayload).map((channel) => ({
+					kind: 'pact_event' as const,
+					payload: rawPayload,
+					channel,
+				}));
+				const stored = await aggregatorStub.addEvent(eventData, outboxItems);
+				if (!stored) {
+					return new Response('OK (duplicate)', { status: 200 });
+				}
+			}
 		} catch (err) {
 			console.error('Webhook processing error', err);
 			return new Response('Internal Server Error', { status: 500 });
 		}
+
+		// Deliver to the provider channel right away without holding up the response; the cron retries failures
+		ctx.waitUntil(deliverProviderChannelOutbox(env));
+		return new Response('OK', { status: 200 });
 	},
 
 	// Runs automatically (Cloudflare Cron). Schedule defined in wrangler.jsonc
@@ -101,8 +232,15 @@ export default {
 			ctx.waitUntil(runDailyMaintenance(env));
 			return;
 		}
+		if (event.cron === WEEKLY_DIGEST_CRON) {
+			ctx.waitUntil(runDigests(env, 'weekly'));
+			return;
+		}
+
+		// Provider channel posts are delivered on every tick; only channels with a PUBLISHING_SCHEDULE override wait for their window
+		ctx.waitUntil(deliverProviderChannelUpdates(env));
 
-		// Default: publish cron (frequent) gated by local working-hours rules.
+		// Default: publish cron (frequent) gated by the PUBLISHING_SCHEDULE of the main channel.
 		// If Cloudflare ever calls us with an unexpected cron string, fall back to the gated path.
 		if (event.cron === PUBLISH_CRON || !event.cron) {
 			if (shouldProcessAtCurrentTime(env)) {
@@ -119,42 +257,291 @@ export default {
 
 async function runDailyMaintenance(env: Env) {
 	// Daily cron runs under the longer Scheduled Worker limit (15 min for intervals >= 1 hour).
-	// Run retention pruning for publication thread metadata, then attempt a publish.
+	// Run retention pruning for publication thread metadata (which queues the removal notices) and the digest
+	// activity log, queue the daily digests, then deliver them.
 	const aggregatorStub = getPactAggregatorStub(env);
-	const removedEntries = await aggregatorStub.prunePublicationThreads();
-	await notifySlackAboutRemovedPactVersions(env, removedEntries);
+	await aggregatorStub.prunePublicationThreads();
+	await aggregatorStub.prunePactActivity();
+	if (isDigestEnabled(env, 'daily')) {
+		await aggregatorStub.queueDigests('daily');
+	}
+	await deliverProviderChannelOutbox(env);
 }
 
-async function notifySlackAboutRemovedPactVersions(env: Env, removedEntries: PublicationThreadEntry[]) {
-	for (const entry of removedEntries) {
-		const threadTs = entry.info.ts;
-		const channelForThread = entry.info.channelId;
-
-		await slackPost(
-			{
-				SLACK_CHANNEL: channelForThread,
-				SLACK_TOKEN: env.SLACK_TOKEN,
-			},
-			THREAD_REMOVAL_NOTICE,
-			threadTs,
-		);
+async function runDigests(env: Env, period: DigestPeriod) {
+	if (!isDigestEnabled(env, period)) return;
+	await getPactAggregatorStub(env).queueDigests(period);
+	await deliverProviderChannelOutbox(env);
+}
 
-		const summaryText = getPublicationSummaryForPayload(entry.info.payload, env);
+/**
+ * Queues the alerts for pacts awaiting verification past their SLA, then delivers the provider channel outbox.
+ */
+async function deliverProviderChannelUpdates(env: Env) {
+	try {
+		await getPactAggregatorStub(env).queueVerificationSlaAlerts();
+	} catch (err) {
+		console.error('Failed to queue verification SLA alerts', err);
+	}
+	await deliverProviderChannelOutbox(env);
+}
 
-		await slackUpdate(
-			{
-				SLACK_CHANNEL: channelForThread,
-				SLACK_TOKEN: env.SLACK_TOKEN,
-			},
-			threadTs,
-			summaryText + '\n' + THREAD_REMOVAL_NOTICE,
-		);
+/**
+ * Delivers queued provider channel posts, at least once and in enqueue order per provider.
+ * An entry that failed with a retryable error stays in the outbox (visible in /debug with its error) and is retried by a
+ * later run; the remaining entries of that provider are deferred too, so thread replies are not posted out of order
+ * (direct messages to commit authors are not held back by, and do not hold back, anything else).
+ * Entries failing with a permanent Slack error, or PUBLISH_MAX_ATTEMPTS times, are moved to the dead-letter store instead.
+ * Entries for a channel with a PUBLISHING_SCHEDULE override are deferred until the channel's next publishing time.
+ */
+async function deliverProviderChannelOutbox(env: Env) {
+	try {
+		const aggregatorStub = getPactAggregatorStub(env);
+		const { schedule } = getPublishingSchedule(env);
+		const failedOrderingKeys = new Set<string>();
+		for (let batch = 0; batch < OUTBOX_MAX_BATCHES_PER_RUN; batch++) {
+			const entries = await aggregatorStub.claimProviderChannelOutbox(OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS);
+			if (entries.length === 0) return;
+
+			for (const entry of entries) {
+				const orderingKey = getOutboxEntryOrderingKey(entry);
+				if (failedOrderingKeys.has(orderingKey)) {
+					await aggregatorStub.releaseProviderChannelOutboxEntry(entry.id, OUTBOX_RETRY_DELAY_MS);
+					continue;
+				}
+				const channel = getOutboxEntryChannel(entry, env);
+				if (hasChannelOverride(schedule, channel)) {
+					const currentTime = now();
+					const publishAt = getNextPublishingTime(getPublishingWindow(schedule, channel), currentTime);
+					if (publishAt > currentTime) {
+						await aggregatorStub.releaseProviderChannelOutboxEntry(entry.id, publishAt - currentTime);
+						continue;
+					}
+				}
+				try {
+					await deliverProviderChannelOutboxEntry(entry, env);
+					await aggregatorStub.ackProviderChannelOutboxEntry(entry.id);
+				} catch (err) {
+					const error = err instanceof Error ? err.message : 'unknown_error';
+					// Errors other than Slack's own (network, Durable Object) are assumed to be transient
+					const retryable = !(err instanceof SlackApiError) || err.retryable;
+					const { attempts, deadLettered } = await aggregatorStub.recordProviderChannelOutboxFailure(
+						entry.id,
+						OUTBOX_RETRY_DELAY_MS,
+						error,
+						retryable,
+					);
+					console.error(
+						deadLettered
+							? `Failed to deliver provider channel outbox entry ${entry.id} (${entry.kind}) ${attempts} times; moved it to the dead-letter store`
+							: `Failed to deliver provider channel outbox entry ${entry.id} (${entry.kind}); will retry later`,
+						err,
+					);
+					if (!deadLettered) failedOrderingKeys.add(orderingKey);
+				}
+			}
+		}
+	} catch (err) {
+		console.error('Failed to deliver the provider channel outbox; will retry later', err);
+	}
+}
+
+async function deliverProviderChannelOutboxEntry(entry: ProviderChannelOutboxEntry, env: Env) {
+	switch (entry.kind) {
+		case 'pact_event':
+			return postToProvidersChannel(entry.payload, getOutboxEntryChannel(entry, env), env);
+		case 'thread_notice':
+			return postThreadNotice(entry.thread, entry.notice, entry.removeThread, env);
+		case 'summary_refresh':
+			return refreshThreadRootSummary(entry.thread, env);
+		case 'digest':
+			return postDigest(entry.channel, entry.report, env);
+		case 'verification_escalation':
+			return postVerificationEscalation(entry.thread, getOutboxEntryChannel(entry, env), env);
+		case 'verification_streak':
+			return postVerificationStreak(entry.verification, entry.streak, entry.target, getOutboxEntryChannel(entry, env), env);
+		case 'commit_author_dm':
+			return postCommitAuthorMessage(entry.verification, env);
 	}
 }
 
-async function postToProvidersChannel(rawPayload: PactWebhookPayload, env: Env) {
+/**
+ * Entries with the same key are delivered in enqueue order: the provider name for channel posts. Direct messages
+ * get a key of their own, so a failing one does not hold back the provider's channel posts.
+ */
+function getOutboxEntryOrderingKey(entry: ProviderChannelOutboxEntry): string {
+	switch (entry.kind) {
+		case 'pact_event':
+			return entry.payload.providerName;
+		case 'digest':
+			// The main channel digest is not about a single provider
+			return entry.report.providerName ?? '';
+		case 'verification_streak':
+			return entry.verification.providerName;
+		case 'commit_author_dm':
+			return `dm:${entry.id}`;
+		default:
+			return entry.thread.info.payload.providerName;
+	}
+}
+
+function getOutboxEntryChannel(entry: ProviderChannelOutboxEntry, env: Env): string {
+	switch (entry.kind) {
+		case 'pact_event':
+			return entry.channel ?? getProviderSlackChannel(env, entry.payload);
+		case 'digest':
+			return entry.channel;
+		case 'verification_escalation':
+			return entry.channel ?? env.SLACK_CHANNEL;
+		case 'verification_streak':
+			if (entry.channel) return entry.channel;
+			return entry.target === 'main_channel' ? env.SLACK_CHANNEL : getProviderSlackChannel(env, entry.verification);
+		case 'commit_author_dm':
+			// Direct messages follow no channel's publishing schedule
+			return '';
+		default:
+			// Thread keys end with the provider channel name
+			return entry.thread.key.slice(entry.thread.key.lastIndexOf('|') + 1);
+	}
+}
+
+/**
+ * Tells the main channel that a pact is still awaiting verification, unless a verification arrived in the meantime.
+ */
+async function postVerificationEscalation(thread: PublicationThreadEntry, channel: string, env: Env) {
+	const info = await getPactAggregatorStub(env).getPublicationThreadInfoByKey(thread.key);
+	if (info?.awaitingVerificationSince === undefined) return;
+
+	const { text, blocks } = createVerificationEscalationMessage(info, now(), env);
+	const postResp = await slackPost(getSlackEnvForChannel(env, channel), text, undefined, blocksIfEnabled(env, blocks));
+	if (!postResp.ok) {
+		throw toSlackApiError('Slack verification escalation post', postResp);
+	}
+}
+
+/**
+ * Reports a failure streak or a recovery in the main channel, or as a reply in the thread of the verified pact.
+ * The thread was created (or rotated) by the verification's own pact_event entry, which is delivered first.
+ */
+async function postVerificationStreak(
+	ver: ProviderVerificationPayload,
+	streak: VerificationStreakChange,
+	target: 'thread' | 'main_channel',
+	channel: string,
+	env: Env,
+) {
+	const { text, blocks } = createVerificationStreakMessage(ver, streak, env, target === 'main_channel');
+	if (target === 'main_channel') {
+		const postResp = await slackPost(getSlackEnvForChannel(env, channel), text, undefined, blocksIfEnabled(env, blocks));
+		if (!postResp.ok) {
+			throw toSlackApiError('Slack verification streak post', postResp);
+		}
+		return;
+	}
+
+	const aggregatorStub = getPactAggregatorStub(env);
+	const info = await aggregatorStub.getPublicationThreadInfo(ver, channel);
+	if (!info?.ts || !info.channelId) {
+		console.error(`No provider channel thread for ${ver.verificationResultUrl}; skipping verification streak notice`);
+		return;
+	}
+	const postResp = await slackPost(getSlackEnvForChannel(env, info.channelId), text, info.ts, blocksIfEnabled(env, blocks));
+	if (!postResp.ok) {
+		throw toSlackApiError('Slack verification streak thread post', postResp);
+	}
+	await aggregatorStub.updatePublicationThread(ver, channel);
+}
+
+/**
+ * Sends the author of the consumer commit a direct message about its failed verification.
+ * An author whose commit or Slack user is not found is skipped; failed lookups are thrown, so the message is retried
+ * (or dead-lettered) like any other outbox entry.
+ */
+async function postCommitAuthorMessage(ver: ProviderVerificationPayload, env: Env) {
+	const userId = await findCommitAuthorSlackUserForEnv(env, ver.consumerName, ver.consumerVersionNumber);
+	if (!userId) {
+		console.log(`No Slack user found for the author of ${ver.consumerName} ${ver.consumerVersionNumber}; skipping direct message`);
+		return;
+	}
+	const { text, blocks } = createCommitAuthorMessage(ver, env);
+	const postResp = await slackPost(getSlackEnvForChannel(env, userId), text, undefined, blocksIfEnabled(env, blocks));
+	if (!postResp.ok) {
+		throw toSlackApiError('Slack commit author message', postResp);
+	}
+}
+
+async function postDigest(channel: string, report: DigestReport, env: Env) {
+	const { text, blocks } = createDigestMessage(report, env);
+	const postResp = await slackPost(getSlackEnvForChannel(env, channel), text, undefined, blocksIfEnabled(env, blocks));
+	if (!postResp.ok) {
+		throw toSlackApiError('Slack digest post', postResp);
+	}
+}
+
+/**
+ * Replies with a notice (deprecated or removed pact version) in a provider channel thread and appends it to the root summary.
+ * Deprecated threads are removed from the stored thread metadata once the notice is delivered.
+ */
+async function postThreadNotice(thread: PublicationThreadEntry, notice: string, removeThread: boolean, env: Env) {
+	const { ts: threadTs, channelId } = thread.info;
+	if (!threadTs || !channelId) {
+		console.error(`Missing thread metadata for ${thread.key}; skipping notice`);
+		return;
+	}
+
+	const postResp = await slackPost(
+		getSlackEnvForChannel(env, channelId),
+		notice,
+		threadTs,
+		blocksIfEnabled(env, createNoticeBlocks(notice)),
+	);
+	if (!postResp.ok) {
+		throw toSlackApiError('Slack thread notice post', postResp);
+	}
+
+	const updateResp = await slackUpdate(
+		getSlackEnvForChannel(env, channelId),
+		threadTs,
+		createProviderThreadRootSummary(thread.info, env, notice),
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(thread.info, env, notice)),
+	);
+	if (!updateResp.ok) {
+		throw toSlackApiError('Slack root summary update', updateResp);
+	}
+
+	if (removeThread) {
+		await getPactAggregatorStub(env).removePublicationThreadKeys([thread.key]);
+	}
+}
+
+/**
+ * Re-renders a provider channel root summary from the thread's current state.
+ * Threads removed in the meantime (deprecated or pruned) are left alone so their notice is kept.
+ */
+async function refreshThreadRootSummary(thread: PublicationThreadEntry, env: Env) {
+	const info = await getPactAggregatorStub(env).getPublicationThreadInfoByKey(thread.key);
+	if (!info) return;
+
+	const updateResp = await slackUpdate(
+		getSlackEnvForChannel(env, info.channelId),
+		info.ts,
+		createProviderThreadRootSummary(info, env),
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(info, env)),
+	);
+	if (!updateResp.ok) {
+		throw toSlackApiError('Slack root summary update', updateResp);
+	}
+}
+
+async function postToProvidersChannel(rawPayload: PactWebhookPayload, providerSlackChannel: string, env: Env) {
+	// Posts queued before BRANCH_FILTERS muted their branch are not delivered either
+	const muteAction = getBranchFilterAction(env, rawPayload);
+	if (muteAction === 'drop' || muteAction === 'store_only') {
+		console.log(`Skipping provider channel post for a muted branch (${muteAction}) to ${providerSlackChannel}`);
+		return;
+	}
+
 	const aggregatorStub = getPactAggregatorStub(env);
-	const providerSlackChannel = getProviderSlackChannel(env, rawPayload);
 
 	const publicationThreadInfo = await aggregatorStub.getPublicationThreadInfo(rawPayload, providerSlackChannel);
 	let threadTs = publicationThreadInfo?.ts;
@@ -163,45 +550,42 @@ async function postToProvidersChannel(rawPayload: PactWebhookPayload, env: Env)
 	// A verification event may or may not have an existing thread for its pact
 	//
 	// If the thread timestamp ID does not exist yet, create it by posting the summary
-	threadTs ??= await createPublicationThread(rawPayload, env);
-
-	if (!threadTs) {
-		console.error('Failed to obtain thread timestamp for provider channel post');
-		return;
-	}
+	threadTs ??= await createPublicationThread(rawPayload, providerSlackChannel, env);
 
 	// If this is a verification result, post in the thread
-	if (rawPayload.eventType === PROVIDER_VERIFICATION_PUBLISHED) {
+	if (isVerificationPayload(rawPayload)) {
 		const ver = rawPayload;
 		console.log(`Posting verification result to channel ${providerSlackChannel} in thread ${threadTs}`);
+		// Before the root summary is rendered again, so it no longer shows the "still awaiting verification" notice
+		await aggregatorStub.recordPublicationThreadVerification(ver, providerSlackChannel);
 		threadTs = await rotatePublicationThreadIfNeeded(ver, providerSlackChannel, env, threadTs);
 
-		// If provider branch is the configured "master" branch, update original summary instead of posting thread detail
+		// If provider branch is the configured "master" branch, update original summary instead of posting thread detail.
+		// Otherwise only the can-i-deploy results (if configured) need refreshing.
 		if (isMasterBranch(env, ver.providerName, ver.providerVersionBranch)) {
 			await updateProviderThreadSummaryForMasterBranch(ver, providerSlackChannel, env, threadTs);
+		} else if (getCanIDeployEnvironments(env).length > 0 && isPactBrokerConfigured(env)) {
+			await refreshProviderThreadSummary(ver, providerSlackChannel, env, threadTs);
 		}
 
-		const verificationThreadDetail = createVerificationThreadDetailsForProviderChannel(ver, env);
+		// The provider and consumer owners are mentioned on failures, unless they were recently
+		const owners = await aggregatorStub.getOwnerMentions([ver], providerSlackChannel);
+		const verificationThreadDetail = createVerificationThreadDetailsForProviderChannel(ver, env, owners);
 		const replyResp = await slackPost(
-			{
-				SLACK_CHANNEL: providerSlackChannel,
-				SLACK_TOKEN: env.SLACK_TOKEN,
-			},
+			getSlackEnvForChannel(env, providerSlackChannel),
 			verificationThreadDetail,
 			threadTs,
+			blocksIfEnabled(env, createVerificationThreadDetailBlocksForProviderChannel(ver, env, owners)),
 		);
-		if (replyResp.ok) {
-			await aggregatorStub.updatePublicationThread(ver, providerSlackChannel);
+		if (!replyResp.ok) {
+			throw toSlackApiError('Slack verification reply', replyResp);
 		}
+		await aggregatorStub.recordOwnerMentions([ver], providerSlackChannel, owners);
+		await aggregatorStub.updatePublicationThread(ver, providerSlackChannel);
 	}
 }
 
-async function rotatePublicationThreadIfNeeded(
-	ver: ProviderVerificationPublishedPayload,
-	providerSlackChannel: string,
-	env: Env,
-	threadTs: string,
-) {
+async function rotatePublicationThreadIfNeeded(ver: ProviderVerificationPayload, providerSlackChannel: string, env: Env, threadTs: string) {
 	const aggregatorStub = getPactAggregatorStub(env);
 	const maxMessagesPerThread = coerceInt(env.MAX_MESSAGES_PER_PACT_IN_THREAD, 100, { min: 0 });
 	if (maxMessagesPerThread === 0) {
@@ -218,13 +602,7 @@ async function rotatePublicationThreadIfNeeded(
 	let replyCount = publicationThreadInfo.replyCount;
 	if (replyCount === undefined) {
 		// Legacy entries: backfill from Slack once.
-		replyCount = await slackFetchThreadReplyCount(
-			{
-				SLACK_CHANNEL: channelId,
-				SLACK_TOKEN: env.SLACK_TOKEN,
-			},
-			threadTs,
-		);
+		replyCount = await slackFetchThreadReplyCount(getSlackEnvForChannel(env, channelId), threadTs);
 		if (replyCount !== undefined) {
 			await aggregatorStub.setPublicationThreadReplyCount(ver, providerSlackChannel, replyCount);
 		}
@@ -239,233 +617,150 @@ async function rotatePublicationThreadIfNeeded(
 	);
 
 	const oldThreadTs = threadTs;
-	const originalPayload = publicationThreadInfo.payload ?? ver;
-	const baseSummaryText = getPublicationSummaryForPayload(originalPayload, env);
-	const summaryText = publicationThreadInfo.lastMasterVerification
-		? appendVerificationStatusToProviderPublicationSummary(
-				baseSummaryText,
-				publicationThreadInfo.lastMasterVerification,
-				env,
-				publicationThreadInfo.lastMasterVerificationTs,
-			)
-		: baseSummaryText;
+	const summaryState = { ...publicationThreadInfo, payload: publicationThreadInfo.payload ?? ver };
 	const discontinuationNotice = `${THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE}`;
 
 	// Close the old thread (update root message in place)
-	await slackUpdate(
-		{
-			SLACK_CHANNEL: channelId,
-			SLACK_TOKEN: env.SLACK_TOKEN,
-		},
+	const closeResp = await slackUpdate(
+		getSlackEnvForChannel(env, channelId),
 		oldThreadTs,
-		summaryText + '\n' + discontinuationNotice,
+		createProviderThreadRootSummary(summaryState, env, discontinuationNotice),
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(summaryState, env, discontinuationNotice)),
 	);
+	if (!closeResp.ok) {
+		throw toSlackApiError('Slack rotated thread close', closeResp);
+	}
 
 	// Open a new thread by posting a new root summary
 	const summaryResp = await slackPost(
-		{
-			SLACK_CHANNEL: providerSlackChannel,
-			SLACK_TOKEN: env.SLACK_TOKEN,
-		},
-		summaryText,
+		getSlackEnvForChannel(env, providerSlackChannel),
+		createProviderThreadRootSummary(summaryState, env),
+		undefined,
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(summaryState, env)),
 	);
-	if (summaryResp.ok && summaryResp.ts && summaryResp.channel) {
-		threadTs = summaryResp.ts;
-		await aggregatorStub.rotatePublicationThread(ver, providerSlackChannel, threadTs, summaryResp.channel);
-	} else {
-		console.error('Failed to create rotated thread root message; continuing in existing thread');
-		threadTs = oldThreadTs;
+	if (!summaryResp.ok || !summaryResp.ts || !summaryResp.channel) {
+		throw toSlackApiError('Slack rotated thread root post', summaryResp);
 	}
-	return threadTs;
+	await aggregatorStub.rotatePublicationThread(ver, providerSlackChannel, summaryResp.ts, summaryResp.channel);
+	return summaryResp.ts;
 }
 
 /**
  * Updates the provider channel summary message in place when a master-branch verification completes.
- * Fetches the original publication payload to rebuild the summary, appends verification status, and updates Slack.
+ * Records the verification as the thread's last master verification, then refreshes the root summary.
  */
 async function updateProviderThreadSummaryForMasterBranch(
-	ver: ProviderVerificationPublishedPayload,
+	ver: ProviderVerificationPayload,
 	providerSlackChannel: string,
 	env: Env,
 	threadTs: string,
 ) {
 	const aggregatorStub = getPactAggregatorStub(env);
-	const verifiedAt = now();
-	await aggregatorStub.setPublicationThreadLastMasterVerification(ver, providerSlackChannel, verifiedAt);
+	await aggregatorStub.setPublicationThreadLastMasterVerification(ver, providerSlackChannel, now());
+	await refreshProviderThreadSummary(ver, providerSlackChannel, env, threadTs);
+}
+
+/**
+ * Rebuilds the provider channel root summary from the stored thread state and updates it in place.
+ * When can-i-deploy environments are configured, the can-i-deploy results are looked up first.
+ */
+async function refreshProviderThreadSummary(ver: ProviderVerificationPayload, providerSlackChannel: string, env: Env, threadTs: string) {
+	const aggregatorStub = getPactAggregatorStub(env);
+	const canIDeploy = await lookupCanIDeploy(env, ver.consumerName, ver.consumerVersionNumber);
+	if (canIDeploy) {
+		await aggregatorStub.setPublicationThreadCanIDeploy(ver, providerSlackChannel, canIDeploy);
+	}
 
-	const originalThreadInfo = await aggregatorStub.getPublicationThreadInfo(ver, providerSlackChannel);
-	if (!originalThreadInfo) {
+	const threadInfo = await aggregatorStub.getPublicationThreadInfo(ver, providerSlackChannel);
+	if (!threadInfo) {
 		console.error('Missing publication thread info for summary update; skipping update');
 		return;
 	}
 
-	const originalPayload = originalThreadInfo.payload;
-	const originalSummary = originalPayload ? getPublicationSummaryForPayload(originalPayload, env) : '';
-	const updatedSummary = appendVerificationStatusToProviderPublicationSummary(
-		originalSummary || `Verification results for *${ver.consumerName}*`,
-		ver,
-		env,
-		verifiedAt,
-	);
-	await slackUpdate(
-		{
-			SLACK_CHANNEL: originalThreadInfo.channelId,
-			SLACK_TOKEN: env.SLACK_TOKEN,
-		},
+	const updateResp = await slackUpdate(
+		getSlackEnvForChannel(env, threadInfo.channelId),
 		threadTs,
-		updatedSummary,
+		createProviderThreadRootSummary(threadInfo, env),
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(threadInfo, env)),
 	);
+	if (!updateResp.ok) {
+		throw toSlackApiError('Slack root summary update', updateResp);
+	}
 }
 
 /**
- * Publishes the summary message for a pact publication to the provider's Slack channel.
- * Creates a new  (or updates an existing) thread info for the publication.
+ * Queries the Pact Broker matrix for every environment in CAN_I_DEPLOY_ENVIRONMENTS.
+ * Returns undefined when can-i-deploy is not configured or the broker lookup fails, so the previous results are kept.
+ */
+async function lookupCanIDeploy(env: Env, pacticipant: string, version: string): Promise<CanIDeploySummary | undefined> {
+	const environments = getCanIDeployEnvironments(env);
+	if (environments.length === 0 || !isPactBrokerConfigured(env)) return undefined;
+
+	try {
+		const results = [];
+		for (const environment of environments) {
+			results.push(await fetchCanIDeploy(env, pacticipant, version, environment));
+		}
+		return { pacticipant, version, results };
+	} catch (err) {
+		console.error('can-i-deploy lookup failed; keeping previous results', err);
+		return undefined;
+	}
+}
+
+function getCanIDeployEnvironments(env: Env): string[] {
+	const environments: unknown = env.CAN_I_DEPLOY_ENVIRONMENTS;
+	if (!Array.isArray(environments)) return [];
+	return environments.filter((e): e is string => typeof e === 'string' && e.trim() !== '');
+}
+
+/**
+ * Publishes the summary message for a pact publication to a provider channel (the provider's own or a routed one).
+ * Creates a new  (or updates an existing) thread info for the publication; deprecation notices
+ * for older pact versions are queued in the outbox by the aggregator.
  * Returns the thread timestamp ID of the message posted.
  *
  * @param rawPayload
+ * @param providerSlackChannel
  * @param env
- * @returns {Promise<string | undefined>}
+ * @returns {Promise<string>}
  */
-async function createPublicationThread(rawPayload: PactWebhookPayload, env: Env): Promise<string | undefined> {
+async function createPublicationThread(rawPayload: PactWebhookPayload, providerSlackChannel: string, env: Env): Promise<string> {
 	const aggregatorStub = getPactAggregatorStub(env);
-	const providerSlackChannel = getProviderSlackChannel(env, rawPayload);
 
-	const summaryText = getPublicationSummaryForPayload(rawPayload, env);
+	// Deployments of the consumer version can arrive before its pact is published
+	const deployedEnvironments = await aggregatorStub.getDeployedEnvironments(rawPayload.consumerName, rawPayload.consumerVersionNumber);
+	const summaryState = { payload: rawPayload, deployedEnvironments };
 	const summaryResp = await slackPost(
-		{
-			SLACK_CHANNEL: providerSlackChannel,
-			SLACK_TOKEN: env.SLACK_TOKEN,
-		},
-		summaryText,
+		getSlackEnvForChannel(env, providerSlackChannel),
+		createProviderThreadRootSummary(summaryState, env),
+		undefined,
+		blocksIfEnabled(env, createProviderThreadRootSummaryBlocks(summaryState, env)),
 	);
 
 	if (!summaryResp.ok) {
-		console.error(`Failed to post verification summary to ${providerSlackChannel}:`, summaryResp.error);
-		return;
+		throw toSlackApiError(`Slack summary post to ${providerSlackChannel}`, summaryResp);
 	}
 	const threadTs = summaryResp.ts!;
-	const deprecatedCandidates = await aggregatorStub.upsertPublicationThreadInfo(
-		rawPayload,
-		providerSlackChannel,
-		threadTs,
-		summaryResp.channel!,
-	);
-	const { removedKeys } = await notifySlackAboutDeprecatedThreadEntries(env, deprecatedCandidates);
-	await aggregatorStub.removePublicationThreadKeys(removedKeys);
+	await aggregatorStub.upsertPublicationThreadInfo(rawPayload, providerSlackChannel, threadTs, summaryResp.channel!);
 	return threadTs;
 }
 
-async function notifySlackAboutDeprecatedThreadEntries(env: Env, entries: PublicationThreadEntry[]) {
-	const removedKeys: string[] = [];
-	const slackFailures: { key: string; error: string }[] = [];
-	for (const entry of entries) {
-		const threadTs = entry.info.ts;
-		const channelForThread = entry.info.channelId;
-		const notice = DEPRECATION_NOTICE;
-		const summaryText = getPublicationSummaryForPayload(entry.info.payload, env);
-
-		if (!threadTs || !channelForThread) {
-			slackFailures.push({ key: entry.key, error: 'missing_thread_metadata' });
-			continue;
-		}
-
-		try {
-			const postResp = await slackPost(
-				{
-					SLACK_CHANNEL: channelForThread,
-					SLACK_TOKEN: env.SLACK_TOKEN,
-				},
-				notice,
-				threadTs,
-			);
-
-			const updateResp = await slackUpdate(
-				{
-					SLACK_CHANNEL: channelForThread,
-					SLACK_TOKEN: env.SLACK_TOKEN,
-				},
-				threadTs,
-				summaryText + '\n' + notice,
-			);
-
-			if (!postResp.ok || !updateResp.ok) {
-				slackFailures.push({
-					key: entry.key,
-					error: postResp.ok ? (updateResp.error ?? 'update_failed') : (postResp.error ?? 'post_failed'),
-				});
-				continue;
-			}
-			removedKeys.push(entry.key);
-		} catch (err) {
-			slackFailures.push({ key: entry.key, error: err instanceof Error ? err.message : 'unknown_error' });
-		}
-	}
-	return { removedKeys, slackFailures };
-}
-
+/**
+ * Whether the publish cron may publish now, according to the PUBLISHING_SCHEDULE of the main channel.
+ */
 function shouldProcessAtCurrentTime(env: Env): boolean {
-	const currentTime = now();
-	// Convert UTC time to target timezone (configurable via environment variable)
-	const timezone = env.TIMEZONE ?? 'UTC';
-	const date = new Date(currentTime);
-
-	// Get timezone-adjusted time
-	const localTime = new Date(date.toLocaleString('en-US', { timeZone: timezone }));
-	const dayOfWeek = localTime.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-	const hour = localTime.getHours(); // 0-23
-	const minute = localTime.getMinutes(); // 0-59
-
-	const isWeekday = dayOfWeek >= 1 && dayOfWeek <= 5; // Monday to Friday
-	const isWorkingHours = hour >= 8 && hour < 21; // 8 AM to 9 PM
-
-	if (isWeekday && isWorkingHours) {
-		return true; // Cron runs every 2 minutes, so always process
-	} else if (isWeekday && !isWorkingHours) {
-		// Off hours on weekdays: every hour (at minute 0)
-		return minute === 0;
-	} else {
-		// Weekends (non-working days): every 4 hours (at 00:00, 04:00, 08:00, 12:00, 16:00)
-		return minute === 0 && hour % 4 === 0;
-	}
-}
-
-async function processEventsForPublication(env: Env) {
-	try {
-		const aggregatorStub = getPactAggregatorStub(env);
-		const { events, bucketsToDelete } = await aggregatorStub.peekEventsToPublish();
-
-		if (events.length === 0 && bucketsToDelete.length === 0) return;
-
-		await postMessagesForEventsToSlack(env, events);
-		await aggregatorStub.ackPublishedBuckets(bucketsToDelete, events.length);
-	} catch (err) {
-		// Do not delete events on publish errors; next cron/trigger will retry.
-		console.error('Failed to publish events to Slack; will retry later', err);
-	}
+	const { schedule } = getPublishingSchedule(env);
+	return isPublishingTime(getPublishingWindow(schedule, env.SLACK_CHANNEL), now());
 }
 
-async function postMessagesForEventsToSlack(env: Env, events: StoredPactEventData[]) {
-	// Group events by pacticipant version number
-	if (events.length === 0) return;
-
-	const grouped = events.reduce((acc: Record<string, StoredPactEventData[]>, e: StoredPactEventData) => {
-		const key = `${e.pacticipant}:${e.pacticipantVersionNumber}`;
-		acc[key] = acc[key] || [];
-		acc[key].push(e);
-		return acc;
-	}, {});
-
-	for (const [key, pacticipantEvents] of Object.entries(grouped)) {
-		console.log(`Posting Slack message for ${key} with ${pacticipantEvents.length} events`);
-
-		const [pacticipant, pacticipantVersionNumber] = key.split(':');
-		const { summaryText, detailsList } = createSummaryAndDetailsMessages(env, pacticipant, pacticipantVersionNumber, pacticipantEvents);
-		await postPacticipantEventsToSlack(env, summaryText, detailsList);
-	}
+function jsonResponse(body: unknown, status: number) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
 }
 
-function getPactAggregatorStub(env: Env) {
-	const objectName = env.PACT_AGGREGATOR_NAME;
-	const stub = env.PACT_AGGREGATOR.getByName(objectName);
-	return stub;
+function getSlackEnvForChannel(env: Env, channel: string) {
+	return { ...env, SLACK_CHANNEL: channel };
 }
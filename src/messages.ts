@@ -1,13 +1,56 @@
 import type {
 	StoredPactEventData,
-	StoredContractRequiringVerificationEventData,
-	StoredProviderVerificationEventData,
-	ProviderVerificationPublishedPayload,
+	ProviderVerificationPayload,
+	ContractPublicationPayload,
 	ContractRequiringVerificationPublishedPayload,
 	PactWebhookPayload,
+	PactEnrichment,
+	PublicationThreadInfo,
+	CanIDeploySummary,
+	DigestReport,
+	FlakyVerification,
+	VerificationStreakChange,
+	SlackBlock,
+	SlackButtonElement,
 } from './types';
-import { PROVIDER_VERIFICATION_PUBLISHED, CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from './constants';
+import {
+	AWAITING_VERIFICATION_NOTICE,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	CONTRACT_CONTENT_CHANGED,
+	FLAKY_VERIFICATION_BADGE,
+	MINUTE_MS,
+} from './constants';
+import { isPublicationPayload, isVerificationPayload } from './payload-utils';
 import { getVerificationId, extractPactUrlFromVerificationUrl, pascalCaseToDash } from './utils';
+import { actionsBlock, contextBlock, fieldsBlock, linkButton, sectionBlock } from './slack-blocks';
+
+/**
+ * One line of a thread reply. Block Kit renders it as a section with the button as accessory;
+ * headings are rendered as context blocks.
+ */
+interface ThreadDetail {
+	text: string;
+	button?: SlackButtonElement;
+	heading?: boolean;
+}
+
+// Longer digest lists end with "…and N more"
+const DIGEST_MAX_LIST_ITEMS = 10;
+
+// The stored thread state a provider channel root summary is rendered from
+type ProviderThreadSummaryState = Pick<
+	PublicationThreadInfo,
+	| 'payload'
+	| 'deployedEnvironments'
+	| 'providerDeployedEnvironments'
+	| 'lastMasterVerification'
+	| 'lastMasterVerificationTs'
+	| 'canIDeploy'
+	| 'verificationSlaAlertedAt'
+	| 'flakySince'
+	| 'firstVerificationLatencyMs'
+	| 'firstMasterVerificationLatencyMs'
+>;
 
 // Minimal environment interface for message creation
 export interface MessageEnv {
@@ -21,42 +64,75 @@ export interface MessageEnv {
  * Returns a summary string for the publication event payload provided.
  * If the payload is a provider verification event, the summary will indicate that.
  * If the payload is a contract requiring verification publication event, the summary will indicate that instead.
+ * When deployed environments are passed, a "deployed: staging, production" line is appended.
  *
  * @param e
  * @param env
+ * @param deployedEnvironments environments the consumer version of the pact is deployed to
  * @returns
  */
-export function getPublicationSummaryForPayload(e: PactWebhookPayload, env: MessageEnv): string {
+export function getPublicationSummaryForPayload(e: PactWebhookPayload, env: MessageEnv, deployedEnvironments?: string[]): string {
 	// provider version info only relevant if descriptions exist since these are
 	// separate events for each version
+	const summary = createPublicationSummaryBaseText(e, env);
+	if (!deployedEnvironments || deployedEnvironments.length === 0) {
+		return summary;
+	}
+	return `${summary}\n${createDeployedEnvironmentsText(deployedEnvironments)}`;
+}
+
+function createPublicationSummaryBaseText(e: PactWebhookPayload, env: MessageEnv): string {
 	const { branchLink, githubLink } = createGithubLinks(env, e.consumerName, e.consumerVersionBranch, e.consumerVersionNumber);
 	const { pactUrl, diffUrl } = createPactAndPactDiffUrl(e);
-	const text = e.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED ? 'First published at' : '(Unknown first publication) Found at';
+	const text = isPublicationPayload(e) ? 'First published at' : '(Unknown first publication) Found at';
 	return `<${pactUrl}|Contract> by consumer *${e.consumerName}*. ${text} ${branchLink}${githubLink}. <${diffUrl}|Diff> with previous distinct version of this pact.`;
 }
 
+function createDeployedEnvironmentsText(deployedEnvironments: string[]): string {
+	return `:rocket: deployed: ${deployedEnvironments.join(', ')}`;
+}
+
+function createProviderDeployedEnvironmentsText(providerDeployedEnvironments: string[]): string {
+	return `:rocket: verified provider version deployed: ${providerDeployedEnvironments.join(', ')}`;
+}
+
+/**
+ * @param owners owners (PACTICIPANT_OWNERS) to mention in the summary, for the failed verifications
+ */
 export function createSummaryAndDetailsMessages(
 	messageEnv: MessageEnv,
 	pacticipant: string,
 	pacticipantVersionNumber: string,
-	pacticipantEvents: (StoredProviderVerificationEventData | StoredContractRequiringVerificationEventData)[],
-): { summaryText: string; detailsList: string[] } {
-	const verifications = pacticipantEvents.filter((e) => e.eventType === PROVIDER_VERIFICATION_PUBLISHED);
-	const publications = pacticipantEvents.filter((e) => e.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED);
-	const summaryText = createSummaryText(messageEnv, pacticipant, pacticipantVersionNumber, verifications, publications);
-	const threadText = createThreadText(messageEnv, verifications, publications);
+	pacticipantEvents: StoredPactEventData[],
+	pactEnrichments?: Map<string, PactEnrichment>,
+	owners: string[] = [],
+): { summaryText: string; detailsList: string[]; summaryBlocks: SlackBlock[]; detailsBlocks: SlackBlock[] } {
+	const verifications = pacticipantEvents.filter((e) => isVerificationPayload(e));
+	const publications = pacticipantEvents.filter((e) => isPublicationPayload(e));
+	const summary = createSummary(messageEnv, pacticipant, pacticipantVersionNumber, verifications, publications, owners);
+	const threadDetails = createThreadDetails(messageEnv, verifications, publications, pactEnrichments);
 
-	return { summaryText, detailsList: threadText };
+	return {
+		summaryText: summary.text,
+		detailsList: threadDetails.map((d) => d.text),
+		summaryBlocks: summary.blocks,
+		detailsBlocks: threadDetails.map((d) => (d.heading ? contextBlock(d.text) : sectionBlock(d.text, d.button))),
+	};
 }
 
-function createSummaryText(
+/**
+ * The main channel summary: pacticipant version header plus publication and verification counts, and the owners to mention.
+ * Block Kit renders the counts as status fields.
+ */
+function createSummary(
 	messageEnv: MessageEnv,
 	pacticipant: string,
 	pacticipantVersionNumber: string,
-	verifications: StoredPactEventData[],
-	publications: StoredPactEventData[],
-): string {
-	const verificationEvents = verifications.filter((e) => e.eventType === PROVIDER_VERIFICATION_PUBLISHED);
+	verifications: ProviderVerificationPayload[],
+	publications: ContractPublicationPayload[],
+	owners: string[],
+): { text: string; blocks: SlackBlock[] } {
+	const verificationEvents = verifications;
 	const successCount = verificationEvents.filter((e) => e.githubVerificationStatus === 'success').length;
 	const failedCount = verificationEvents.length - successCount;
 
@@ -67,21 +143,57 @@ function createSummaryText(
 
 	const branch = verifications.length !== 0 ? verifications[0].providerVersionBranch : publications[0]?.consumerVersionBranch;
 	const { branchLink, githubLink } = createGithubLinks(messageEnv, pacticipant, branch, pacticipantVersionNumber);
-	const summary = `*${pacticipant}* ${branchLink}${githubLink}\n${publicationSummary}${verificationSummary}`;
-	return summary;
+	const header = `*${pacticipant}* ${branchLink}${githubLink}`;
+
+	const fields: string[] = [];
+	if (publications.length > 0) fields.push(`*Pact publications*\n${publications.length}`);
+	if (verifications.length > 0) fields.push(`*Pact verifications*\n${okString}${failString}`.trim());
+	const blocks = fields.length > 0 ? [fieldsBlock(fields, header)] : [sectionBlock(header)];
+
+	const text = `${header}\n${publicationSummary}${verificationSummary}`;
+	if (owners.length === 0) return { text, blocks };
+	const mentionText = createOwnerMentionText(owners);
+	return { text: `${text}\n${mentionText}`, blocks: [...blocks, sectionBlock(mentionText)] };
 }
 
-function createThreadText(messageEnv: MessageEnv, verifications: StoredPactEventData[], publications: StoredPactEventData[]): string[] {
-	const threadDetails: string[] = [];
+function createThreadDetails(
+	messageEnv: MessageEnv,
+	verifications: ProviderVerificationPayload[],
+	publications: ContractPublicationPayload[],
+	pactEnrichments?: Map<string, PactEnrichment>,
+): ThreadDetail[] {
+	const threadDetails: ThreadDetail[] = [];
 
-	const contractPublications = publications.filter((e) => e.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED);
-	for (const e of contractPublications) {
-		threadDetails.push(createPublicationSummaryText(e as ContractRequiringVerificationPublishedPayload, messageEnv));
+	// contract_requiring_verification_published arrives once per provider version: render one line per pact
+	const requiringVerificationByPact = new Map<
+		string,
+		{ pact: ContractRequiringVerificationPublishedPayload; providerVersions: ContractRequiringVerificationPublishedPayload[] }
+	>();
+	for (const e of publications) {
+		if (e.eventType !== CONTRACT_REQUIRING_VERIFICATION_PUBLISHED) {
+			threadDetails.push({
+				text: createContractPublishedText(e, messageEnv, pactEnrichments?.get(e.pactUrl)),
+				button: createDiffButton(e),
+			});
+			continue;
+		}
+		const group = requiringVerificationByPact.get(e.pactUrl);
+		if (group) {
+			group.providerVersions.push(e);
+		} else {
+			requiringVerificationByPact.set(e.pactUrl, { pact: e, providerVersions: [e] });
+		}
+	}
+	for (const { pact, providerVersions } of requiringVerificationByPact.values()) {
+		threadDetails.push({
+			text: createPublicationSummaryText(pact, providerVersions, messageEnv, pactEnrichments?.get(pact.pactUrl)),
+			button: createDiffButton(pact),
+		});
 	}
 
-	const verificationEvents = verifications.filter((e) => e.eventType === PROVIDER_VERIFICATION_PUBLISHED);
+	const verificationEvents = [...verifications];
 	if (verificationEvents.length > 0) {
-		threadDetails.push('Verified consumers:');
+		threadDetails.push({ text: 'Verified consumers:', heading: true });
 		// Sort by consumer name first, then by verification ID (last number in resultUrl)
 		verificationEvents.sort(
 			(a, b) =>
@@ -91,31 +203,99 @@ function createThreadText(messageEnv: MessageEnv, verifications: StoredPactEvent
 	}
 
 	for (const e of verificationEvents) {
-		threadDetails.push(createVerificationThreadDetails(e, messageEnv));
+		threadDetails.push({ text: createVerificationThreadDetails(e, messageEnv), button: linkButton('Results', e.verificationResultUrl) });
 	}
 	return threadDetails;
 }
 
-function createVerificationThreadDetails(e: ProviderVerificationPublishedPayload, messageEnv: MessageEnv) {
+function createVerificationThreadDetails(e: ProviderVerificationPayload, messageEnv: MessageEnv) {
 	const { branchLink, githubLink } = createGithubLinks(messageEnv, e.consumerName, e.consumerVersionBranch, e.consumerVersionNumber);
 	const pactUrl = extractPactUrlFromVerificationUrl(e.verificationResultUrl);
 	const pactLink = ` | <${pactUrl}|Pact>`;
 	return `- ${getEmoji(messageEnv, e.githubVerificationStatus)} <${e.verificationResultUrl}|Results>${pactLink} *${e.consumerName}* ${branchLink}${githubLink}`;
 }
 
-function createPublicationSummaryText(e: ContractRequiringVerificationPublishedPayload, messageEnv: MessageEnv) {
-	const description = e.providerVersionDescriptions ? ` - ${e.providerVersionDescriptions}` : '';
-	// provider version info only relevant if descriptions exist since these are
-	// separate events for each version
-	const providerVersionNumber = e.providerVersionDescriptions ? e.providerVersionNumber : undefined;
-	const providerVersionBranch = e.providerVersionDescriptions ? e.providerVersionBranch : undefined;
-	const { branchLink, githubLink } = createGithubLinks(messageEnv, e.providerName, providerVersionBranch, providerVersionNumber);
-	const pactBrokerURL = e.pactUrl.split('/pacts/')[0]; // get the base URL from e.pactUrl
-	const diffUrl = `${pactBrokerURL}/pacts/provider/${e.providerName}/consumer/${e.consumerName}/version/${e.consumerVersionNumber}/diff/previous-distinct`;
-	return `Published <${e.pactUrl}|contract> to be verified from provider *${e.providerName}* ${branchLink}${githubLink}${description}. <${diffUrl}|Diff> with previous distinct version of this pact.`;
+/**
+ * Renders one line for a pact requiring verification, listing every provider version it has to be verified against.
+ * Pact Broker lookups, when available, add the interaction changes, the previous version's verification status and the diff.
+ */
+function createPublicationSummaryText(
+	e: ContractRequiringVerificationPublishedPayload,
+	providerVersionEvents: ContractRequiringVerificationPublishedPayload[],
+	messageEnv: MessageEnv,
+	enrichment?: PactEnrichment,
+) {
+	const providerVersions = new Set<string>();
+	for (const event of providerVersionEvents) {
+		const description = event.providerVersionDescriptions ? ` - ${event.providerVersionDescriptions}` : '';
+		// provider version info only relevant if descriptions exist since these are
+		// separate events for each version
+		const providerVersionNumber = event.providerVersionDescriptions ? event.providerVersionNumber : undefined;
+		const providerVersionBranch = event.providerVersionDescriptions ? event.providerVersionBranch : undefined;
+		const { branchLink, githubLink } = createGithubLinks(messageEnv, event.providerName, providerVersionBranch, providerVersionNumber);
+		providerVersions.add(`${branchLink}${githubLink}${description}`);
+	}
+	const { diffUrl } = createPactAndPactDiffUrl(e);
+	const { interactionsText, previousVerificationText, diffText } = createEnrichmentTexts(enrichment, messageEnv);
+	return `Published <${e.pactUrl}|contract> to be verified from provider *${e.providerName}* ${Array.from(providerVersions).join(', ')}.${interactionsText} <${diffUrl}|Diff> with previous distinct version of this pact.${previousVerificationText}${diffText}`;
+}
+
+/**
+ * The Pact Broker details of a publication line; empty strings without enrichment.
+ */
+function createEnrichmentTexts(
+	enrichment: PactEnrichment | undefined,
+	messageEnv: MessageEnv,
+): { interactionsText: string; previousVerificationText: string; diffText: string } {
+	if (!enrichment) return { interactionsText: '', previousVerificationText: '', diffText: '' };
+	return {
+		interactionsText: ` ${createInteractionChangesText(enrichment)}.`,
+		previousVerificationText:
+			enrichment.previousVerificationSuccess === undefined
+				? ''
+				: ` Previous version: ${getEmoji(messageEnv, enrichment.previousVerificationSuccess ? 'success' : 'failure')}`,
+		diffText: enrichment.diff ? `\n\`\`\`${enrichment.diff}\`\`\`` : '',
+	};
+}
+
+/**
+ * e.g. "3 interactions added, 1 removed (12 in total)" or "12 interactions" for the first version of a pact
+ */
+function createInteractionChangesText(enrichment: PactEnrichment): string {
+	const total = `${enrichment.interactionCount} ${pluralize('interaction', enrichment.interactionCount)}`;
+	if (enrichment.interactionsAdded === undefined || enrichment.interactionsRemoved === undefined) {
+		return total;
+	}
+	if (enrichment.interactionsAdded === 0 && enrichment.interactionsRemoved === 0) {
+		return `No interactions added or removed (${enrichment.interactionCount} in total)`;
+	}
+	const added = `${enrichment.interactionsAdded} ${pluralize('interaction', enrichment.interactionsAdded)} added`;
+	return `${added}, ${enrichment.interactionsRemoved} removed (${enrichment.interactionCount} in total)`;
 }
 
-export function createVerificationThreadDetailsForProviderChannel(e: ProviderVerificationPublishedPayload, messageEnv: MessageEnv) {
+function pluralize(word: string, count: number): string {
+	return count === 1 ? word : `${word}s`;
+}
+
+/**
+ * Renders one line for a contract_published or contract_content_changed event, with the Pact Broker details when available.
+ */
+function createContractPublishedText(e: ContractPublicationPayload, messageEnv: MessageEnv, enrichment?: PactEnrichment) {
+	const { branchLink, githubLink } = createGithubLinks(messageEnv, e.consumerName, e.consumerVersionBranch, e.consumerVersionNumber);
+	const { diffUrl } = createPactAndPactDiffUrl(e);
+	const changed = e.eventType === CONTRACT_CONTENT_CHANGED ? ' with changed content' : '';
+	const { interactionsText, previousVerificationText, diffText } = createEnrichmentTexts(enrichment, messageEnv);
+	return `Published <${e.pactUrl}|contract>${changed} for provider *${e.providerName}* from ${branchLink}${githubLink}.${interactionsText} <${diffUrl}|Diff> with previous distinct version of this pact.${previousVerificationText}${diffText}`;
+}
+
+/**
+ * @param owners owners (PACTICIPANT_OWNERS) to mention below the result
+ */
+export function createVerificationThreadDetailsForProviderChannel(
+	e: ProviderVerificationPayload,
+	messageEnv: MessageEnv,
+	owners: string[] = [],
+) {
 	const { branchLink, githubLink } = createGithubLinks(messageEnv, e.providerName, e.providerVersionBranch, e.providerVersionNumber);
 	const { branchLink: consumerBranchLink, githubLink: consumerGithubLink } = createGithubLinks(
 		messageEnv,
@@ -123,7 +303,39 @@ export function createVerificationThreadDetailsForProviderChannel(e: ProviderVer
 		e.consumerVersionBranch,
 		e.consumerVersionNumber,
 	);
-	return `- ${getEmoji(messageEnv, e.githubVerificationStatus)} <${e.verificationResultUrl}|Results> *${e.providerName}* ${branchLink}${githubLink}\nVerified ${e.consumerName} ${consumerBranchLink}${consumerGithubLink}`;
+	const detail = `- ${getEmoji(messageEnv, e.githubVerificationStatus)} <${e.verificationResultUrl}|Results> *${e.providerName}* ${branchLink}${githubLink}\nVerified ${e.consumerName} ${consumerBranchLink}${consumerGithubLink}`;
+	return owners.length === 0 ? detail : `${detail}\n${createOwnerMentionText(owners)}`;
+}
+
+/**
+ * Block Kit version of createVerificationThreadDetailsForProviderChannel.
+ */
+export function createVerificationThreadDetailBlocksForProviderChannel(
+	e: ProviderVerificationPayload,
+	messageEnv: MessageEnv,
+	owners: string[] = [],
+): SlackBlock[] {
+	return [
+		sectionBlock(createVerificationThreadDetailsForProviderChannel(e, messageEnv, owners), linkButton('Results', e.verificationResultUrl)),
+	];
+}
+
+/**
+ * e.g. "cc <!subteam^S0123ABC> <@U0456DEF>": user group IDs start with S, user IDs with U or W.
+ */
+function createOwnerMentionText(owners: string[]): string {
+	return `cc ${owners.map((owner) => (owner.startsWith('S') ? `<!subteam^${owner}>` : `<@${owner}>`)).join(' ')}`;
+}
+
+/**
+ * Renders a notice (deprecation, removal, thread rotation) posted as a thread reply.
+ */
+export function createNoticeBlocks(notice: string): SlackBlock[] {
+	return [sectionBlock(notice)];
+}
+
+function createDiffButton(e: PactWebhookPayload): SlackButtonElement {
+	return linkButton('Diff', createPactAndPactDiffUrl(e).diffUrl);
 }
 
 function getEmoji(messageEnv: MessageEnv, status: string): string {
@@ -131,12 +343,11 @@ function getEmoji(messageEnv: MessageEnv, status: string): string {
 }
 
 function createPactAndPactDiffUrl(e: PactWebhookPayload) {
-	const pactBrokerURL = // get the base URL from e.pactUrl
-		e.eventType === PROVIDER_VERIFICATION_PUBLISHED ? e.verificationResultUrl.split('/pacts/')[0] : e.pactUrl.split('/pacts/')[0];
-	const pactUrl =
-		e.eventType === PROVIDER_VERIFICATION_PUBLISHED
-			? `${pactBrokerURL}/pacts/provider/${e.providerName}/consumer/${e.consumerName}/version/${e.consumerVersionNumber}`
-			: e.pactUrl;
+	// get the base URL from the pact or verification result URL
+	const pactBrokerURL = isVerificationPayload(e) ? e.verificationResultUrl.split('/pacts/')[0] : e.pactUrl.split('/pacts/')[0];
+	const pactUrl = isVerificationPayload(e)
+		? `${pactBrokerURL}/pacts/provider/${e.providerName}/consumer/${e.consumerName}/version/${e.consumerVersionNumber}`
+		: e.pactUrl;
 	const diffUrl = `${pactBrokerURL}/pacts/provider/${e.providerName}/consumer/${e.consumerName}/version/${e.consumerVersionNumber}/diff/previous-distinct`;
 	return { pactUrl, diffUrl };
 }
@@ -144,17 +355,249 @@ function createPactAndPactDiffUrl(e: PactWebhookPayload) {
 // Append verification status line to an existing publication summary message for provider channel
 export function appendVerificationStatusToProviderPublicationSummary(
 	originalSummary: string,
-	ver: ProviderVerificationPublishedPayload,
+	ver: ProviderVerificationPayload,
 	messageEnv: MessageEnv,
 	verifiedAt?: number,
 ) {
+	// Keep original summary; add a blank line to separate if not already ending with newline
+	const prefix = originalSummary.endsWith('\n') ? '' : '\n';
+	return `${originalSummary}${prefix}${createLastVerificationText(ver, messageEnv, verifiedAt)} <${ver.verificationResultUrl}|Results>`;
+}
+
+function createLastVerificationText(ver: ProviderVerificationPayload, messageEnv: MessageEnv, verifiedAt?: number): string {
 	const statusEmoji = getEmoji(messageEnv, ver.githubVerificationStatus);
 	const { branchLink, githubLink } = createGithubLinks(messageEnv, ver.providerName, ver.providerVersionBranch, ver.providerVersionNumber);
 	const verifiedAtText = typeof verifiedAt === 'number' ? ` on ${new Date(verifiedAt).toDateString()}` : '';
+	return `Last verification on (${ver.providerName}) *${branchLink}*${githubLink}${verifiedAtText}: ${statusEmoji}`;
+}
 
-	// Keep original summary; add a blank line to separate if not already ending with newline
-	const prefix = originalSummary.endsWith('\n') ? '' : '\n';
-	return `${originalSummary}${prefix}Last verification on (${ver.providerName}) *${branchLink}*${githubLink}${verifiedAtText}: ${statusEmoji} <${ver.verificationResultUrl}|Results>`;
+/**
+ * Rebuilds the root summary of a provider channel thread from its stored state:
+ * the publication summary (with deployed environments), the last master verification (with the environments its provider
+ * version is deployed to), the verification latency,
+ * the can-i-deploy results, the "still awaiting verification" notice while it applies, the flaky badge and the optional notice.
+ * Plain-text counterpart of createProviderThreadRootSummaryBlocks, used as the fallback text of the same message.
+ */
+export function createProviderThreadRootSummary(info: ProviderThreadSummaryState, messageEnv: MessageEnv, notice?: string): string {
+	let summary = getPublicationSummaryForPayload(info.payload, messageEnv, info.deployedEnvironments);
+	if (info.lastMasterVerification) {
+		summary = appendVerificationStatusToProviderPublicationSummary(
+			summary,
+			info.lastMasterVerification,
+			messageEnv,
+			info.lastMasterVerificationTs,
+		);
+		if (info.providerDeployedEnvironments && info.providerDeployedEnvironments.length > 0) {
+			summary = `${summary}\n${createProviderDeployedEnvironmentsText(info.providerDeployedEnvironments)}`;
+		}
+	}
+	const latency = createVerificationLatencyText(info);
+	if (latency) {
+		summary = `${summary}\n${latency}`;
+	}
+	if (info.canIDeploy && info.canIDeploy.results.length > 0) {
+		summary = `${summary}\n${createCanIDeployText(info.canIDeploy, messageEnv)}`;
+	}
+	if (info.verificationSlaAlertedAt !== undefined) {
+		summary = `${summary}\n${AWAITING_VERIFICATION_NOTICE}`;
+	}
+	if (info.flakySince !== undefined) {
+		summary = `${summary}\n${FLAKY_VERIFICATION_BADGE}`;
+	}
+	if (notice) {
+		summary = `${summary}\n${notice}`;
+	}
+	return summary;
+}
+
+/**
+ * e.g. "⏱️ First verified 2 hours after publication, on the master branch after 5 hours"
+ */
+function createVerificationLatencyText(
+	info: Pick<PublicationThreadInfo, 'firstVerificationLatencyMs' | 'firstMasterVerificationLatencyMs'>,
+): string | undefined {
+	if (info.firstVerificationLatencyMs === undefined) return undefined;
+	const master =
+		info.firstMasterVerificationLatencyMs === undefined
+			? ''
+			: `, on the master branch after ${formatDuration(info.firstMasterVerificationLatencyMs)}`;
+	return `⏱️ First verified ${formatDuration(info.firstVerificationLatencyMs)} after publication${master}`;
+}
+
+/**
+ * Block Kit version of createProviderThreadRootSummary: the summary as a section, deployments, the verification
+ * latency and the optional notice as context blocks, can-i-deploy results as status fields and Contract/Diff/Results link buttons.
+ */
+export function createProviderThreadRootSummaryBlocks(
+	info: ProviderThreadSummaryState,
+	messageEnv: MessageEnv,
+	notice?: string,
+): SlackBlock[] {
+	const blocks: SlackBlock[] = [sectionBlock(createPublicationSummaryBaseText(info.payload, messageEnv))];
+	if (info.deployedEnvironments && info.deployedEnvironments.length > 0) {
+		blocks.push(contextBlock(createDeployedEnvironmentsText(info.deployedEnvironments)));
+	}
+	if (info.lastMasterVerification) {
+		blocks.push(sectionBlock(createLastVerificationText(info.lastMasterVerification, messageEnv, info.lastMasterVerificationTs)));
+		if (info.providerDeployedEnvironments && info.providerDeployedEnvironments.length > 0) {
+			blocks.push(contextBlock(createProviderDeployedEnvironmentsText(info.providerDeployedEnvironments)));
+		}
+	}
+	const latency = createVerificationLatencyText(info);
+	if (latency) {
+		blocks.push(contextBlock(latency));
+	}
+	if (info.canIDeploy && info.canIDeploy.results.length > 0) {
+		const fields = info.canIDeploy.results.map((r) => `*${r.environment}*\n${getCanIDeployStatus(r.deployable, messageEnv)}`);
+		blocks.push(fieldsBlock(fields, createCanIDeployHeading(info.canIDeploy, messageEnv)));
+	}
+
+	const { pactUrl, diffUrl } = createPactAndPactDiffUrl(info.payload);
+	const buttons = [linkButton('Contract', pactUrl), linkButton('Diff', diffUrl)];
+	if (info.lastMasterVerification) buttons.push(linkButton('Results', info.lastMasterVerification.verificationResultUrl));
+	blocks.push(actionsBlock(buttons));
+
+	if (info.verificationSlaAlertedAt !== undefined) blocks.push(contextBlock(AWAITING_VERIFICATION_NOTICE));
+	if (info.flakySince !== undefined) blocks.push(contextBlock(FLAKY_VERIFICATION_BADGE));
+	if (notice) blocks.push(contextBlock(notice));
+	return blocks;
+}
+
+/**
+ * Main channel message for a pact that is still awaiting verification, e.g.
+ * "⏳ Contract by consumer *Consumer* for *Provider* from main abc1234 has been awaiting verification for 26 hours."
+ */
+export function createVerificationEscalationMessage(
+	info: Pick<PublicationThreadInfo, 'payload' | 'awaitingVerificationSince'>,
+	currentTime: number,
+	messageEnv: MessageEnv,
+): { text: string; blocks: SlackBlock[] } {
+	const e = info.payload;
+	const { branchLink, githubLink } = createGithubLinks(messageEnv, e.consumerName, e.consumerVersionBranch, e.consumerVersionNumber);
+	const { pactUrl } = createPactAndPactDiffUrl(e);
+	const hours = Math.floor((currentTime - (info.awaitingVerificationSince ?? currentTime)) / (60 * 60 * 1000));
+	const text = `⏳ <${pactUrl}|Contract> by consumer *${e.consumerName}* for *${e.providerName}* from ${branchLink}${githubLink} has been awaiting verification for ${hours} ${pluralize('hour', hours)}.`;
+	return { text, blocks: [sectionBlock(text, linkButton('Contract', pactUrl))] };
+}
+
+/**
+ * "🔥 Broken since <time>, N consecutive failures" or "🎉 Recovered after X hours".
+ * The pact's thread already names the pair; in the main channel the provider branch, the consumer and a results link follow.
+ */
+export function createVerificationStreakMessage(
+	ver: ProviderVerificationPayload,
+	streak: VerificationStreakChange,
+	messageEnv: MessageEnv,
+	inMainChannel: boolean,
+): { text: string; blocks: SlackBlock[] } {
+	const failures = `${streak.consecutiveFailures} consecutive ${pluralize('failure', streak.consecutiveFailures)}`;
+	const status =
+		streak.kind === 'broken'
+			? `🔥 *Broken since ${formatStreakTime(streak.failingSince)}*, ${failures}`
+			: `🎉 *Recovered* after ${formatDuration(streak.changedAt - streak.failingSince)} (${failures})`;
+	if (!inMainChannel) {
+		return { text: status, blocks: createNoticeBlocks(status) };
+	}
+	const { branchLink, githubLink } = createGithubLinks(messageEnv, ver.providerName, ver.providerVersionBranch, ver.providerVersionNumber);
+	const text = `${status}: *${ver.providerName}* ${branchLink}${githubLink} verifying *${ver.consumerName}* <${ver.verificationResultUrl}|Results>`;
+	return { text, blocks: [sectionBlock(text, linkButton('Results', ver.verificationResultUrl))] };
+}
+
+/**
+ * Direct message to the author of the consumer commit whose pact failed verification, e.g.
+ * "😢 Your commit abc1234 of *Consumer* (main) failed verification by *Provider* develop def5678: <url|Results>"
+ */
+export function createCommitAuthorMessage(
+	ver: ProviderVerificationPayload,
+	messageEnv: MessageEnv,
+): { text: string; blocks: SlackBlock[] } {
+	const consumer = createGithubLinks(messageEnv, ver.consumerName, ver.consumerVersionBranch, ver.consumerVersionNumber);
+	const provider = createGithubLinks(messageEnv, ver.providerName, ver.providerVersionBranch, ver.providerVersionNumber);
+	const branch = consumer.branchLink ? ` (${consumer.branchLink})` : '';
+	const text = `${messageEnv.FAILURE_EMOJI} Your commit${consumer.githubLink} of *${ver.consumerName}*${branch} failed verification by *${ver.providerName}* ${provider.branchLink}${provider.githubLink}: <${ver.verificationResultUrl}|Results>`;
+	return { text, blocks: [sectionBlock(text, linkButton('Results', ver.verificationResultUrl))] };
+}
+
+function formatStreakTime(time: number): string {
+	return `${new Date(time).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function formatDuration(ms: number): string {
+	const hours = Math.floor(ms / (60 * MINUTE_MS));
+	if (hours > 0) return `${hours} ${pluralize('hour', hours)}`;
+	const minutes = Math.floor(ms / MINUTE_MS);
+	return `${minutes} ${pluralize('minute', minutes)}`;
+}
+
+/**
+ * A daily or weekly digest: a header, the publication and verification counts, and lists of the published pact
+ * versions, the pact versions still unverified, the failing and the flaky verifications (each capped at DIGEST_MAX_LIST_ITEMS).
+ * Block Kit renders the counts as status fields and every list as its own section.
+ */
+export function createDigestMessage(report: DigestReport, messageEnv: MessageEnv): { text: string; blocks: SlackBlock[] } {
+	const title = report.period === 'daily' ? 'Daily pact digest' : 'Weekly pact digest';
+	const scope = report.providerName ? ` for *${report.providerName}*` : '';
+	const header = `📊 *${title}*${scope} (${formatDigestDate(report.from)} – ${formatDigestDate(report.to)})`;
+	const verifications = `${messageEnv.SUCCESS_EMOJI}${report.verificationsSucceeded} ${messageEnv.FAILURE_EMOJI}${report.verificationsFailed}`;
+
+	const lists = [
+		createDigestList('Pact versions published', report.publishedPacts, (pub) => createDigestPactLine(pub, messageEnv)),
+		createDigestList('Still unverified', report.unverifiedPacts, (pub) => createDigestPactLine(pub, messageEnv)),
+		createDigestList('Failing verifications', report.failingVerifications, (ver) => createDigestFailingLine(ver, messageEnv)),
+		createDigestList('Flaky verifications', report.flakyVerifications, (flaky) => createDigestFlakyLine(flaky, messageEnv)),
+	].filter((list) => list !== undefined);
+
+	const counts = `*Pact versions published:* ${report.publishedPacts.length}\n*Pact verifications:* ${verifications}`;
+	return {
+		text: [header, counts, ...lists].join('\n'),
+		blocks: [
+			fieldsBlock([`*Pact versions published*\n${report.publishedPacts.length}`, `*Pact verifications*\n${verifications}`], header),
+			...lists.map((list) => sectionBlock(list)),
+		],
+	};
+}
+
+function createDigestList<T>(heading: string, items: T[], createLine: (item: T) => string): string | undefined {
+	if (items.length === 0) return undefined;
+	const lines = items.slice(0, DIGEST_MAX_LIST_ITEMS).map(createLine);
+	if (items.length > DIGEST_MAX_LIST_ITEMS) lines.push(`…and ${items.length - DIGEST_MAX_LIST_ITEMS} more`);
+	return `*${heading}:*\n${lines.join('\n')}`;
+}
+
+function createDigestPactLine(pub: ContractPublicationPayload, messageEnv: MessageEnv): string {
+	const { branchLink, githubLink } = createGithubLinks(messageEnv, pub.consumerName, pub.consumerVersionBranch, pub.consumerVersionNumber);
+	return `- <${pub.pactUrl}|Contract> by *${pub.consumerName}* for *${pub.providerName}* from ${branchLink}${githubLink}`;
+}
+
+function createDigestFailingLine(ver: ProviderVerificationPayload, messageEnv: MessageEnv): string {
+	const { branchLink, githubLink } = createGithubLinks(messageEnv, ver.providerName, ver.providerVersionBranch, ver.providerVersionNumber);
+	return `- ${getEmoji(messageEnv, ver.githubVerificationStatus)} <${ver.verificationResultUrl}|Results> *${ver.providerName}* ${branchLink}${githubLink} verifying *${ver.consumerName}*`;
+}
+
+function createDigestFlakyLine(flaky: FlakyVerification, messageEnv: MessageEnv): string {
+	const { branchLink } = createGithubLinks(messageEnv, flaky.providerName, flaky.providerVersionBranch);
+	return `- 🎲 <${flaky.verificationResultUrl}|Results> *${flaky.providerName}* ${branchLink} verifying *${flaky.consumerName}*: ${flaky.flips} flips`;
+}
+
+function formatDigestDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * e.g. "Can I deploy *Consumer* 1a2b3c4? staging ✅, production 😢"
+ */
+function createCanIDeployText(canIDeploy: CanIDeploySummary, messageEnv: MessageEnv): string {
+	const results = canIDeploy.results.map((r) => `${r.environment} ${getCanIDeployStatus(r.deployable, messageEnv)}`);
+	return `${createCanIDeployHeading(canIDeploy, messageEnv)} ${results.join(', ')}`;
+}
+
+function createCanIDeployHeading(canIDeploy: CanIDeploySummary, messageEnv: MessageEnv): string {
+	const { githubLink } = createGithubLinks(messageEnv, canIDeploy.pacticipant, undefined, canIDeploy.version);
+	return `Can I deploy *${canIDeploy.pacticipant}*${githubLink}?`;
+}
+
+function getCanIDeployStatus(deployable: boolean | null, messageEnv: MessageEnv): string {
+	return deployable === null ? '❔' : getEmoji(messageEnv, deployable ? 'success' : 'failure');
 }
 
 function createCommitLink(messageEnv: MessageEnv, repo: string, commitHash: string): string {
@@ -178,7 +621,7 @@ function createGithubLinks(
 	};
 }
 
-function mapPacticipantToRepo(messageEnv: MessageEnv, pacticipant: string) {
+export function mapPacticipantToRepo(messageEnv: Pick<MessageEnv, 'PACTICIPANT_TO_REPO_MAP'>, pacticipant: string) {
 	const mapped = messageEnv.PACTICIPANT_TO_REPO_MAP;
 	if (mapped[pacticipant]) {
 		return mapped[pacticipant];
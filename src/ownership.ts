@@ -0,0 +1,66 @@
+import { MINUTE_MS } from './constants';
+import { cacheConfigParser, coerceInt, isPlainObject, parseJsonConfig } from './utils';
+import type { ProviderVerificationPayload } from './types';
+
+// Minimal environment interface for pacticipant ownership
+export interface OwnershipEnv {
+	/**
+	 * Pacticipant name -> owning Slack user group ID (`S…`) or user ID (`U…` / `W…`), or a list of them (object or JSON string)
+	 */
+	PACTICIPANT_OWNERS?: unknown;
+	/**
+	 * Minutes before the same owner is mentioned again about the same provider and consumer in a channel (default 60)
+	 */
+	OWNER_MENTION_COOLDOWN_MINUTES?: number | string;
+}
+
+export interface ParsedPacticipantOwners {
+	owners: Record<string, string[]>;
+	errors: string[];
+}
+
+const OWNER_ID_PATTERN = /^[SUW][A-Z0-9]+$/;
+
+/**
+ * Returns the validated PACTICIPANT_OWNERS. They are parsed once per isolate (and again if the config changes);
+ * problems are logged then, and the owners they affect are left out.
+ */
+export const getPacticipantOwners = cacheConfigParser(
+	(env: OwnershipEnv) => [env.PACTICIPANT_OWNERS],
+	parsePacticipantOwners,
+	'Invalid pacticipant owner, ignoring it',
+);
+
+export function parsePacticipantOwners(env: OwnershipEnv): ParsedPacticipantOwners {
+	const errors: string[] = [];
+	const config = parseJsonConfig('PACTICIPANT_OWNERS', env.PACTICIPANT_OWNERS, errors);
+	if (config === undefined || config === null) return { owners: {}, errors };
+	if (!isPlainObject(config)) {
+		errors.push('PACTICIPANT_OWNERS: expected an object of pacticipant owners');
+		return { owners: {}, errors };
+	}
+
+	const owners: Record<string, string[]> = {};
+	for (const [pacticipant, value] of Object.entries(config)) {
+		const ids: unknown[] = Array.isArray(value) ? value : [value];
+		const valid = ids.filter((id): id is string => typeof id === 'string' && OWNER_ID_PATTERN.test(id));
+		if (valid.length < ids.length || ids.length === 0) {
+			errors.push(`PACTICIPANT_OWNERS.${pacticipant}: expected Slack user group (S…) or user (U…, W…) IDs`);
+		}
+		if (valid.length > 0) owners[pacticipant] = [...new Set(valid)];
+	}
+	return { owners, errors };
+}
+
+/**
+ * The owners to mention about a verification: those of the provider and of the consumer when it failed, none otherwise.
+ */
+export function getVerificationFailureOwners(env: OwnershipEnv, ver: ProviderVerificationPayload): string[] {
+	if (ver.githubVerificationStatus === 'success') return [];
+	const { owners } = getPacticipantOwners(env);
+	return [...new Set([...(owners[ver.providerName] ?? []), ...(owners[ver.consumerName] ?? [])])];
+}
+
+export function getOwnerMentionCooldownMs(env: OwnershipEnv): number {
+	return coerceInt(env.OWNER_MENTION_COOLDOWN_MINUTES, 60, { min: 0 }) * MINUTE_MS;
+}
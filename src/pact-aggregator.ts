@@ -7,13 +7,104 @@ import type {
 	PublicationThreadInfo,
 	PublicationThreadEntry,
 	PactWebhookPayload,
-	ProviderVerificationPublishedPayload,
-	ContractRequiringVerificationPublishedPayload,
+	ProviderVerificationPayload,
+	ContractPublicationPayload,
+	DeploymentWebhookPayload,
+	PactEnrichment,
+	CanIDeploySummary,
+	ProviderChannelOutboxItem,
+	ProviderChannelOutboxEntry,
+	DeadLetterEntry,
+	PublishedGroupChannels,
+	DigestPeriod,
+	FlakyVerification,
+	ProviderVerificationLatency,
+	VerificationLatencyKind,
+	VerificationStreakChange,
+	BranchFilterAction,
 } from './types';
-import { getPactVersionFromPayload } from './payload-utils';
-import { CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from './constants';
-import { DAY_MS } from './constants';
+import {
+	getPactVersionFromPayload,
+	getEventFingerprint,
+	getEventGroupKey,
+	isPublicationPayload,
+	isVerificationPayload,
+} from './payload-utils';
+import {
+	AWAITING_VERIFICATION_NOTICE,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	DAY_MS,
+	DEPRECATION_NOTICE,
+	MINUTE_MS,
+	PACTICIPANT_VERSION_DEPLOYED,
+	THREAD_REMOVAL_NOTICE,
+} from './constants';
 import { coerceInt, isMasterBranch } from './utils';
+import {
+	initializeAggregatorStorage,
+	selectEvents,
+	selectEventsInBucket,
+	insertEvent,
+	moveEventToBucket,
+	deleteEvent,
+	deleteEventsInBucket,
+	selectPublicationThreads,
+	selectPublicationThreadsAwaitingVerification,
+	selectPublicationThread,
+	upsertPublicationThread,
+	deletePublicationThread,
+	deleteAllPublicationThreads,
+	selectPactActivity,
+	insertPactActivity,
+	deletePactActivityBefore,
+	selectVerificationStreak,
+	upsertVerificationStreak,
+	selectVerificationLatencies,
+	insertVerificationLatency,
+	deleteVerificationLatenciesBefore,
+	selectOwnerMentionTime,
+	upsertOwnerMention,
+	deleteOwnerMentionsBefore,
+	recordDeploymentRow,
+	deleteReleasesBefore,
+	selectOutboxEntries,
+	selectOutboxEntry,
+	upsertOutboxEntry,
+	deleteOutboxEntry,
+	selectEventFingerprintTime,
+	upsertEventFingerprint,
+	deleteEventFingerprintsBefore,
+	selectPublishFailures,
+	selectPublishFailureAttempts,
+	upsertPublishFailure,
+	deletePublishFailure,
+	selectPublishedGroupChannels,
+	insertPublishedGroupChannel,
+	deletePublishedGroupChannels,
+	selectDeadLetters,
+	selectDeadLetter,
+	countDeadLetters,
+	insertDeadLetter,
+	deleteDeadLetter,
+	selectDeploymentEnvironments,
+	getStat,
+	setStat,
+} from './aggregator-storage';
+import type { AggregatorStat, PactActivityRow, StoredEventRow } from './aggregator-storage';
+import { buildDigestReport, DIGEST_PERIOD_MS, isEmptyDigestReport } from './digests';
+import { findFlakyVerifications, getFlakyVerificationWindowMs } from './flaky-verifications';
+import { summarizeVerificationLatencies } from './verification-latency';
+import { getMainChannels, getProviderChannels, routePayload } from './channel-router';
+import { getOwnerMentionCooldownMs, getVerificationFailureOwners } from './ownership';
+import { isCommitAuthorDmEnabled } from './commit-authors';
+import { BRANCH_FILTER_ACTIONS, getBranchFilterAction, getBranchFilters } from './branch-filters';
+import { isPublishAlarmEnabled, processEventsForPublication } from './publishing';
+import { getNextPublishingTime, getPublishingSchedule, getPublishingWindow } from './publishing-schedule';
+
+interface CachedPactEnrichment {
+	enrichment: PactEnrichment;
+	cachedAt: number;
+}
 
 interface DeprecationGroupEntry {
 	key: string;
@@ -21,6 +112,12 @@ interface DeprecationGroupEntry {
 	updatedTime: number;
 }
 
+const MUTED_EVENT_STATS: Record<BranchFilterAction, AggregatorStat> = {
+	drop: 'mutedDropped',
+	store_only: 'mutedStoredOnly',
+	skip_main_channel: 'mutedSkippedMainChannel',
+};
+
 /**
  * Cloudflare Durable Objects ensure that:
 
@@ -32,23 +129,31 @@ There's no interleaving of operations within methods
 export class PactAggregator extends DurableObject<Env> {
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
+		// Validates the schedule at startup (problems are logged and shown in getDebugInfo())
+		getPublishingSchedule(env);
+		void ctx.blockConcurrencyWhile(() => initializeAggregatorStorage(ctx.storage, now()));
 	}
 
 	/**
-	 * Peek events that are eligible for publishing without deleting them.
-	 * Caller must invoke ackPublishedBuckets() after successful publication.
+	 * Peek events that are eligible for publishing without deleting them, and lease them to the caller for `leaseMs`.
+	 * Caller must invoke ackPublishedBuckets() after successful publication, and releasePublishLease() when done.
+	 * While the lease is held, other runs (alarm, publish cron, /trigger) peek nothing and get no `leaseUntil`,
+	 * so the same buckets are not posted twice; the buckets of a crashed run are peeked again once the lease expires.
 	 * Note that this method DOES HAVE SIDE EFFECTS:
 	 * It consolidates events (moves events from older buckets to the current bucket) before selection,
 	 * so the returned events may include recently added ones that were consolidated into an older bucket.
 	 */
-	async peekEventsToPublish(): Promise<{ events: StoredPactEventData[]; bucketsToDelete: string[] }> {
+	peekEventsToPublish(leaseMs: number): { events: StoredPactEventData[]; bucketsToDelete: string[]; leaseUntil?: number } {
 		const currentTime = now();
+		if (getStat(this.ctx.storage.sql, 'publishLeaseUntil') > currentTime) {
+			return { events: [], bucketsToDelete: [] };
+		}
 		const currentMinute = getMinuteBucket(currentTime, this.env.MINUTE_BUCKET_MS);
 
 		// Consolidate before selecting eligible buckets
-		await this.consolidateEvents(currentTime);
+		this.consolidateEvents(currentTime);
 
-		const allEvents = await this.getEvents();
+		const allEvents = this.getEvents();
 		const events: StoredPactEventData[] = [];
 		const bucketsToDelete: string[] = [];
 
@@ -61,64 +166,190 @@ export class PactAggregator extends DurableObject<Env> {
 			}
 		}
 
-		return { events, bucketsToDelete };
+		const leaseUntil = currentTime + leaseMs;
+		setStat(this.ctx.storage.sql, 'publishLeaseUntil', leaseUntil);
+		return { events, bucketsToDelete, leaseUntil };
 	}
 
 	/**
-	 * Acknowledge successful publication by deleting the specified buckets and updating stats.
+	 * Ends the lease taken by peekEventsToPublish(), unless it expired and another run holds a new one by now.
 	 */
-	async ackPublishedBuckets(bucketsToDelete: string[], processedCount: number): Promise<void> {
-		const allEvents = await this.getEvents();
+	releasePublishLease(leaseUntil: number): void {
+		if (getStat(this.ctx.storage.sql, 'publishLeaseUntil') === leaseUntil) {
+			setStat(this.ctx.storage.sql, 'publishLeaseUntil', 0);
+		}
+	}
 
+	/**
+	 * Acknowledge successful publication by deleting the specified buckets and updating stats.
+	 */
+	ackPublishedBuckets(bucketsToDelete: string[], processedCount: number): void {
 		for (const key of bucketsToDelete) {
-			allEvents.delete(key);
+			deleteEventsInBucket(this.ctx.storage.sql, this.getMinuteFromBucketKey(key));
 		}
 
-		await this.setLastProcessTime(now());
+		this.setLastProcessTime(now());
 
-		if (bucketsToDelete.length > 0) {
-			await this.setEvents(allEvents);
+		if (processedCount > 0) {
+			this.updateProcessingStats(processedCount);
 		}
+	}
 
-		if (processedCount > 0) {
-			await this.updateProcessingStats(processedCount);
+	/**
+	 * Returns the main channels the events of a pacticipant version group were already posted to, by runs that failed
+	 * in another of its main channels.
+	 */
+	getEventGroupPublishedChannels(groupKey: string): PublishedGroupChannels {
+		return selectPublishedGroupChannels(this.ctx.storage.sql, groupKey);
+	}
+
+	/**
+	 * Records that events of a pacticipant version group were posted to one of its main channels, so retrying the group
+	 * after a failure in another channel does not post them there again.
+	 */
+	recordEventGroupChannelPublished(groupKey: string, channel: string, eventTs: number[]): void {
+		insertPublishedGroupChannel(this.ctx.storage.sql, groupKey, channel, eventTs);
+	}
+
+	/**
+	 * Acknowledge the successful publication of one pacticipant version group: its events are removed from the
+	 * peeked buckets (buckets left empty are deleted) and its failure count and published channels are reset.
+	 * Other groups in the same buckets stay until they are published themselves.
+	 * @returns the number of events removed
+	 */
+	ackPublishedEventGroup(bucketKeys: string[], groupKey: string): number {
+		const published = this.takeGroupEvents(bucketKeys, groupKey);
+		deletePublishFailure(this.ctx.storage.sql, groupKey);
+		deletePublishedGroupChannels(this.ctx.storage.sql, groupKey);
+		return published.length;
+	}
+
+	/**
+	 * Records a failed publication of a pacticipant version group. Once it failed PUBLISH_MAX_ATTEMPTS times in a row,
+	 * or at once when the failure is permanent (e.g. channel_not_found), its events are moved from the peeked buckets
+	 * to the dead-letter store so they are no longer retried.
+	 */
+	recordEventGroupPublishFailure(
+		bucketKeys: string[],
+		groupKey: string,
+		error: string,
+		retryable = true,
+	): { attempts: number; deadLettered: boolean } {
+		const sql = this.ctx.storage.sql;
+		const attempts = selectPublishFailureAttempts(sql, groupKey) + 1;
+		const maxAttempts = coerceInt(this.env.PUBLISH_MAX_ATTEMPTS, 5, { min: 1 });
+		if (retryable && attempts < maxAttempts) {
+			upsertPublishFailure(sql, groupKey, attempts);
+			return { attempts, deadLettered: false };
 		}
+
+		const events = this.takeGroupEvents(bucketKeys, groupKey);
+		const published = selectPublishedGroupChannels(sql, groupKey);
+		const publishedChannels = Object.keys(published).length > 0 ? published : undefined;
+		insertDeadLetter(sql, {
+			id: crypto.randomUUID(),
+			groupKey,
+			events,
+			publishedChannels,
+			attempts,
+			lastError: error,
+			deadLetteredAt: now(),
+		});
+		deletePublishedGroupChannels(sql, groupKey);
+		deletePublishFailure(sql, groupKey);
+		return { attempts, deadLettered: true };
+	}
+
+	listDeadLetters(): DeadLetterEntry[] {
+		return selectDeadLetters(this.ctx.storage.sql);
 	}
 
 	/**
-	 * Add a new event to the aggregator.
-	 * The event is stored in a minute-based bucket.
-	 * @param eventData The event data to add
+	 * Moves the events of a dead-lettered group back into the current bucket, so the next publish run posts them again
+	 * (except to the main channels they were posted to before the group was dead-lettered).
+	 * A dead-lettered provider channel outbox entry is queued again at the end of the outbox.
+	 * @returns false when there is no dead letter with that id
 	 */
-	async addEvent(eventData: PactEventData): Promise<void> {
-		try {
-			const currentTime = now();
-			const currentMinute = getMinuteBucket(currentTime, this.env.MINUTE_BUCKET_MS);
-			const currentBucketKey = this.createBucketKey(currentMinute);
-			const allEvents = await this.getEvents();
+	async replayDeadLetter(id: string): Promise<boolean> {
+		const deadLetter = selectDeadLetter(this.ctx.storage.sql, id);
+		if (!deadLetter) return false;
+		deleteDeadLetter(this.ctx.storage.sql, id);
+
+		if ('outboxEntry' in deadLetter) {
+			// Queued with a new id and sequence number and no attempts yet
+			const replayed = { ...deadLetter.outboxEntry, lastAttemptAt: undefined, lastError: undefined };
+			this.enqueueProviderChannelOutboxItems([replayed], now());
+			return true;
+		}
 
-			if (!allEvents.has(currentBucketKey)) {
-				allEvents.set(currentBucketKey, []);
-			}
+		const currentMinute = parseInt(getMinuteBucket(now(), this.env.MINUTE_BUCKET_MS));
+		for (const event of deadLetter.events) {
+			insertEvent(this.ctx.storage.sql, currentMinute, event);
+		}
+		for (const [channel, eventTs] of Object.entries(deadLetter.publishedChannels ?? {})) {
+			insertPublishedGroupChannel(this.ctx.storage.sql, deadLetter.groupKey, channel, eventTs);
+		}
 
-			allEvents.get(currentBucketKey)!.push({
-				...eventData,
-				ts: currentTime,
-			} as StoredPactEventData);
+		await this.scheduleFlushAlarm(now());
+		return true;
+	}
+
+	/**
+	 * Drops a dead-lettered group for good.
+	 * @returns false when there is no dead letter with that id
+	 */
+	discardDeadLetter(id: string): boolean {
+		return deleteDeadLetter(this.ctx.storage.sql, id);
+	}
 
-			await this.setLastEventTime(currentTime);
-			await this.setEvents(allEvents);
-		} catch (err) {
-			console.error('❌ addEvent: Error adding event:', err);
+	/**
+	 * Publishes the completed buckets once the events that scheduled the alarm are out of their bucket and quiet period
+	 * (and the PUBLISHING_SCHEDULE of the main channel allows it), then schedules the next alarm while events remain.
+	 * The publish cron keeps running as a safety net.
+	 */
+	async alarm(): Promise<void> {
+		if (!isPublishAlarmEnabled(this.env)) return;
+		await processEventsForPublication(this.env);
+		await this.scheduleFlushAlarm(now());
+	}
+
+	/**
+	 * Add a new event to the aggregator.
+	 * The event is stored in a minute-based bucket, and recorded in the activity log the digests are built from.
+	 * Deliveries whose fingerprint was already seen within DEDUPLICATION_WINDOW_MS are not stored again.
+	 * Events on a branch muted by BRANCH_FILTERS are dropped, only recorded in the activity log, or kept out of the main channel.
+	 * @param eventData The event data to add
+	 * @param outboxItems Provider channel work queued together with the event (skipped for duplicates and muted events);
+	 * failure streak and recovery notices, flaky badges and latency updates of verifications are queued after them
+	 * @returns false when the event was suppressed as a duplicate, true otherwise; storage errors are thrown so the
+	 * webhook fails and the Pact Broker delivers the event again
+	 */
+	async addEvent(eventData: PactEventData, outboxItems: ProviderChannelOutboxItem[] = []): Promise<boolean> {
+		const currentTime = now();
+
+		if (this.isDuplicateEvent(eventData, currentTime)) {
+			console.log(`Suppressing duplicate webhook delivery ${getEventFingerprint(eventData)}`);
+			setStat(this.ctx.storage.sql, 'suppressedDuplicates', getStat(this.ctx.storage.sql, 'suppressedDuplicates') + 1);
+			return false;
 		}
+
+		// The fingerprint is recorded in the same transaction as the event and its outbox items, so a delivery
+		// that failed halfway is stored in full when the Pact Broker retries it instead of being suppressed
+		await this.ctx.storage.transaction(async () => {
+			await this.storeEvent(eventData, outboxItems, currentTime);
+			this.recordEventFingerprint(eventData, currentTime);
+		});
+		return true;
 	}
 
 	async getDebugInfo(): Promise<DebugInfo> {
 		const currentTime = now();
-		const lastEventTime = await this.getLastEventTime();
-		const lastProcessTime = await this.getLastProcessTime();
-		const events = await this.getEvents();
-		const { totalProcessed, lastProcessedCount } = await this.getProcessingStats();
+		const lastEventTime = this.getLastEventTime();
+		const lastProcessTime = this.getLastProcessTime();
+		const events = this.getEvents();
+		const { totalProcessed, lastProcessedCount } = this.getProcessingStats();
+		const publishAlarmTime = await this.ctx.storage.getAlarm();
+		const publishingSchedule = getPublishingSchedule(this.env);
 
 		console.log(
 			`ENV VARIABLES: GITHUB_BASE_URL=${this.env.GITHUB_BASE_URL} PACTICIPANT_TO_REPO_MAP=${JSON.stringify(
@@ -139,30 +370,38 @@ export class PactAggregator extends DurableObject<Env> {
 			totalEvents: Array.from(events.values()).reduce((sum, eventList) => sum + eventList.length, 0),
 			totalProcessedEvents: totalProcessed,
 			lastProcessedCount,
+			suppressedDuplicates: getStat(this.ctx.storage.sql, 'suppressedDuplicates'),
 			timeSinceLastEvent: lastEventTime > 0 ? now() - lastEventTime : null,
 			timeSinceLastProcess: lastProcessTime > 0 ? now() - lastProcessTime : null,
 			slackChannel: this.env.SLACK_CHANNEL,
 			githubBaseUrl: this.env.GITHUB_BASE_URL,
 			pacticipantToRepoMap: this.env.PACTICIPANT_TO_REPO_MAP,
-			publicationThreads: await this.getAllPublicationThreads(),
+			publicationThreads: Object.fromEntries(selectPublicationThreads(this.ctx.storage.sql).map(({ key, info }) => [key, info])),
+			providerChannelOutbox: selectOutboxEntries(this.ctx.storage.sql),
+			publishFailures: selectPublishFailures(this.ctx.storage.sql),
+			deadLetterCount: countDeadLetters(this.ctx.storage.sql),
+			publishAlarmTime: publishAlarmTime === null ? null : new Date(publishAlarmTime).toISOString(),
+			publishingSchedule: publishingSchedule.schedule,
+			publishingScheduleErrors: publishingSchedule.errors,
+			mutedEvents: Object.fromEntries(
+				BRANCH_FILTER_ACTIONS.map((action) => [action, getStat(this.ctx.storage.sql, MUTED_EVENT_STATS[action])]),
+			) as Record<BranchFilterAction, number>,
+			branchFilterErrors: getBranchFilters(this.env).errors,
 		};
 	}
 
 	/**
-	 * Store the Slack thread timestamp for a publication event in a dictionary under 'publicationThreads'
+	 * Store the Slack thread timestamp for a publication event in the publication_threads table.
+	 * Deprecation notices for the returned candidates are queued in the provider channel outbox;
+	 * the candidates are removed once their notice is delivered.
+	 * A new thread for a pact requiring verification starts awaiting its verification (see queueVerificationSlaAlerts()).
 	 */
-	async upsertPublicationThreadInfo(
-		pub: PactWebhookPayload,
-		channel: string,
-		threadTs: string,
-		channelId: string,
-	): Promise<PublicationThreadEntry[]> {
+	upsertPublicationThreadInfo(pub: PactWebhookPayload, channel: string, threadTs: string, channelId: string): PublicationThreadEntry[] {
 		const key = this.makeKeyForPublicationThread(pub, channel);
-		const threads = await this.getAllPublicationThreads();
 		const currentTime = now();
 		const currentTimeString = currentTime.toString();
 
-		const existing = threads[key];
+		const existing = selectPublicationThread(this.ctx.storage.sql, key);
 		const info = {
 			ts: threadTs,
 			channelId: channelId,
@@ -172,15 +411,31 @@ export class PactAggregator extends DurableObject<Env> {
 			replyCount: existing?.replyCount ?? 0,
 			lastMasterVerification: existing?.lastMasterVerification,
 			lastMasterVerificationTs: existing?.lastMasterVerificationTs,
+			// A new thread shows the deployments of its consumer version recorded before it existed
+			deployedEnvironments: existing
+				? existing.deployedEnvironments
+				: this.getDeployedEnvironments(pub.consumerName, pub.consumerVersionNumber),
+			providerDeployedEnvironments: existing?.providerDeployedEnvironments,
+			canIDeploy: existing?.canIDeploy,
+			awaitingVerificationSince: existing
+				? existing.awaitingVerificationSince
+				: pub.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED
+					? currentTime
+					: undefined,
+			verificationSlaAlertedAt: existing?.verificationSlaAlertedAt,
+			verificationSlaEscalatedAt: existing?.verificationSlaEscalatedAt,
+			flakySince: existing?.flakySince,
+			firstVerificationLatencyMs: existing?.firstVerificationLatencyMs,
+			firstMasterVerificationLatencyMs: existing?.firstMasterVerificationLatencyMs,
 		};
 
-		const deprecatedCandidates =
-			pub.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED
-				? this.collectDeprecatedEntries(threads, pub, channel, key, info, currentTime)
-				: [];
+		const deprecatedCandidates = isPublicationPayload(pub) ? this.collectDeprecatedEntries(pub, channel, key, info, currentTime) : [];
 
-		threads[key] = info;
-		await this.ctx.storage.put('publicationThreads', threads);
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
+		this.enqueueProviderChannelOutboxItems(
+			deprecatedCandidates.map((thread) => ({ kind: 'thread_notice', thread, notice: DEPRECATION_NOTICE, removeThread: true })),
+			currentTime,
+		);
 		return deprecatedCandidates;
 	}
 
@@ -190,7 +445,7 @@ export class PactAggregator extends DurableObject<Env> {
 	 * - For any other identified branch, keep only the latest version.
 	 * - For empty or unidentified branches, no deprecation is applied (keep all).
 	 */
-	private getDeprecationKeepCount(payload: ContractRequiringVerificationPublishedPayload): number | undefined {
+	private getDeprecationKeepCount(payload: ContractPublicationPayload): number | undefined {
 		const branch = payload.consumerVersionBranch ?? '';
 		if (!branch) return undefined;
 		return isMasterBranch(this.env, payload.consumerName, payload.consumerVersionBranch) ? 2 : 1;
@@ -225,8 +480,7 @@ export class PactAggregator extends DurableObject<Env> {
 	 *
 	 */
 	private collectDeprecatedEntries(
-		threads: Record<string, PublicationThreadInfo | undefined>,
-		pub: ContractRequiringVerificationPublishedPayload,
+		pub: ContractPublicationPayload,
 		channel: string,
 		key: string,
 		currentInfo: PublicationThreadInfo,
@@ -234,15 +488,12 @@ export class PactAggregator extends DurableObject<Env> {
 	) {
 		const keepCount = this.getDeprecationKeepCount(pub);
 		if (!keepCount) return [];
-		const groupEntries: DeprecationGroupEntry[] = [];
-
-		for (const [existingKey, info] of Object.entries(threads)) {
-			if (!existingKey.endsWith(`|${channel}`)) continue;
-			if (info!.payload.providerName !== pub.providerName) continue;
-			if (info!.payload.consumerName !== pub.consumerName) continue;
-			if (info!.payload.consumerVersionBranch !== pub.consumerVersionBranch) continue;
-			groupEntries.push({ key: existingKey, info: info!, updatedTime: Number(info!.updatedTs) });
-		}
+		const groupEntries: DeprecationGroupEntry[] = selectPublicationThreads(this.ctx.storage.sql, {
+			providerName: pub.providerName,
+			consumerName: pub.consumerName,
+			consumerVersionBranch: pub.consumerVersionBranch,
+			channel,
+		}).map((entry) => ({ ...entry, updatedTime: Number(entry.info.updatedTs) }));
 
 		// Include the newly published pact version as the newest entry.
 		groupEntries.push({ key, info: currentInfo, updatedTime: currentTime });
@@ -253,84 +504,528 @@ export class PactAggregator extends DurableObject<Env> {
 	/**
 	 * Updates the last updated timestamp and increments the reply count for a publication thread.
 	 */
-	async updatePublicationThread(pub: PactWebhookPayload, channel: string): Promise<void> {
+	updatePublicationThread(pub: PactWebhookPayload, channel: string): void {
 		const key = this.makeKeyForPublicationThread(pub, channel);
-		const threads = await this.getAllPublicationThreads();
-		const info = threads[key];
+		const info = selectPublicationThread(this.ctx.storage.sql, key);
 		if (!info) return;
 
 		info.updatedTs = now().toString();
 		const current = typeof info.replyCount === 'number' ? info.replyCount : 0;
 		info.replyCount = current + 1;
-		await this.ctx.storage.put('publicationThreads', threads);
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
 	}
 
-	async getPublicationThreadInfo(pub: PactWebhookPayload, channel: string): Promise<PublicationThreadInfo | undefined> {
-		const key = this.makeKeyForPublicationThread(pub, channel);
-		const threads = await this.getAllPublicationThreads();
-		return threads[key];
+	/**
+	 * Stops waiting for a verification of the thread's pact. When the "still awaiting verification" notice was posted,
+	 * a root summary refresh is queued to remove it.
+	 */
+	recordPublicationThreadVerification(ver: ProviderVerificationPayload, channel: string): void {
+		const key = this.makeKeyForPublicationThread(ver, channel);
+		const info = selectPublicationThread(this.ctx.storage.sql, key);
+		if (info?.awaitingVerificationSince === undefined) return;
+
+		const wasAlerted = info.verificationSlaAlertedAt !== undefined;
+		delete info.awaitingVerificationSince;
+		delete info.verificationSlaAlertedAt;
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
+		if (wasAlerted) {
+			this.enqueueProviderChannelOutboxItems([{ kind: 'summary_refresh', thread: { key, info } }], now());
+		}
 	}
 
-	async setPublicationThreadLastMasterVerification(
-		ver: ProviderVerificationPublishedPayload,
-		channel: string,
-		verifiedAt: number,
-	): Promise<void> {
+	/**
+	 * Extends or ends the run of failures of the provider branch against the consumer.
+	 * A second or later consecutive failure is reported as broken, and the first success after failures as recovered:
+	 * in the pact's threads and, for the provider's master branch, in the main channels (as routed by CHANNEL_ROUTES).
+	 * @returns the outbox items reporting the change, if any
+	 */
+	private recordVerificationStreak(ver: ProviderVerificationPayload, currentTime: number): ProviderChannelOutboxItem[] {
+		const { providerName, consumerName, providerVersionBranch } = ver;
+		const previous = selectVerificationStreak(this.ctx.storage.sql, providerName, consumerName, providerVersionBranch);
+		const failingSince = previous?.failingSince ?? null;
+		const consecutiveFailures = failingSince === null ? 0 : (previous?.consecutiveFailures ?? 0);
+
+		let streak: VerificationStreakChange | undefined;
+		if (ver.githubVerificationStatus === 'success') {
+			upsertVerificationStreak(this.ctx.storage.sql, {
+				providerName,
+				consumerName,
+				providerVersionBranch,
+				failingSince: null,
+				consecutiveFailures: 0,
+				updatedAt: currentTime,
+			});
+			if (failingSince !== null) streak = { kind: 'recovered', failingSince, consecutiveFailures, changedAt: currentTime };
+		} else {
+			const broken = { failingSince: failingSince ?? currentTime, consecutiveFailures: consecutiveFailures + 1 };
+			upsertVerificationStreak(this.ctx.storage.sql, {
+				providerName,
+				consumerName,
+				providerVersionBranch,
+				...broken,
+				updatedAt: currentTime,
+			});
+			if (broken.consecutiveFailures > 1) streak = { kind: 'broken', ...broken, changedAt: currentTime };
+		}
+
+		if (!streak) return [];
+		const { providerChannels, mainChannels } = routePayload(this.env, ver);
+		const items: ProviderChannelOutboxItem[] = providerChannels.map((channel) => ({
+			kind: 'verification_streak',
+			verification: ver,
+			streak,
+			target: 'thread',
+			channel,
+		}));
+		if (isMasterBranch(this.env, providerName, providerVersionBranch)) {
+			for (const channel of mainChannels) {
+				items.push({ kind: 'verification_streak', verification: ver, streak, target: 'main_channel', channel });
+			}
+		}
+		return items;
+	}
+
+	/**
+	 * Marks the pact's threads flaky once verification results of its pact version on the provider branch flip-flop
+	 * within FLAKY_VERIFICATION_WINDOW_MINUTES (see findFlakyVerifications()).
+	 * @returns root summary refreshes showing the flaky badge, for the newly marked threads
+	 */
+	private markFlakyPublicationThread(ver: ProviderVerificationPayload, currentTime: number): ProviderChannelOutboxItem[] {
+		const windowMs = getFlakyVerificationWindowMs(this.env);
+		const pactVersion = getPactVersionFromPayload(ver);
+		if (windowMs === 0 || pactVersion === undefined) return [];
+
+		const activity = selectPactActivity(this.ctx.storage.sql, {
+			since: currentTime - windowMs,
+			providerName: ver.providerName,
+			consumerName: ver.consumerName,
+			pactVersion,
+		});
+		const isFlaky = findFlakyVerifications(activity, windowMs).some(
+			(flaky) => flaky.providerVersionBranch === ver.providerVersionBranch && flaky.lastFlipAt === currentTime,
+		);
+		if (!isFlaky) return [];
+
+		const items: ProviderChannelOutboxItem[] = [];
+		for (const channel of getProviderChannels(this.env, ver)) {
+			const key = this.makeKeyForPublicationThread(ver, channel);
+			const info = selectPublicationThread(this.ctx.storage.sql, key);
+			if (!info || info.flakySince !== undefined) continue;
+			info.flakySince = currentTime;
+			upsertPublicationThread(this.ctx.storage.sql, key, info);
+			items.push({ kind: 'summary_refresh', thread: { key, info } });
+		}
+		return items;
+	}
+
+	/**
+	 * Records the time from the publication of the pact (the creation of its thread) to its first verification result
+	 * and to the first one on the provider's master branch. Threads opened by a verification are not measured.
+	 * A pact routed to several provider channels has a thread in each, but its latencies are recorded once.
+	 * @returns root summary refreshes showing the latency; master branch verifications refresh them when delivered
+	 */
+	private recordVerificationLatency(ver: ProviderVerificationPayload, currentTime: number): ProviderChannelOutboxItem[] {
+		const isMaster = isMasterBranch(this.env, ver.providerName, ver.providerVersionBranch);
+		const recordedKinds = new Set<VerificationLatencyKind>();
+		const items: ProviderChannelOutboxItem[] = [];
+		for (const channel of getProviderChannels(this.env, ver)) {
+			const key = this.makeKeyForPublicationThread(ver, channel);
+			const info = selectPublicationThread(this.ctx.storage.sql, key);
+			if (!info || !isPublicationPayload(info.payload)) continue;
+
+			const latencyMs = currentTime - Number(info.createdTs);
+			const kinds: VerificationLatencyKind[] = [];
+			if (info.firstVerificationLatencyMs === undefined) {
+				info.firstVerificationLatencyMs = latencyMs;
+				kinds.push('firstVerification');
+			}
+			if (isMaster && info.firstMasterVerificationLatencyMs === undefined) {
+				info.firstMasterVerificationLatencyMs = latencyMs;
+				kinds.push('firstMasterVerification');
+			}
+			if (kinds.length === 0) continue;
+
+			for (const kind of kinds.filter((k) => !recordedKinds.has(k))) {
+				recordedKinds.add(kind);
+				insertVerificationLatency(this.ctx.storage.sql, {
+					ts: currentTime,
+					providerName: ver.providerName,
+					consumerName: ver.consumerName,
+					pactVersion: getPactVersionFromPayload(ver),
+					kind,
+					latencyMs,
+				});
+			}
+			upsertPublicationThread(this.ctx.storage.sql, key, info);
+			if (!isMaster) items.push({ kind: 'summary_refresh', thread: { key, info } });
+		}
+		return items;
+	}
+
+	/**
+	 * Tells the author of the consumer commit about the first failed verification of its pact by the provider
+	 * (COMMIT_AUTHOR_DM_ENABLED). Later failures of the same consumer version, e.g. retries, are not reported again.
+	 * @returns the direct message to deliver, if any
+	 */
+	private queueCommitAuthorMessage(ver: ProviderVerificationPayload): ProviderChannelOutboxItem[] {
+		if (!isCommitAuthorDmEnabled(this.env) || ver.githubVerificationStatus === 'success') return [];
+
+		// The activity already holds this verification
+		const failures = selectPactActivity(this.ctx.storage.sql, { providerName: ver.providerName, consumerName: ver.consumerName }).filter(
+			({ payload }) =>
+				isVerificationPayload(payload) &&
+				payload.githubVerificationStatus !== 'success' &&
+				payload.consumerVersionNumber === ver.consumerVersionNumber,
+		);
+		return failures.length === 1 ? [{ kind: 'commit_author_dm', verification: ver }] : [];
+	}
+
+	/**
+	 * Percentiles of the recorded verification latencies per provider (of one provider when given).
+	 */
+	getVerificationLatencies(providerName?: string): ProviderVerificationLatency[] {
+		return summarizeVerificationLatencies(selectVerificationLatencies(this.ctx.storage.sql, providerName));
+	}
+
+	/**
+	 * Returns the owners (PACTICIPANT_OWNERS) of the providers and consumers of the failed verifications that may be
+	 * mentioned in a message to `channel`. An owner is mentioned about the same provider and consumer in a channel at most
+	 * once per OWNER_MENTION_COOLDOWN_MINUTES, so retried verifications do not ping again.
+	 * Caller must invoke recordOwnerMentions() once the message is posted; until then a retry mentions the owners again.
+	 */
+	getOwnerMentions(verifications: ProviderVerificationPayload[], channel: string): string[] {
+		const currentTime = now();
+		const cooldownMs = getOwnerMentionCooldownMs(this.env);
+
+		const owners = new Set<string>();
+		for (const ver of verifications) {
+			for (const owner of getVerificationFailureOwners(this.env, ver)) {
+				const mention = { owner, providerName: ver.providerName, consumerName: ver.consumerName, channel };
+				const mentionedAt = selectOwnerMentionTime(this.ctx.storage.sql, mention);
+				if (mentionedAt === undefined || mentionedAt <= currentTime - cooldownMs) owners.add(owner);
+			}
+		}
+		return [...owners];
+	}
+
+	/**
+	 * Records that `owners` were mentioned in a message to `channel` about the failed verifications, which starts their
+	 * mention cooldown. Mentions older than the cooldown are pruned on every call.
+	 */
+	recordOwnerMentions(verifications: ProviderVerificationPayload[], channel: string, owners: string[]): void {
+		if (owners.length === 0) return;
+		const currentTime = now();
+		deleteOwnerMentionsBefore(this.ctx.storage.sql, currentTime - getOwnerMentionCooldownMs(this.env));
+
+		for (const ver of verifications) {
+			for (const owner of getVerificationFailureOwners(this.env, ver)) {
+				if (!owners.includes(owner)) continue;
+				const mention = { owner, providerName: ver.providerName, consumerName: ver.consumerName, channel };
+				upsertOwnerMention(this.ctx.storage.sql, { ...mention, mentionedAt: currentTime });
+			}
+		}
+	}
+
+	/**
+	 * Pact versions whose verification results flip-flopped within FLAKY_VERIFICATION_WINDOW_MINUTES,
+	 * over the retained activity (ACTIVITY_RETENTION_DAYS).
+	 */
+	listFlakyVerifications(): FlakyVerification[] {
+		return findFlakyVerifications(selectPactActivity(this.ctx.storage.sql), getFlakyVerificationWindowMs(this.env));
+	}
+
+	/**
+	 * Queues a "still awaiting verification" notice for every contract thread whose pact got no verification result
+	 * within VERIFICATION_SLA_MINUTES of its publication, and a main channel message once it has been waiting for
+	 * VERIFICATION_SLA_ESCALATION_MINUTES. Each is sent once per thread; 0 minutes disables it.
+	 * @returns the number of queued alerts
+	 */
+	queueVerificationSlaAlerts(): number {
+		const slaMs = coerceInt(this.env.VERIFICATION_SLA_MINUTES, 0, { min: 0 }) * MINUTE_MS;
+		const escalationMs = coerceInt(this.env.VERIFICATION_SLA_ESCALATION_MINUTES, 0, { min: 0 }) * MINUTE_MS;
+		const enabledMs = [slaMs, escalationMs].filter((ms) => ms > 0);
+		if (enabledMs.length === 0) return 0;
+
+		const currentTime = now();
+		const items: ProviderChannelOutboxItem[] = [];
+		// A pact routed to several provider channels has a thread in each; the main channels are told once
+		const escalatedPacts = new Set<string>();
+		for (const thread of selectPublicationThreadsAwaitingVerification(this.ctx.storage.sql, currentTime - Math.min(...enabledMs))) {
+			const { info } = thread;
+			const waitingMs = currentTime - (info.awaitingVerificationSince ?? currentTime);
+			const alert = slaMs > 0 && waitingMs >= slaMs && info.verificationSlaAlertedAt === undefined;
+			const escalate = escalationMs > 0 && waitingMs >= escalationMs && info.verificationSlaEscalatedAt === undefined;
+			if (!alert && !escalate) continue;
+
+			// The queued entries keep the state before the alert, so the notice is not rendered twice
+			upsertPublicationThread(this.ctx.storage.sql, thread.key, {
+				...info,
+				...(alert && { verificationSlaAlertedAt: currentTime }),
+				...(escalate && { verificationSlaEscalatedAt: currentTime }),
+			});
+			if (alert) items.push({ kind: 'thread_notice', thread, notice: AWAITING_VERIFICATION_NOTICE, removeThread: false });
+			const pactKey = thread.key.slice(0, thread.key.lastIndexOf('|'));
+			// Pacts on a branch kept out of the main channel are not escalated there either
+			if (escalate && !escalatedPacts.has(pactKey) && getBranchFilterAction(this.env, info.payload) === undefined) {
+				escalatedPacts.add(pactKey);
+				for (const channel of getMainChannels(this.env, info.payload)) {
+					items.push({ kind: 'verification_escalation', thread, channel });
+				}
+			}
+		}
+
+		this.enqueueProviderChannelOutboxItems(items, currentTime);
+		return items.length;
+	}
+
+	getPublicationThreadInfo(pub: PactWebhookPayload, channel: string): PublicationThreadInfo | undefined {
+		return selectPublicationThread(this.ctx.storage.sql, this.makeKeyForPublicationThread(pub, channel));
+	}
+
+	getPublicationThreadInfoByKey(key: string): PublicationThreadInfo | undefined {
+		return selectPublicationThread(this.ctx.storage.sql, key);
+	}
+
+	setPublicationThreadLastMasterVerification(ver: ProviderVerificationPayload, channel: string, verifiedAt: number): void {
 		const key = this.makeKeyForPublicationThread(ver, channel);
-		const threads = await this.getAllPublicationThreads();
-		const info = threads[key];
+		const info = selectPublicationThread(this.ctx.storage.sql, key);
 		if (!info) return;
 		info.lastMasterVerification = ver;
 		info.lastMasterVerificationTs = verifiedAt;
+		info.providerDeployedEnvironments = this.getDeployedEnvironments(ver.providerName, ver.providerVersionNumber);
 		info.updatedTs = verifiedAt.toString();
-		await this.ctx.storage.put('publicationThreads', threads);
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
 	}
 
-	async setPublicationThreadReplyCount(pub: PactWebhookPayload, channel: string, replyCount: number): Promise<void> {
+	setPublicationThreadCanIDeploy(pub: PactWebhookPayload, channel: string, canIDeploy: CanIDeploySummary): void {
 		const key = this.makeKeyForPublicationThread(pub, channel);
-		const threads = await this.getAllPublicationThreads();
-		const info = threads[key];
+		const info = selectPublicationThread(this.ctx.storage.sql, key);
+		if (!info) return;
+		info.canIDeploy = canIDeploy;
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
+	}
+
+	setPublicationThreadReplyCount(pub: PactWebhookPayload, channel: string, replyCount: number): void {
+		const key = this.makeKeyForPublicationThread(pub, channel);
+		const info = selectPublicationThread(this.ctx.storage.sql, key);
 		if (!info) return;
 		info.replyCount = replyCount;
-		await this.ctx.storage.put('publicationThreads', threads);
+		upsertPublicationThread(this.ctx.storage.sql, key, info);
 	}
 
 	/**
 	 * Rotates the stored publication thread to a new Slack root message ts.
 	 * Deletes the existing entry and recreates it with replyCount reset to 0.
 	 */
-	async rotatePublicationThread(pub: PactWebhookPayload, channel: string, newThreadTs: string, channelId: string): Promise<void> {
+	rotatePublicationThread(pub: PactWebhookPayload, channel: string, newThreadTs: string, channelId: string): void {
 		const key = this.makeKeyForPublicationThread(pub, channel);
-		const threads = await this.getAllPublicationThreads();
-		const existing = threads[key];
+		const existing = selectPublicationThread(this.ctx.storage.sql, key);
 		if (!existing) return;
 
-		// Remove old entry then create a fresh one so legacy fields don't linger.
-		delete threads[key];
-
+		// Replace the entry with a fresh one so legacy fields don't linger.
 		const currentTimeString = now().toString();
-		threads[key] = {
+		upsertPublicationThread(this.ctx.storage.sql, key, {
 			ts: newThreadTs,
 			channelId,
 			payload: existing.payload,
 			lastMasterVerification: existing.lastMasterVerification,
 			lastMasterVerificationTs: existing.lastMasterVerificationTs,
+			deployedEnvironments: existing.deployedEnvironments,
+			providerDeployedEnvironments: existing.providerDeployedEnvironments,
+			canIDeploy: existing.canIDeploy,
+			awaitingVerificationSince: existing.awaitingVerificationSince,
+			verificationSlaAlertedAt: existing.verificationSlaAlertedAt,
+			verificationSlaEscalatedAt: existing.verificationSlaEscalatedAt,
+			flakySince: existing.flakySince,
+			firstVerificationLatencyMs: existing.firstVerificationLatencyMs,
+			firstMasterVerificationLatencyMs: existing.firstMasterVerificationLatencyMs,
 			createdTs: currentTimeString,
 			updatedTs: currentTimeString,
 			replyCount: 0,
+		});
+	}
+
+	/**
+	 * Records a deployment or release of a pacticipant version, and shows it on the publication threads of the pacts that
+	 * consumer version published and of the pacts that provider version verified last on its master branch.
+	 *
+	 * A deployment replaces whatever version of the pacticipant was deployed to that environment before,
+	 * so the environment is removed from the pacticipant's other threads. Releases can coexist, so nothing is removed.
+	 * Deployments are kept, so threads created (or verified on master) later show them too.
+	 *
+	 * @returns the thread entries whose deployed environments changed (a root summary refresh is queued for each)
+	 */
+	recordDeployment(deployment: DeploymentWebhookPayload): PublicationThreadEntry[] {
+		const { pacticipantName, pacticipantVersionNumber, environmentName } = deployment;
+		const replacesPreviousVersion = deployment.eventType === PACTICIPANT_VERSION_DEPLOYED;
+		recordDeploymentRow(this.ctx.storage.sql, {
+			pacticipant: pacticipantName,
+			versionNumber: pacticipantVersionNumber,
+			environment: environmentName,
+			released: !replacesPreviousVersion,
+			ts: now(),
+		});
+		const updateEnvironments = (environments: string[] = [], versionNumber: string | undefined) => {
+			const isDeployedVersion = versionNumber === pacticipantVersionNumber;
+			if (isDeployedVersion && !environments.includes(environmentName)) {
+				return [...environments, environmentName];
+			}
+			if (!isDeployedVersion && replacesPreviousVersion && environments.includes(environmentName)) {
+				return environments.filter((e) => e !== environmentName);
+			}
+			return undefined;
 		};
-		await this.ctx.storage.put('publicationThreads', threads);
+
+		const changedEntries = new Map<string, PublicationThreadInfo>();
+		for (const { key, info } of selectPublicationThreads(this.ctx.storage.sql, { consumerName: pacticipantName })) {
+			const updatedEnvironments = updateEnvironments(info.deployedEnvironments, info.payload.consumerVersionNumber);
+			if (!updatedEnvironments) continue;
+			info.deployedEnvironments = updatedEnvironments;
+			changedEntries.set(key, info);
+		}
+		for (const thread of selectPublicationThreads(this.ctx.storage.sql, { providerName: pacticipantName })) {
+			const info = changedEntries.get(thread.key) ?? thread.info;
+			// Threads without a master verification have no provider version to match
+			if (!info.lastMasterVerification) continue;
+			const updatedEnvironments = updateEnvironments(info.providerDeployedEnvironments, info.lastMasterVerification.providerVersionNumber);
+			if (!updatedEnvironments) continue;
+			info.providerDeployedEnvironments = updatedEnvironments;
+			changedEntries.set(thread.key, info);
+		}
+
+		const changed = [...changedEntries].map(([key, info]) => ({ key, info }));
+		for (const { key, info } of changed) {
+			upsertPublicationThread(this.ctx.storage.sql, key, info);
+		}
+		if (changed.length > 0) {
+			this.enqueueProviderChannelOutboxItems(
+				changed.map((thread) => ({ kind: 'summary_refresh', thread })),
+				now(),
+			);
+		}
+		return changed;
+	}
+
+	/**
+	 * Returns the environments a pacticipant version is currently deployed to (or released in), or undefined when none.
+	 */
+	getDeployedEnvironments(pacticipant: string, versionNumber: string): string[] | undefined {
+		const environments = selectDeploymentEnvironments(this.ctx.storage.sql, pacticipant, versionNumber);
+		return environments.length > 0 ? environments : undefined;
+	}
+
+	/**
+	 * Returns the Pact Broker lookups cached for a pact URL, unless they are older than PACT_BROKER_CACHE_TTL_MS.
+	 */
+	async getCachedPactEnrichment(pactUrl: string): Promise<PactEnrichment | undefined> {
+		const cache = await this.getPactEnrichmentCache();
+		const cached = cache[pactUrl];
+		if (!cached || now() - cached.cachedAt > this.getPactEnrichmentCacheTtlMs()) return undefined;
+		return cached.enrichment;
+	}
+
+	/**
+	 * Caches Pact Broker lookups for a pact URL, dropping expired entries so the cache cannot grow unbounded.
+	 */
+	async cachePactEnrichment(pactUrl: string, enrichment: PactEnrichment): Promise<void> {
+		const cache = await this.getPactEnrichmentCache();
+		const currentTime = now();
+		const ttlMs = this.getPactEnrichmentCacheTtlMs();
+		for (const [url, cached] of Object.entries(cache)) {
+			if (!cached || currentTime - cached.cachedAt > ttlMs) delete cache[url];
+		}
+		cache[pactUrl] = { enrichment, cachedAt: currentTime };
+		await this.ctx.storage.put('pactEnrichments', cache);
+	}
+
+	/**
+	 * Claims up to `limit` due provider channel outbox entries in enqueue order and leases them for `leaseMs`,
+	 * so overlapping delivery runs (webhook and cron) do not deliver the same entry twice.
+	 * Caller must ack or release every claimed entry; entries of a crashed run become due again when the lease expires.
+	 */
+	claimProviderChannelOutbox(limit: number, leaseMs: number): ProviderChannelOutboxEntry[] {
+		const currentTime = now();
+		const claimed = selectOutboxEntries(this.ctx.storage.sql, currentTime, limit);
+		for (const entry of claimed) {
+			entry.availableAt = currentTime + leaseMs;
+			upsertOutboxEntry(this.ctx.storage.sql, entry);
+		}
+		return claimed;
+	}
+
+	/**
+	 * Removes a delivered entry from the provider channel outbox.
+	 */
+	ackProviderChannelOutboxEntry(id: string): void {
+		deleteOutboxEntry(this.ctx.storage.sql, id);
+	}
+
+	/**
+	 * Returns a claimed entry to the outbox, due again after `retryDelayMs`.
+	 * With an error the failed delivery attempt is recorded; without one the entry was only deferred.
+	 */
+	releaseProviderChannelOutboxEntry(id: string, retryDelayMs: number, error?: string): void {
+		const entry = selectOutboxEntry(this.ctx.storage.sql, id);
+		if (!entry) return;
+
+		const currentTime = now();
+		entry.availableAt = currentTime + retryDelayMs;
+		if (error !== undefined) {
+			entry.attempts += 1;
+			entry.lastAttemptAt = currentTime;
+			entry.lastError = error;
+		}
+		upsertOutboxEntry(this.ctx.storage.sql, entry);
+	}
+
+	/**
+	 * Records a failed delivery of a claimed provider channel outbox entry. A retryable failure returns the entry to the
+	 * outbox, due again after `retryDelayMs`; a permanent one (channel_not_found, not_in_channel, invalid_auth, ...), or the
+	 * PUBLISH_MAX_ATTEMPTS-th retryable one, moves it to the dead-letter store so it no longer holds up its provider.
+	 */
+	recordProviderChannelOutboxFailure(
+		id: string,
+		retryDelayMs: number,
+		error: string,
+		retryable: boolean,
+	): { attempts: number; deadLettered: boolean } {
+		const entry = selectOutboxEntry(this.ctx.storage.sql, id);
+		if (!entry) return { attempts: 0, deadLettered: false };
+
+		const currentTime = now();
+		entry.attempts += 1;
+		entry.lastAttemptAt = currentTime;
+		entry.lastError = error;
+		const maxAttempts = coerceInt(this.env.PUBLISH_MAX_ATTEMPTS, 5, { min: 1 });
+		if (retryable && entry.attempts < maxAttempts) {
+			entry.availableAt = currentTime + retryDelayMs;
+			upsertOutboxEntry(this.ctx.storage.sql, entry);
+			return { attempts: entry.attempts, deadLettered: false };
+		}
+
+		insertDeadLetter(this.ctx.storage.sql, {
+			id: crypto.randomUUID(),
+			outboxEntry: entry,
+			attempts: entry.attempts,
+			lastError: error,
+			deadLetteredAt: currentTime,
+		});
+		deleteOutboxEntry(this.ctx.storage.sql, id);
+		return { attempts: entry.attempts, deadLettered: true };
 	}
 
 	/**
 	 * Clear all stored data
 	 */
 	async clearAll(): Promise<void> {
+		await this.ctx.storage.deleteAlarm();
 		await this.ctx.storage.deleteAll();
+		// deleteAll() drops the SQLite tables too
+		await initializeAggregatorStorage(this.ctx.storage, now());
 	}
 
-	async clearPublicationThreads(): Promise<void> {
-		await this.ctx.storage.delete('publicationThreads');
+	clearPublicationThreads(): void {
+		deleteAllPublicationThreads(this.ctx.storage.sql);
 	}
 
 	/**
@@ -340,19 +1035,11 @@ export class PactAggregator extends DurableObject<Env> {
 	 * - Keep at least the newest N pact versions by update time.
 	 * - Keep anything updated within the last D days.
 	 * - Delete only entries that are both old and beyond the newest N.
+	 *
+	 * A removal notice for every deleted entry is queued in the provider channel outbox.
 	 */
-	async prunePublicationThreads(): Promise<PublicationThreadEntry[]> {
-		const threads = await this.getAllPublicationThreads();
-		const threadEntries = Object.entries(threads);
-		const entries = threadEntries
-			.map(([key, info]) => {
-				if (!info) return undefined;
-				return {
-					key,
-					info,
-				};
-			})
-			.filter((x): x is PublicationThreadEntry => Boolean(x));
+	prunePublicationThreads(): PublicationThreadEntry[] {
+		const entries = selectPublicationThreads(this.ctx.storage.sql);
 
 		if (entries.length === 0) {
 			return [];
@@ -384,36 +1071,104 @@ export class PactAggregator extends DurableObject<Env> {
 				const shouldKeep = newestKeys.has(entry.key) || isRecent;
 				if (!shouldKeep) {
 					removedEntries.push({ key: entry.key, info: entry.info });
-					delete threads[entry.key];
+					deletePublicationThread(this.ctx.storage.sql, entry.key);
 				}
 			}
 		}
 
 		if (removedEntries.length > 0) {
-			await this.ctx.storage.put('publicationThreads', threads);
+			this.enqueueProviderChannelOutboxItems(
+				removedEntries.map((thread) => ({ kind: 'thread_notice', thread, notice: THREAD_REMOVAL_NOTICE, removeThread: false })),
+				now(),
+			);
 		}
 
 		return removedEntries;
 	}
 
-	async removePublicationThreadKeys(keys: string[]): Promise<number> {
-		if (keys.length === 0) return 0;
-		const threads = await this.getAllPublicationThreads();
-		let removedCount = 0;
-		for (const key of keys) {
-			if (threads[key]) {
-				delete threads[key];
-				removedCount += 1;
+	/**
+	 * Queues the digest of the period ending now for the main channels and for every provider channel
+	 * with something to report. Every channel gets the digest of the activity CHANNEL_ROUTES routes to it
+	 * (SLACK_CHANNEL and the provider's own channel by default). Digests are delivered through the provider channel outbox.
+	 * Activity BRANCH_FILTERS mutes stays out of the digests it would not be posted to: store-only activity out of all of them,
+	 * activity skipping the main channel out of the main channel digests.
+	 * @returns the number of queued digests
+	 */
+	queueDigests(period: DigestPeriod): number {
+		const currentTime = now();
+		const options = { period, from: currentTime - DIGEST_PERIOD_MS[period], to: currentTime };
+		const activity = selectPactActivity(this.ctx.storage.sql);
+
+		const mainActivity = new Map<string, PactActivityRow[]>();
+		const providerActivity = new Map<string, Map<string, PactActivityRow[]>>();
+		const addRow = (byChannel: Map<string, PactActivityRow[]>, channel: string, row: PactActivityRow) => {
+			const rows = byChannel.get(channel);
+			if (rows) {
+				rows.push(row);
+			} else {
+				byChannel.set(channel, [row]);
+			}
+		};
+		for (const row of activity) {
+			const muteAction = getBranchFilterAction(this.env, row.payload);
+			if (muteAction === 'store_only') continue;
+			const { mainChannels, providerChannels } = routePayload(this.env, row.payload);
+			if (muteAction !== 'skip_main_channel') {
+				for (const channel of mainChannels) addRow(mainActivity, channel, row);
+			}
+
+			let byChannel = providerActivity.get(row.payload.providerName);
+			if (!byChannel) {
+				byChannel = new Map();
+				providerActivity.set(row.payload.providerName, byChannel);
 			}
+			for (const channel of providerChannels) addRow(byChannel, channel, row);
 		}
-		if (removedCount > 0) {
-			await this.ctx.storage.put('publicationThreads', threads);
+
+		const items: ProviderChannelOutboxItem[] = [];
+		for (const [channel, rows] of mainActivity) {
+			const report = buildDigestReport(rows, options, this.env);
+			if (!isEmptyDigestReport(report)) {
+				items.push({ kind: 'digest', channel, report });
+			}
+		}
+		for (const [providerName, byChannel] of providerActivity) {
+			for (const [channel, rows] of byChannel) {
+				const report = buildDigestReport(rows, { ...options, providerName }, this.env);
+				if (!isEmptyDigestReport(report)) {
+					items.push({ kind: 'digest', channel, report });
+				}
+			}
+		}
+
+		this.enqueueProviderChannelOutboxItems(items, currentTime);
+		return items.length;
+	}
+
+	/**
+	 * Drops activity, verification latencies and releases older than ACTIVITY_RETENTION_DAYS (at least a week, so weekly
+	 * digests stay complete).
+	 * @returns the number of dropped activity rows
+	 */
+	prunePactActivity(): number {
+		const retentionDays = coerceInt(this.env.ACTIVITY_RETENTION_DAYS, 30, { min: 7 });
+		const cutoff = now() - retentionDays * DAY_MS;
+		deleteVerificationLatenciesBefore(this.ctx.storage.sql, cutoff);
+		deleteReleasesBefore(this.ctx.storage.sql, cutoff);
+		return deletePactActivityBefore(this.ctx.storage.sql, cutoff);
+	}
+
+	removePublicationThreadKeys(keys: string[]): number {
+		let removedCount = 0;
+		for (const key of keys) {
+			if (deletePublicationThread(this.ctx.storage.sql, key)) removedCount += 1;
 		}
 		return removedCount;
 	}
 
-	private async consolidateEvents(currentTime: number) {
-		const allEvents = await this.getEvents();
+	private consolidateEvents(currentTime: number) {
+		const eventRows = selectEvents(this.ctx.storage.sql);
+		const allEvents = this.groupEventsByBucket(eventRows);
 
 		// Use the current minute bucket as the target bucket
 		const currentMinute = getMinuteBucket(currentTime, this.env.MINUTE_BUCKET_MS);
@@ -425,46 +1180,18 @@ export class PactAggregator extends DurableObject<Env> {
 
 		// For each bucket (except current), find events with matching pacticipantVersionNumber
 		// but only if timestamp is younger than MAX_TIME_BEFORE_FLUSHING
-		const eventsToMove: { eventToMove: StoredPactEventData; fromBucket: string }[] = [];
-
-		for (const [bucketKey, eventList] of allEvents.entries()) {
-			if (bucketKey !== currentBucketKey) {
-				for (const event of eventList) {
-					if (recentVersionNumbers.has(event.pacticipantVersionNumber) && event.ts > currentTime - this.env.MAX_TIME_BEFORE_FLUSHING) {
-						eventsToMove.push({ eventToMove: event, fromBucket: bucketKey });
-					}
-				}
-			}
-		}
+		const eventsToMove = eventRows.filter(
+			({ bucketMinute, event }) =>
+				bucketMinute.toString() !== currentMinute &&
+				recentVersionNumbers.has(event.pacticipantVersionNumber) &&
+				event.ts > currentTime - this.env.MAX_TIME_BEFORE_FLUSHING,
+		);
 
 		if (eventsToMove.length > 0) {
 			console.log(`Moving ${eventsToMove.length} events to current bucket ${currentBucketKey}`);
-			this.moveEvents(eventsToMove, currentBucketKey, allEvents);
-			await this.setEvents(allEvents);
-		}
-	}
-
-	private moveEvents(
-		eventsToMove: { eventToMove: StoredPactEventData; fromBucket: string }[],
-		currentBucketKey: string,
-		allEvents: Map<string, StoredPactEventData[]>,
-	) {
-		// Move the collected events to the current bucket
-		for (const { eventToMove, fromBucket } of eventsToMove) {
-			// Remove from original bucket
-			const fromEventList = allEvents.get(fromBucket)!;
-			const eventIndexToMove = fromEventList.findIndex(
-				(e) => e.ts === eventToMove.ts && e.pacticipantVersionNumber === eventToMove.pacticipantVersionNumber,
-			);
-
-			// eventIndex should always be found
-			fromEventList.splice(eventIndexToMove, 1);
-
-			// Add to current bucket
-			if (!allEvents.has(currentBucketKey)) {
-				allEvents.set(currentBucketKey, []);
+			for (const { id } of eventsToMove) {
+				moveEventToBucket(this.ctx.storage.sql, id, parseInt(currentMinute));
 			}
-			allEvents.get(currentBucketKey)!.push(eventToMove);
 		}
 	}
 
@@ -491,46 +1218,181 @@ export class PactAggregator extends DurableObject<Env> {
 		return recentVersionNumbers;
 	}
 
-	private async getLastEventTime(): Promise<number> {
-		return (await this.ctx.storage.get('lastEventTime'))! || 0;
+	/**
+	 * Stores an event that is not a duplicate, as described for addEvent().
+	 */
+	private async storeEvent(eventData: PactEventData, outboxItems: ProviderChannelOutboxItem[], currentTime: number): Promise<void> {
+		const muteAction = getBranchFilterAction(this.env, eventData);
+		if (muteAction !== undefined) {
+			console.log(`Muting event on a filtered branch (${muteAction}) ${getEventFingerprint(eventData)}`);
+			setStat(this.ctx.storage.sql, MUTED_EVENT_STATS[muteAction], getStat(this.ctx.storage.sql, MUTED_EVENT_STATS[muteAction]) + 1);
+			if (muteAction === 'drop') return;
+		}
+
+		if (muteAction === undefined) {
+			const currentMinute = getMinuteBucket(currentTime, this.env.MINUTE_BUCKET_MS);
+			insertEvent(this.ctx.storage.sql, parseInt(currentMinute), {
+				...eventData,
+				ts: currentTime,
+			} as StoredPactEventData);
+		}
+		insertPactActivity(this.ctx.storage.sql, currentTime, eventData, getPactVersionFromPayload(eventData));
+		if (muteAction === 'store_only') {
+			this.setLastEventTime(currentTime);
+			return;
+		}
+
+		const verificationItems = isVerificationPayload(eventData)
+			? [
+					...this.recordVerificationStreak(eventData, currentTime),
+					...this.markFlakyPublicationThread(eventData, currentTime),
+					...this.recordVerificationLatency(eventData, currentTime),
+					...this.queueCommitAuthorMessage(eventData),
+				]
+			: [];
+
+		const items = [...outboxItems, ...verificationItems].filter(
+			(item) => muteAction !== 'skip_main_channel' || !(item.kind === 'verification_streak' && item.target === 'main_channel'),
+		);
+
+		this.setLastEventTime(currentTime);
+		this.enqueueProviderChannelOutboxItems(items, currentTime);
+		await this.scheduleFlushAlarm(currentTime);
 	}
 
-	private async setLastEventTime(time: number): Promise<void> {
-		await this.ctx.storage.put('lastEventTime', time);
+	/**
+	 * Checks the event fingerprint against the fingerprints recorded within the deduplication window.
+	 */
+	private isDuplicateEvent(eventData: PactEventData, currentTime: number): boolean {
+		const windowMs = this.getDeduplicationWindowMs();
+		if (windowMs === 0) return false;
+
+		const seenAt = selectEventFingerprintTime(this.ctx.storage.sql, getEventFingerprint(eventData));
+		return seenAt !== undefined && seenAt > currentTime - windowMs;
+	}
+
+	/**
+	 * Records the fingerprint of a stored event for isDuplicateEvent(). Expired fingerprints are pruned on every call.
+	 */
+	private recordEventFingerprint(eventData: PactEventData, currentTime: number): void {
+		const windowMs = this.getDeduplicationWindowMs();
+		if (windowMs === 0) return;
+
+		deleteEventFingerprintsBefore(this.ctx.storage.sql, currentTime - windowMs);
+		upsertEventFingerprint(this.ctx.storage.sql, getEventFingerprint(eventData), currentTime);
+	}
+
+	private getDeduplicationWindowMs(): number {
+		return coerceInt(this.env.DEDUPLICATION_WINDOW_MS, 60 * 60 * 1000, { min: 0 });
+	}
+
+	/**
+	 * Sets the alarm to the earliest time a pending event becomes publishable (its bucket closed and its quiet period over),
+	 * moved to the next publishing time of the main channel's schedule, unless an earlier alarm is already set.
+	 * Events that are publishable already but still pending (e.g. after a failed Slack post) are retried one bucket later
+	 * rather than in a tight loop.
+	 */
+	private async scheduleFlushAlarm(currentTime: number): Promise<void> {
+		if (!isPublishAlarmEnabled(this.env)) return;
+
+		const eventRows = selectEvents(this.ctx.storage.sql);
+		if (eventRows.length === 0) return;
+
+		const bucketMs = this.env.MINUTE_BUCKET_MS;
+		const flushAt = Math.min(
+			...eventRows.map(({ bucketMinute, event }) => Math.max((bucketMinute + 1) * bucketMs, event.ts + this.env.QUIET_PERIOD_MS)),
+		);
+		const { schedule } = getPublishingSchedule(this.env);
+		const alarmAt = getNextPublishingTime(
+			getPublishingWindow(schedule, this.env.SLACK_CHANNEL),
+			flushAt > currentTime ? flushAt : currentTime + bucketMs,
+		);
+
+		const scheduledAt = await this.ctx.storage.getAlarm();
+		if (scheduledAt === null || scheduledAt > alarmAt) {
+			await this.ctx.storage.setAlarm(alarmAt);
+		}
+	}
+
+	private getLastEventTime(): number {
+		return getStat(this.ctx.storage.sql, 'lastEventTime');
 	}
 
-	private async getLastProcessTime(): Promise<number> {
-		return (await this.ctx.storage.get('lastProcessTime'))! || 0;
+	private setLastEventTime(time: number): void {
+		setStat(this.ctx.storage.sql, 'lastEventTime', time);
 	}
 
-	private async setLastProcessTime(time: number): Promise<void> {
-		await this.ctx.storage.put('lastProcessTime', time);
+	private getLastProcessTime(): number {
+		return getStat(this.ctx.storage.sql, 'lastProcessTime');
 	}
 
-	private async getEvents(): Promise<Map<string, StoredPactEventData[]>> {
-		const storedEvents = (await this.ctx.storage.get('events'))!;
-		return storedEvents ? new Map(Object.entries(storedEvents)) : new Map();
+	private setLastProcessTime(time: number): void {
+		setStat(this.ctx.storage.sql, 'lastProcessTime', time);
 	}
 
-	private async setEvents(events: Map<string, StoredPactEventData[]>): Promise<void> {
-		await this.ctx.storage.put('events', Object.fromEntries(events));
+	private getEvents(): Map<string, StoredPactEventData[]> {
+		return this.groupEventsByBucket(selectEvents(this.ctx.storage.sql));
 	}
 
-	private async getProcessingStats(): Promise<{ totalProcessed: number; lastProcessedCount: number }> {
-		const totalProcessed: number = (await this.ctx.storage.get('totalProcessed'))! || 0;
-		const lastProcessedCount: number = (await this.ctx.storage.get('lastProcessedCount'))! || 0;
+	private groupEventsByBucket(eventRows: StoredEventRow[]): Map<string, StoredPactEventData[]> {
+		const events = new Map<string, StoredPactEventData[]>();
+		for (const { bucketMinute, event } of eventRows) {
+			const bucketKey = this.createBucketKey(bucketMinute.toString());
+			events.set(bucketKey, [...(events.get(bucketKey) ?? []), event]);
+		}
+		return events;
+	}
+
+	private getProcessingStats(): { totalProcessed: number; lastProcessedCount: number } {
+		const totalProcessed = getStat(this.ctx.storage.sql, 'totalProcessed');
+		const lastProcessedCount = getStat(this.ctx.storage.sql, 'lastProcessedCount');
 		return { totalProcessed, lastProcessedCount };
 	}
 
-	private async updateProcessingStats(processedCount: number): Promise<void> {
-		const currentTotal: number = (await this.ctx.storage.get('totalProcessed'))! || 0;
-		await this.ctx.storage.put('totalProcessed', currentTotal + processedCount);
-		await this.ctx.storage.put('lastProcessedCount', processedCount);
+	private updateProcessingStats(processedCount: number): void {
+		const currentTotal = getStat(this.ctx.storage.sql, 'totalProcessed');
+		setStat(this.ctx.storage.sql, 'totalProcessed', currentTotal + processedCount);
+		setStat(this.ctx.storage.sql, 'lastProcessedCount', processedCount);
+	}
+
+	private async getPactEnrichmentCache(): Promise<Record<string, CachedPactEnrichment | undefined>> {
+		return (await this.ctx.storage.get('pactEnrichments')) ?? {};
 	}
 
-	private async getAllPublicationThreads(): Promise<Record<string, PublicationThreadInfo | undefined>> {
-		const threads: Record<string, PublicationThreadInfo | undefined> = (await this.ctx.storage.get('publicationThreads')) ?? {};
-		return threads;
+	private getPactEnrichmentCacheTtlMs(): number {
+		return coerceInt(this.env.PACT_BROKER_CACHE_TTL_MS, DAY_MS, { min: 0 });
+	}
+
+	/**
+	 * Deletes the events of a pacticipant version group from the given buckets and returns them.
+	 */
+	private takeGroupEvents(bucketKeys: string[], groupKey: string): StoredPactEventData[] {
+		const taken: StoredPactEventData[] = [];
+		for (const bucketKey of bucketKeys) {
+			for (const { id, event } of selectEventsInBucket(this.ctx.storage.sql, this.getMinuteFromBucketKey(bucketKey))) {
+				if (getEventGroupKey(event) !== groupKey) continue;
+				deleteEvent(this.ctx.storage.sql, id);
+				taken.push(event);
+			}
+		}
+		return taken;
+	}
+
+	private enqueueProviderChannelOutboxItems(items: ProviderChannelOutboxItem[], currentTime: number): void {
+		if (items.length === 0) return;
+		let seq = getStat(this.ctx.storage.sql, 'providerChannelOutboxSeq');
+		for (const item of items) {
+			seq += 1;
+			upsertOutboxEntry(this.ctx.storage.sql, {
+				...item,
+				id: seq.toString(),
+				seq,
+				enqueuedAt: currentTime,
+				availableAt: currentTime,
+				attempts: 0,
+			});
+		}
+		setStat(this.ctx.storage.sql, 'providerChannelOutboxSeq', seq);
 	}
 
 	/**
@@ -0,0 +1,224 @@
+import { coerceInt } from './utils';
+import type { CanIDeployResult, PactEnrichment } from './types';
+
+// Minimal environment interface for the Pact Broker API client
+export interface PactBrokerEnv {
+	/**
+	 * Base URL of the Pact Broker, e.g. https://pact-broker.example.com. Leave empty to disable broker lookups.
+	 * Credentials are only ever sent to URLs under this base URL.
+	 */
+	PACT_BROKER_BASE_URL?: string;
+	PACT_BROKER_TOKEN?: string;
+	PACT_BROKER_USERNAME?: string;
+	PACT_BROKER_PASSWORD?: string;
+	PACT_BROKER_TIMEOUT_MS?: number | string;
+}
+
+// Longer diffs are cut, so cached enrichments stay small and the thread message stays within Slack's limits
+const PACT_DIFF_MAX_LENGTH = 1500;
+
+interface HalLink {
+	href: string;
+}
+
+interface PactInteraction {
+	key?: string;
+	description?: string;
+	providerState?: string;
+	providerStates?: { name?: string }[];
+}
+
+/**
+ * The parts of a pact document (as served by the Pact Broker) that we use.
+ * Message pacts list their interactions under `messages`.
+ */
+export interface PactDocument {
+	interactions?: PactInteraction[];
+	messages?: PactInteraction[];
+	_links?: Record<string, HalLink | HalLink[] | undefined>;
+}
+
+interface VerificationResult {
+	success?: boolean;
+}
+
+interface MatrixResponse {
+	summary?: {
+		deployable?: boolean | null;
+		reason?: string;
+	};
+}
+
+export class PactBrokerError extends Error {
+	constructor(
+		message: string,
+		readonly status?: number,
+	) {
+		super(message);
+		this.name = 'PactBrokerError';
+	}
+}
+
+export function isPactBrokerConfigured(env: PactBrokerEnv): boolean {
+	return getBaseUrl(env) !== '';
+}
+
+/**
+ * Fetches the pact document for a pact URL taken from a webhook payload.
+ * The `/metadata/...` suffix the broker appends to webhook pact URLs is dropped.
+ */
+export async function fetchPactDocument(env: PactBrokerEnv, pactUrl: string): Promise<PactDocument> {
+	return (await brokerGet(env, pactUrl.replace(/\/metadata\/.*$/, ''))).json();
+}
+
+/**
+ * Fetches the previous distinct version of a pact, or undefined when this is the first version.
+ */
+export async function fetchPreviousDistinctPactDocument(env: PactBrokerEnv, pact: PactDocument): Promise<PactDocument | undefined> {
+	const href = getLinkHref(pact, 'pb:previous-distinct');
+	if (!href) return undefined;
+	try {
+		return await (await brokerGet(env, href)).json();
+	} catch (err) {
+		if (err instanceof PactBrokerError && err.status === 404) return undefined;
+		throw err;
+	}
+}
+
+/**
+ * Fetches the "diff with previous distinct version" of a pact as rendered by the broker (plain text),
+ * or undefined when the broker has none.
+ */
+export async function fetchPactDiffWithPreviousDistinct(env: PactBrokerEnv, pact: PactDocument): Promise<string | undefined> {
+	const href = getLinkHref(pact, 'pb:diff-previous-distinct');
+	if (!href) return undefined;
+	try {
+		return await (await brokerGet(env, href, 'text/plain')).text();
+	} catch (err) {
+		if (err instanceof PactBrokerError && err.status === 404) return undefined;
+		throw err;
+	}
+}
+
+/**
+ * Returns the success flag of the latest verification of a pact, or undefined when it was never verified.
+ */
+export async function fetchLatestVerificationSuccess(env: PactBrokerEnv, pact: PactDocument): Promise<boolean | undefined> {
+	const href = getLinkHref(pact, 'pb:latest-verification-results');
+	if (!href) return undefined;
+	try {
+		const result: VerificationResult = await (await brokerGet(env, href)).json();
+		return result.success;
+	} catch (err) {
+		if (err instanceof PactBrokerError && err.status === 404) return undefined;
+		throw err;
+	}
+}
+
+export function getInteractionCount(pact: PactDocument): number {
+	return getInteractions(pact).length;
+}
+
+/**
+ * Compares the interactions of two pact versions by their identity (description and provider states).
+ */
+export function compareInteractions(current: PactDocument, previous: PactDocument): { added: number; removed: number } {
+	const currentKeys = new Set(getInteractions(current).map(getInteractionKey));
+	const previousKeys = new Set(getInteractions(previous).map(getInteractionKey));
+	const added = [...currentKeys].filter((k) => !previousKeys.has(k)).length;
+	const removed = [...previousKeys].filter((k) => !currentKeys.has(k)).length;
+	return { added, removed };
+}
+
+/**
+ * Looks up everything we show about a pact version: its interaction count, the interaction changes and the diff
+ * compared to the previous distinct version, and that version's latest verification result.
+ * Throws on broker errors; callers decide whether to post without enrichment.
+ */
+export async function fetchPactEnrichment(env: PactBrokerEnv, pactUrl: string): Promise<PactEnrichment> {
+	const pact = await fetchPactDocument(env, pactUrl);
+	const enrichment: PactEnrichment = { interactionCount: getInteractionCount(pact) };
+
+	const previous = await fetchPreviousDistinctPactDocument(env, pact);
+	if (previous) {
+		const { added, removed } = compareInteractions(pact, previous);
+		enrichment.interactionsAdded = added;
+		enrichment.interactionsRemoved = removed;
+		enrichment.previousVerificationSuccess = await fetchLatestVerificationSuccess(env, previous);
+		const diff = (await fetchPactDiffWithPreviousDistinct(env, pact))?.trim();
+		if (diff) {
+			enrichment.diff = diff.length > PACT_DIFF_MAX_LENGTH ? `${diff.slice(0, PACT_DIFF_MAX_LENGTH)}\n…` : diff;
+		}
+	}
+	return enrichment;
+}
+
+/**
+ * Asks the Pact Broker matrix whether a pacticipant version can be deployed to an environment
+ * (the same query `pact-broker can-i-deploy --pacticipant P --version V --to-environment E` runs).
+ */
+export async function fetchCanIDeploy(
+	env: PactBrokerEnv,
+	pacticipant: string,
+	version: string,
+	environment: string,
+): Promise<CanIDeployResult> {
+	const query = new URLSearchParams([
+		['q[][pacticipant]', pacticipant],
+		['q[][version]', version],
+		['latestby', 'cvp'],
+		['environment', environment],
+	]);
+	const matrix: MatrixResponse = await (await brokerGet(env, `${getBaseUrl(env)}/matrix?${query.toString()}`)).json();
+	return { environment, deployable: matrix.summary?.deployable ?? null, reason: matrix.summary?.reason };
+}
+
+async function brokerGet(env: PactBrokerEnv, url: string, accept = 'application/hal+json'): Promise<Response> {
+	const baseUrl = getBaseUrl(env);
+	if (!baseUrl) {
+		throw new PactBrokerError('PACT_BROKER_BASE_URL is not configured');
+	}
+	if (!url.startsWith(`${baseUrl}/`)) {
+		throw new PactBrokerError(`Refusing to send broker credentials to ${url}: not under ${baseUrl}`);
+	}
+
+	const timeoutMs = coerceInt(env.PACT_BROKER_TIMEOUT_MS, 5000, { min: 1 });
+	const res = await fetch(url, {
+		method: 'GET',
+		headers: { Accept: accept, ...createAuthHeaders(env) },
+		signal: AbortSignal.timeout(timeoutMs),
+	});
+	if (!res.ok) {
+		throw new PactBrokerError(`Pact Broker request failed: GET ${url} -> ${res.status}`, res.status);
+	}
+	return res;
+}
+
+function createAuthHeaders(env: PactBrokerEnv): Record<string, string> {
+	if (env.PACT_BROKER_TOKEN) {
+		return { Authorization: `Bearer ${env.PACT_BROKER_TOKEN}` };
+	}
+	if (env.PACT_BROKER_USERNAME) {
+		return { Authorization: `Basic ${btoa(`${env.PACT_BROKER_USERNAME}:${env.PACT_BROKER_PASSWORD ?? ''}`)}` };
+	}
+	return {};
+}
+
+function getBaseUrl(env: PactBrokerEnv): string {
+	return (env.PACT_BROKER_BASE_URL ?? '').trim().replace(/\/+$/, '');
+}
+
+function getLinkHref(pact: PactDocument, rel: string): string | undefined {
+	const link = pact._links?.[rel];
+	return Array.isArray(link) ? link[0]?.href : link?.href;
+}
+
+function getInteractions(pact: PactDocument): PactInteraction[] {
+	return [...(pact.interactions ?? []), ...(pact.messages ?? [])];
+}
+
+function getInteractionKey(interaction: PactInteraction): string {
+	if (interaction.key) return interaction.key;
+	const states = interaction.providerStates?.map((s) => s.name ?? '') ?? (interaction.providerState ? [interaction.providerState] : []);
+	return `${interaction.description ?? ''}|${states.join('|')}`;
+}
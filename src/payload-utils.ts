@@ -1,5 +1,20 @@
-import { PROVIDER_VERIFICATION_PUBLISHED, CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from './constants';
-import type { BasePactWebhookPayload, PactWebhookPayload, PactEventData } from './types';
+import {
+	VERIFICATION_EVENT_TYPES,
+	PUBLICATION_EVENT_TYPES,
+	DEPLOYMENT_EVENT_TYPES,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+} from './constants';
+import type {
+	PactWebhookPayload,
+	PactEventData,
+	ProviderVerificationPayload,
+	ContractPublicationPayload,
+	VerificationEventType,
+	PublicationEventType,
+	DeploymentEventType,
+	DeploymentWebhookPayload,
+	WebhookPayload,
+} from './types';
 
 export function getEventDataFromPayload(rawPayload: PactWebhookPayload): PactEventData {
 	return {
@@ -9,15 +24,73 @@ export function getEventDataFromPayload(rawPayload: PactWebhookPayload): PactEve
 	} as PactEventData;
 }
 
+/**
+ * Main channel messages are posted per pacticipant version: events with the same group key share a summary.
+ */
+export function getEventGroupKey(eventData: PactEventData): string {
+	return `${eventData.pacticipant}:${eventData.pacticipantVersionNumber}`;
+}
+
+/**
+ * Returns true for every verification event type (published, succeeded, failed).
+ */
+export function isVerificationPayload<T extends PactWebhookPayload>(payload: T): payload is T & ProviderVerificationPayload {
+	return (VERIFICATION_EVENT_TYPES as readonly string[]).includes(payload.eventType);
+}
+
+/**
+ * Returns true for every pact publication event type (requiring verification, published, content changed).
+ */
+export function isPublicationPayload<T extends PactWebhookPayload>(payload: T): payload is T & ContractPublicationPayload {
+	return (PUBLICATION_EVENT_TYPES as readonly string[]).includes(payload.eventType);
+}
+
+export function isVerificationEventType(eventType: unknown): eventType is VerificationEventType {
+	return (VERIFICATION_EVENT_TYPES as readonly unknown[]).includes(eventType);
+}
+
+export function isPublicationEventType(eventType: unknown): eventType is PublicationEventType {
+	return (PUBLICATION_EVENT_TYPES as readonly unknown[]).includes(eventType);
+}
+
+/**
+ * Returns true for deployment and release events (posted from CI, not by the Pact Broker).
+ */
+export function isDeploymentPayload(payload: WebhookPayload): payload is DeploymentWebhookPayload {
+	return isDeploymentEventType(payload.eventType);
+}
+
+export function isDeploymentEventType(eventType: unknown): eventType is DeploymentEventType {
+	return (DEPLOYMENT_EVENT_TYPES as readonly unknown[]).includes(eventType);
+}
+
 export function getPactVersionFromPayload(pub: PactWebhookPayload) {
 	// Pick source URL based on event type
-	const sourceUrl = pub.eventType === PROVIDER_VERIFICATION_PUBLISHED ? pub.verificationResultUrl : pub.pactUrl;
+	const sourceUrl = isVerificationPayload(pub) ? pub.verificationResultUrl : pub.pactUrl;
 
 	// Extract the segment after /pact-version/ up to the next slash (if any)
 	const match = /\/pact-version\/([^/]+)/.exec(sourceUrl);
 	return match ? match[1] : undefined;
 }
 
+/**
+ * Returns a stable fingerprint identifying a webhook delivery, used to detect Pact Broker retries.
+ *
+ * - verifications: the verification result URL (unique per verification)
+ * - publications: the pact URL plus the consumer version number
+ *   (and the provider version for contract_requiring_verification_published)
+ */
+export function getEventFingerprint(payload: PactWebhookPayload): string {
+	// All verification event types share the result URL, so a verification is only stored once
+	// even when several verification webhooks are configured for it.
+	if (isVerificationPayload(payload)) {
+		return `verification|${payload.verificationResultUrl}`;
+	}
+	// contract_requiring_verification_published is sent once per provider version that needs to verify the pact
+	const providerVersion = payload.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED ? `|${payload.providerVersionNumber}` : '';
+	return `${payload.eventType}|${payload.pactUrl}|${payload.consumerVersionNumber}${providerVersion}`;
+}
+
 /**
  * Returns the Slack channel name for the payload passed.
  * The name is built using the PROVIDER_CHANNEL_PREFIX environment variable and the provider name from the payload.
@@ -28,27 +101,17 @@ export function getPactVersionFromPayload(pub: PactWebhookPayload) {
  * @param rawPayload
  * @returns
  */
-export function getProviderSlackChannel(env: Env, rawPayload: PactWebhookPayload) {
+export function getProviderSlackChannel(env: { PROVIDER_CHANNEL_PREFIX?: string }, rawPayload: PactWebhookPayload) {
 	const basePrefix = env.PROVIDER_CHANNEL_PREFIX ?? '#pact-';
 	const normalizedPrefix = basePrefix.startsWith('#') ? basePrefix : `#${basePrefix}`;
 	const providerSlackChannel = `${normalizedPrefix}${rawPayload.providerName}`;
 	return providerSlackChannel;
 }
 
-function getPacticipant(payload: BasePactWebhookPayload): string {
-	switch (payload.eventType) {
-		case PROVIDER_VERIFICATION_PUBLISHED:
-			return payload.providerName;
-		case CONTRACT_REQUIRING_VERIFICATION_PUBLISHED:
-			return payload.consumerName;
-	}
+function getPacticipant(payload: PactWebhookPayload): string {
+	return isVerificationPayload(payload) ? payload.providerName : payload.consumerName;
 }
 
-function getPacticipantVersionNumber(payload: BasePactWebhookPayload): string {
-	switch (payload.eventType) {
-		case PROVIDER_VERIFICATION_PUBLISHED:
-			return payload.providerVersionNumber;
-		case CONTRACT_REQUIRING_VERIFICATION_PUBLISHED:
-			return payload.consumerVersionNumber;
-	}
+function getPacticipantVersionNumber(payload: PactWebhookPayload): string {
+	return isVerificationPayload(payload) ? payload.providerVersionNumber : payload.consumerVersionNumber;
 }
@@ -0,0 +1,117 @@
+import {
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PROVIDER_VERIFICATION_FAILED,
+	VERIFICATION_EVENT_TYPES,
+	PUBLICATION_EVENT_TYPES,
+	DEPLOYMENT_EVENT_TYPES,
+} from './constants';
+import { isDeploymentEventType, isPublicationEventType, isVerificationEventType } from './payload-utils';
+import type { WebhookPayload, PayloadFieldError, PayloadValidationResult } from './types';
+
+// Matches Pact Broker template variables the broker did not render, e.g. "${pactbroker.consumerName}"
+const UNRENDERED_PLACEHOLDER_REGEX = /\$\{pactbroker\.[^}]*\}/;
+
+const BASE_REQUIRED_FIELDS = ['providerName', 'consumerName', 'consumerVersionNumber'] as const;
+const BASE_OPTIONAL_FIELDS = ['consumerVersionBranch', 'providerVersionBranch', 'providerVersionNumber'] as const;
+const DEPLOYMENT_REQUIRED_FIELDS = ['pacticipantName', 'pacticipantVersionNumber', 'environmentName'] as const;
+
+/**
+ * Validates a parsed webhook body against the payload shape expected for its event type.
+ * All field errors are collected (not just the first one) so callers can report them in a single response.
+ *
+ * Branch and provider version fields may be empty strings since the Pact Broker renders missing values as ''.
+ * For provider_verification_succeeded/failed a missing githubVerificationStatus is filled in from the event type.
+ * Deployment and release events only carry the pacticipant, its version and the environment.
+ *
+ * @param raw the parsed JSON body of the webhook request
+ * @returns the typed payload when valid, otherwise the list of field errors
+ */
+export function validatePactWebhookPayload(raw: unknown): PayloadValidationResult {
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		return { ok: false, errors: [{ field: '', code: 'invalid_type', message: 'Payload must be a JSON object' }] };
+	}
+
+	let body = raw as Record<string, unknown>;
+	const errors: PayloadFieldError[] = [];
+
+	if (isDeploymentEventType(body.eventType)) {
+		for (const field of DEPLOYMENT_REQUIRED_FIELDS) {
+			checkStringField(body, field, true, errors);
+		}
+		return errors.length > 0 ? { ok: false, errors } : { ok: true, payload: body as unknown as WebhookPayload };
+	}
+
+	for (const field of BASE_REQUIRED_FIELDS) {
+		checkStringField(body, field, true, errors);
+	}
+	for (const field of BASE_OPTIONAL_FIELDS) {
+		checkStringField(body, field, false, errors);
+	}
+
+	if (isVerificationEventType(body.eventType)) {
+		// provider_verification_succeeded/failed imply the status, so the template may omit it
+		const impliedStatus = getImpliedVerificationStatus(body.eventType);
+		if (impliedStatus && (body.githubVerificationStatus === undefined || body.githubVerificationStatus === '')) {
+			body = { ...body, githubVerificationStatus: impliedStatus };
+		}
+		checkStringField(body, 'githubVerificationStatus', true, errors);
+		checkPactVersionUrlField(body, 'verificationResultUrl', errors);
+	} else if (isPublicationEventType(body.eventType)) {
+		checkPactVersionUrlField(body, 'pactUrl', errors);
+		if (body.eventType === CONTRACT_REQUIRING_VERIFICATION_PUBLISHED && body.providerVersionDescriptions !== undefined) {
+			checkStringField(body, 'providerVersionDescriptions', false, errors);
+		}
+	} else {
+		errors.push({
+			field: 'eventType',
+			code: body.eventType === undefined ? 'missing' : 'unsupported_event_type',
+			message: `eventType must be one of: ${[...VERIFICATION_EVENT_TYPES, ...PUBLICATION_EVENT_TYPES, ...DEPLOYMENT_EVENT_TYPES].join(', ')}`,
+		});
+	}
+
+	if (errors.length > 0) {
+		return { ok: false, errors };
+	}
+	return { ok: true, payload: body as unknown as WebhookPayload };
+}
+
+function getImpliedVerificationStatus(eventType: string): string | undefined {
+	if (eventType === PROVIDER_VERIFICATION_SUCCEEDED) return 'success';
+	if (eventType === PROVIDER_VERIFICATION_FAILED) return 'failure';
+	return undefined;
+}
+
+function checkStringField(body: Record<string, unknown>, field: string, required: boolean, errors: PayloadFieldError[]): boolean {
+	const value = body[field];
+	if (value === undefined || value === null) {
+		errors.push({ field, code: 'missing', message: `${field} is required` });
+		return false;
+	}
+	if (typeof value !== 'string') {
+		errors.push({ field, code: 'invalid_type', message: `${field} must be a string` });
+		return false;
+	}
+	if (UNRENDERED_PLACEHOLDER_REGEX.test(value)) {
+		errors.push({ field, code: 'unrendered_placeholder', message: `${field} contains an unrendered Pact Broker placeholder: ${value}` });
+		return false;
+	}
+	if (required && value.trim() === '') {
+		errors.push({ field, code: 'empty', message: `${field} must not be empty` });
+		return false;
+	}
+	return true;
+}
+
+function checkPactVersionUrlField(body: Record<string, unknown>, field: string, errors: PayloadFieldError[]) {
+	if (!checkStringField(body, field, true, errors)) return;
+
+	const value = body[field] as string;
+	if (!/^https?:\/\//.test(value)) {
+		errors.push({ field, code: 'invalid_url', message: `${field} must be an absolute http(s) URL` });
+		return;
+	}
+	if (!/\/pact-version\/[^/]+/.test(value)) {
+		errors.push({ field, code: 'missing_pact_version', message: `${field} must contain a /pact-version/ segment` });
+	}
+}
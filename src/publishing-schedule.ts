@@ -0,0 +1,238 @@
+import { MINUTE_MS } from './constants';
+import { cacheConfigParser, isPlainObject, parseJsonConfig } from './utils';
+import type { PublishingSchedule, PublishingWindow } from './types';
+
+// Minimal environment interface for the publishing schedule
+export interface PublishingScheduleEnv {
+	/**
+	 * Declarative schedule (object or JSON string). Fields left out keep the defaults, which match the former
+	 * hard-coded behaviour: Monday to Friday 08:00-21:00, hourly off-hours and every 4 hours on other days.
+	 */
+	PUBLISHING_SCHEDULE?: unknown;
+	/**
+	 * Default timezone of the schedule
+	 */
+	TIMEZONE?: string;
+}
+
+export interface ParsedPublishingSchedule {
+	schedule: PublishingSchedule;
+	errors: string[];
+}
+
+interface LocalTime {
+	weekday: string;
+	date: string;
+	minuteOfDay: number;
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WINDOW_FIELDS = ['timezone', 'workingDays', 'workingHours', 'offHoursIntervalMinutes', 'weekendIntervalMinutes', 'holidays'];
+const MINUTES_PER_DAY = 24 * 60;
+const HOUR_RANGE_PATTERN = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const localTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the validated PUBLISHING_SCHEDULE. It is parsed once per isolate (and again if the config changes);
+ * problems are logged then, and the fields they affect keep their defaults.
+ */
+export const getPublishingSchedule = cacheConfigParser(
+	(env: PublishingScheduleEnv) => [env.PUBLISHING_SCHEDULE, env.TIMEZONE],
+	parsePublishingSchedule,
+	'Invalid publishing schedule, using the default instead',
+);
+
+export function parsePublishingSchedule(env: PublishingScheduleEnv): ParsedPublishingSchedule {
+	const errors: string[] = [];
+	let config = parseJsonConfig('PUBLISHING_SCHEDULE', env.PUBLISHING_SCHEDULE, errors);
+	if (config !== undefined && config !== null && !isPlainObject(config)) {
+		errors.push('PUBLISHING_SCHEDULE: expected an object');
+		config = undefined;
+	}
+
+	const fields = (config ?? {}) as Record<string, unknown>;
+	const defaults: PublishingWindow = {
+		timezone: env.TIMEZONE ?? 'UTC',
+		workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+		workingHours: ['08:00-21:00'],
+		offHoursIntervalMinutes: 60,
+		weekendIntervalMinutes: 240,
+		holidays: [],
+	};
+	const window = parseWindow(fields, defaults, 'PUBLISHING_SCHEDULE', errors, ['channels']);
+
+	const channels: Record<string, PublishingWindow> = {};
+	if (fields.channels !== undefined) {
+		if (isPlainObject(fields.channels)) {
+			for (const [channel, override] of Object.entries(fields.channels)) {
+				const path = `PUBLISHING_SCHEDULE.channels.${channel}`;
+				if (isPlainObject(override)) {
+					channels[channel] = parseWindow(override, window, path, errors, []);
+				} else {
+					errors.push(`${path}: expected an object`);
+				}
+			}
+		} else {
+			errors.push('PUBLISHING_SCHEDULE.channels: expected an object of channel overrides');
+		}
+	}
+
+	return { schedule: { ...window, channels }, errors };
+}
+
+/**
+ * Returns the window of a channel: its override, or the schedule itself when it has none.
+ */
+export function getPublishingWindow(schedule: PublishingSchedule, channel: string): PublishingWindow {
+	return schedule.channels[channel] ?? schedule;
+}
+
+export function hasChannelOverride(schedule: PublishingSchedule, channel: string): boolean {
+	return channel in schedule.channels;
+}
+
+export function isPublishingTime(window: PublishingWindow, time: number): boolean {
+	const local = getLocalTime(time, window.timezone);
+	const isWorkingDay = window.workingDays.includes(local.weekday) && !window.holidays.includes(local.date);
+	if (isWorkingDay && window.workingHours.some((range) => isWithinHourRange(range, local.minuteOfDay))) {
+		return true;
+	}
+	const intervalMinutes = isWorkingDay ? window.offHoursIntervalMinutes : window.weekendIntervalMinutes;
+	return local.minuteOfDay % intervalMinutes === 0;
+}
+
+/**
+ * Returns `time` when publishing is allowed then, otherwise the start of the next minute in which it is.
+ */
+export function getNextPublishingTime(window: PublishingWindow, time: number): number {
+	if (isPublishingTime(window, time)) return time;
+	let candidate = Math.floor(time / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+	// Midnight is always a publishing time, so this ends within a day
+	for (let i = 0; i < MINUTES_PER_DAY && !isPublishingTime(window, candidate); i++) {
+		candidate += MINUTE_MS;
+	}
+	return candidate;
+}
+
+function parseWindow(
+	fields: Record<string, unknown>,
+	defaults: PublishingWindow,
+	path: string,
+	errors: string[],
+	otherFields: string[],
+): PublishingWindow {
+	for (const field of Object.keys(fields)) {
+		if (!WINDOW_FIELDS.includes(field) && !otherFields.includes(field)) {
+			errors.push(`${path}.${field}: unknown field`);
+		}
+	}
+
+	const window = { ...defaults };
+	const check = (field: string, valid: boolean, expected: string) => {
+		if (!valid) errors.push(`${path}.${field}: expected ${expected}`);
+		return valid;
+	};
+
+	const { timezone, workingDays, workingHours, offHoursIntervalMinutes, weekendIntervalMinutes, holidays } = fields;
+	if (timezone !== undefined && check('timezone', isValidTimezone(timezone), 'an IANA timezone such as "Europe/Athens"')) {
+		window.timezone = timezone as string;
+	}
+	if (
+		workingDays !== undefined &&
+		check(
+			'workingDays',
+			isStringArray(workingDays) && workingDays.every((d) => WEEKDAYS.includes(d.toLowerCase())),
+			'day names such as ["mon", "tue"]',
+		)
+	) {
+		window.workingDays = (workingDays as string[]).map((d) => d.toLowerCase());
+	}
+	if (
+		workingHours !== undefined &&
+		check('workingHours', isStringArray(workingHours) && workingHours.every(isValidHourRange), 'hour ranges such as ["08:00-21:00"]')
+	) {
+		window.workingHours = workingHours as string[];
+	}
+	if (
+		offHoursIntervalMinutes !== undefined &&
+		check('offHoursIntervalMinutes', isValidInterval(offHoursIntervalMinutes), 'whole minutes from 1 to 1440')
+	) {
+		window.offHoursIntervalMinutes = offHoursIntervalMinutes as number;
+	}
+	if (
+		weekendIntervalMinutes !== undefined &&
+		check('weekendIntervalMinutes', isValidInterval(weekendIntervalMinutes), 'whole minutes from 1 to 1440')
+	) {
+		window.weekendIntervalMinutes = weekendIntervalMinutes as number;
+	}
+	if (holidays !== undefined && check('holidays', isStringArray(holidays) && holidays.every(isValidDate), 'dates such as ["2025-12-25"]')) {
+		window.holidays = holidays as string[];
+	}
+	return window;
+}
+
+function getLocalTime(time: number, timezone: string): LocalTime {
+	let format = localTimeFormats.get(timezone);
+	if (!format) {
+		format = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			weekday: 'short',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+		});
+		localTimeFormats.set(timezone, format);
+	}
+	const parts = Object.fromEntries(format.formatToParts(new Date(time)).map((part) => [part.type, part.value]));
+	return {
+		weekday: (parts.weekday ?? '').toLowerCase(),
+		date: `${parts.year}-${parts.month}-${parts.day}`,
+		minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+	};
+}
+
+function isWithinHourRange(range: string, minuteOfDay: number): boolean {
+	const [start, end] = parseHourRange(range);
+	return minuteOfDay >= start && minuteOfDay < end;
+}
+
+function parseHourRange(range: string): [number, number] {
+	const [, startHour, startMinute, endHour, endMinute] = HOUR_RANGE_PATTERN.exec(range) ?? [];
+	return [Number(startHour) * 60 + Number(startMinute), Number(endHour) * 60 + Number(endMinute)];
+}
+
+function isValidHourRange(range: string): boolean {
+	const match = HOUR_RANGE_PATTERN.exec(range);
+	if (!match || Number(match[2]) > 59 || Number(match[4]) > 59) return false;
+	const [start, end] = parseHourRange(range);
+	return start < end && end <= MINUTES_PER_DAY;
+}
+
+function isValidInterval(value: unknown): boolean {
+	return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MINUTES_PER_DAY;
+}
+
+function isValidDate(value: string): boolean {
+	if (!DATE_PATTERN.test(value)) return false;
+	const date = new Date(`${value}T00:00:00Z`);
+	return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isValidTimezone(value: unknown): boolean {
+	if (typeof value !== 'string' || value === '') return false;
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: value });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
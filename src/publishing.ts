@@ -0,0 +1,174 @@
+import type { PactEnrichment, StoredPactEventData } from './types';
+import { getEventGroupKey, isPublicationPayload, isVerificationPayload } from './payload-utils';
+import { fetchPactEnrichment, isPactBrokerConfigured } from './pact-broker-client';
+import { createSummaryAndDetailsMessages } from './messages';
+import { isBlockKitEnabled, limitBlocks } from './slack-blocks';
+import { postPacticipantEventsToSlack, SlackApiError } from './slack';
+import { getMainChannels } from './channel-router';
+
+// How long a publish run holds the peeked buckets; a run that crashes holds them back that long
+const PUBLISH_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Publishes the events of completed buckets to the main Slack channels (SLACK_CHANNEL, or as routed by CHANNEL_ROUTES).
+ * Runs from the Durable Object alarm, the publish cron (safety net) and /trigger; errors are logged, never thrown.
+ * Only one run publishes at a time: the others find the buckets leased and leave them to it.
+ */
+export async function processEventsForPublication(env: Env) {
+	try {
+		const aggregatorStub = getPactAggregatorStub(env);
+		const { events, bucketsToDelete, leaseUntil } = await aggregatorStub.peekEventsToPublish(PUBLISH_LEASE_MS);
+		if (leaseUntil === undefined) {
+			console.log('Another run is publishing the pending events; skipping');
+			return;
+		}
+
+		try {
+			if (events.length === 0) {
+				if (bucketsToDelete.length > 0) await aggregatorStub.ackPublishedBuckets(bucketsToDelete, 0);
+				return;
+			}
+
+			const publishedCount = await postMessagesForEventsToSlack(env, events, bucketsToDelete);
+			if (publishedCount > 0) {
+				await aggregatorStub.ackPublishedBuckets([], publishedCount);
+			}
+		} finally {
+			await aggregatorStub.releasePublishLease(leaseUntil);
+		}
+	} catch (err) {
+		// Do not delete events on publish errors; next cron/trigger will retry.
+		console.error('Failed to publish events to Slack; will retry later', err);
+	}
+}
+
+/**
+ * Posts one summary (and thread) per pacticipant version group and main channel, acknowledging every group on its own:
+ * a group that fails in any of its channels is retried on the next run (and dead-lettered after PUBLISH_MAX_ATTEMPTS failures,
+ * or right away on a permanent Slack error) without holding back the other groups. The channels it was posted to before
+ * the failure are recorded, so the retry does not post the same events there again.
+ * @returns the number of published events
+ */
+async function postMessagesForEventsToSlack(env: Env, events: StoredPactEventData[], bucketKeys: string[]): Promise<number> {
+	const aggregatorStub = getPactAggregatorStub(env);
+
+	// Group events by pacticipant version number
+	const grouped = events.reduce((acc: Record<string, StoredPactEventData[]>, e: StoredPactEventData) => {
+		const key = getEventGroupKey(e);
+		acc[key] = acc[key] || [];
+		acc[key].push(e);
+		return acc;
+	}, {});
+
+	const pactEnrichments = await loadPactEnrichments(env, events);
+
+	let publishedCount = 0;
+	for (const [key, pacticipantEvents] of Object.entries(grouped)) {
+		console.log(`Posting Slack message for ${key} with ${pacticipantEvents.length} events`);
+
+		const [pacticipant, pacticipantVersionNumber] = key.split(':');
+		try {
+			const publishedChannels = await aggregatorStub.getEventGroupPublishedChannels(key);
+			for (const [channel, routedEvents] of groupEventsByMainChannel(env, pacticipantEvents)) {
+				// A retry after a failure in another channel only posts what this channel did not get yet
+				const publishedTs = new Set(publishedChannels[channel] ?? []);
+				const channelEvents = routedEvents.filter((e) => !publishedTs.has(e.ts));
+				if (channelEvents.length === 0) continue;
+
+				const verifications = channelEvents.filter((e) => isVerificationPayload(e));
+				const owners = await aggregatorStub.getOwnerMentions(verifications, channel);
+				const { summaryText, detailsList, summaryBlocks, detailsBlocks } = createSummaryAndDetailsMessages(
+					env,
+					pacticipant,
+					pacticipantVersionNumber,
+					channelEvents,
+					pactEnrichments,
+					owners,
+				);
+				const blocks = isBlockKitEnabled(env) ? { summary: limitBlocks(summaryBlocks), details: limitBlocks(detailsBlocks) } : undefined;
+				await postPacticipantEventsToSlack({ ...env, SLACK_CHANNEL: channel }, summaryText, detailsList, blocks);
+				await aggregatorStub.recordOwnerMentions(verifications, channel, owners);
+				await aggregatorStub.recordEventGroupChannelPublished(
+					key,
+					channel,
+					channelEvents.map((e) => e.ts),
+				);
+			}
+		} catch (err) {
+			const error = err instanceof Error ? err.message : 'unknown_error';
+			// Errors other than Slack's own (network, Durable Object) are assumed to be transient
+			const retryable = !(err instanceof SlackApiError) || err.retryable;
+			const { attempts, deadLettered } = await aggregatorStub.recordEventGroupPublishFailure(bucketKeys, key, error, retryable);
+			console.error(
+				deadLettered
+					? `Failed to publish ${key} ${attempts} times; moved its events to the dead-letter store`
+					: `Failed to publish ${key} (attempt ${attempts}); will retry later`,
+				err,
+			);
+			continue;
+		}
+		publishedCount += await aggregatorStub.ackPublishedEventGroup(bucketKeys, key);
+	}
+	return publishedCount;
+}
+
+function groupEventsByMainChannel(env: Env, events: StoredPactEventData[]): Map<string, StoredPactEventData[]> {
+	const byChannel = new Map<string, StoredPactEventData[]>();
+	for (const e of events) {
+		for (const channel of getMainChannels(env, e)) {
+			byChannel.set(channel, [...(byChannel.get(channel) ?? []), e]);
+		}
+	}
+	return byChannel;
+}
+
+/**
+ * Looks up Pact Broker details for the published pacts, using the Durable Object cache first.
+ * Broker failures are logged and never thrown: messages are then posted without the extra details.
+ * After the first failure the remaining lookups are skipped so an outage does not delay publishing.
+ */
+async function loadPactEnrichments(env: Env, events: StoredPactEventData[]): Promise<Map<string, PactEnrichment>> {
+	const pactEnrichments = new Map<string, PactEnrichment>();
+	if (!isPactBrokerConfigured(env)) return pactEnrichments;
+
+	const aggregatorStub = getPactAggregatorStub(env);
+	const pactUrls = new Set(events.filter((e) => isPublicationPayload(e)).map((e) => e.pactUrl));
+	let brokerAvailable = true;
+	for (const pactUrl of pactUrls) {
+		const cached = await aggregatorStub.getCachedPactEnrichment(pactUrl);
+		if (cached) {
+			pactEnrichments.set(pactUrl, cached);
+			continue;
+		}
+		if (!brokerAvailable) continue;
+
+		try {
+			const enrichment = await fetchPactEnrichment(env, pactUrl);
+			await aggregatorStub.cachePactEnrichment(pactUrl, enrichment);
+			pactEnrichments.set(pactUrl, enrichment);
+		} catch (err) {
+			console.error('Pact Broker lookup failed; posting without broker details', err);
+			brokerAvailable = false;
+		}
+	}
+	return pactEnrichments;
+}
+
+export function getPactAggregatorStub(env: Env) {
+	const objectName = env.PACT_AGGREGATOR_NAME;
+	const stub = env.PACT_AGGREGATOR.getByName(objectName);
+	return stub;
+}
+
+// Minimal environment interface for publishing from Durable Object alarms
+export interface PublishAlarmEnv {
+	/**
+	 * Set to false to publish from the publish cron only (default true).
+	 */
+	PUBLISH_ALARM_ENABLED?: boolean | string;
+}
+
+export function isPublishAlarmEnabled(env: PublishAlarmEnv): boolean {
+	const value = env.PUBLISH_ALARM_ENABLED;
+	return !(value === false || value === 'false');
+}
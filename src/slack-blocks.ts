@@ -0,0 +1,66 @@
+import type { SlackBlock, SlackButtonElement, SlackTextObject } from './types';
+
+// Slack rejects messages with more than 50 blocks
+const MAX_BLOCKS_PER_MESSAGE = 50;
+
+// Minimal environment interface for choosing the Slack message format
+export interface SlackMessageFormatEnv {
+	/**
+	 * 'text' (default) sends the legacy mrkdwn text only; 'blocks' also sends Block Kit blocks (text stays as the fallback).
+	 */
+	SLACK_MESSAGE_FORMAT?: string;
+}
+
+export function isBlockKitEnabled(env: SlackMessageFormatEnv): boolean {
+	return env.SLACK_MESSAGE_FORMAT?.trim().toLowerCase() === 'blocks';
+}
+
+/**
+ * Returns the blocks when Block Kit rendering is enabled, otherwise undefined so only the legacy text is sent.
+ */
+export function blocksIfEnabled(env: SlackMessageFormatEnv, blocks: SlackBlock[]): SlackBlock[] | undefined {
+	return isBlockKitEnabled(env) ? limitBlocks(blocks) : undefined;
+}
+
+export function sectionBlock(text: string, accessory?: SlackButtonElement): SlackBlock {
+	return accessory ? { type: 'section', text: mrkdwn(text), accessory } : { type: 'section', text: mrkdwn(text) };
+}
+
+/**
+ * A section rendering status fields in two columns, e.g. "*staging*\n✅".
+ */
+export function fieldsBlock(fields: string[], text?: string): SlackBlock {
+	const block: SlackBlock = { type: 'section', fields: fields.map(mrkdwn) };
+	if (text) block.text = mrkdwn(text);
+	return block;
+}
+
+export function contextBlock(text: string): SlackBlock {
+	return { type: 'context', elements: [mrkdwn(text)] };
+}
+
+export function actionsBlock(buttons: SlackButtonElement[]): SlackBlock {
+	return { type: 'actions', elements: buttons };
+}
+
+export function linkButton(label: string, url: string): SlackButtonElement {
+	return {
+		type: 'button',
+		text: { type: 'plain_text', text: label },
+		url,
+		action_id: `link-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+	};
+}
+
+/**
+ * Keeps a message within Slack's block limit, replacing the overflow with a context block.
+ */
+export function limitBlocks(blocks: SlackBlock[]): SlackBlock[] {
+	if (blocks.length <= MAX_BLOCKS_PER_MESSAGE) return blocks;
+	const kept = blocks.slice(0, MAX_BLOCKS_PER_MESSAGE - 1);
+	return [...kept, contextBlock(`…and ${blocks.length - kept.length} more`)];
+}
+
+function mrkdwn(text: string): SlackTextObject {
+	return { type: 'mrkdwn', text };
+}
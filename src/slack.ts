@@ -1,48 +1,113 @@
 import type {
+	SlackApiResponse,
+	SlackBlock,
 	SlackConversationsRepliesResponse,
 	SlackPostMessageRequest,
 	SlackPostMessageResponse,
 	SlackUpdateMessageRequest,
+	SlackUsersLookupByEmailResponse,
 } from './types';
+import { now } from './time-utils';
+import { coerceInt } from './utils';
 
 // Minimal environment interface for Slack operations
 interface SlackEnv {
 	SLACK_CHANNEL: string;
 	SLACK_TOKEN: string;
+	/**
+	 * How often a rate-limited (HTTP 429) or transiently failing Slack call is retried (default 3).
+	 */
+	SLACK_MAX_RETRIES?: number | string;
+	/**
+	 * Backoff before the first retry, doubled on every further retry. A Retry-After header from Slack takes precedence (default 1000).
+	 */
+	SLACK_RETRY_BASE_DELAY_MS?: number | string;
+	/**
+	 * Cap on the total time one call spends waiting between retries; we give up instead of exceeding it (default 30000).
+	 */
+	SLACK_RETRY_MAX_TOTAL_MS?: number | string;
 }
 
-export async function postPacticipantEventsToSlack(slackEnv: SlackEnv, summaryText: string, detailsList: string[]) {
-	const summaryResp = await slackPost(slackEnv, summaryText);
+// Slack API errors that may succeed when retried; every other error (channel_not_found, not_in_channel, invalid_auth, ...) is permanent
+const RETRYABLE_SLACK_ERRORS = new Set([
+	'ratelimited',
+	'rate_limited',
+	'internal_error',
+	'fatal_error',
+	'service_unavailable',
+	'request_timeout',
+]);
+
+export class SlackApiError extends Error {
+	constructor(
+		message: string,
+		readonly error: string,
+		readonly retryable: boolean,
+	) {
+		super(message);
+		this.name = 'SlackApiError';
+	}
+}
+
+/**
+ * Builds the error thrown when a Slack call a flow depends on failed, keeping whether it is worth retrying.
+ */
+export function toSlackApiError(action: string, response: SlackApiResponse): SlackApiError {
+	const error = response.error ?? 'unknown_error';
+	return new SlackApiError(`${action} failed: ${error}`, error, response.retryable ?? false);
+}
+
+export function isRetryableSlackError(error: string | undefined): boolean {
+	return error !== undefined && RETRYABLE_SLACK_ERRORS.has(error);
+}
+
+/**
+ * Posts the main channel summary and its details as a thread reply.
+ * When blocks are passed they are sent along with the text, which remains the notification fallback.
+ */
+export async function postPacticipantEventsToSlack(
+	slackEnv: SlackEnv,
+	summaryText: string,
+	detailsList: string[],
+	blocks?: { summary: SlackBlock[]; details: SlackBlock[] },
+) {
+	const summaryResp = await slackPost(slackEnv, summaryText, undefined, blocks?.summary);
 	if (!summaryResp.ok || !summaryResp.ts) {
-		throw new Error(`Slack summary post failed: ${summaryResp.error ?? 'unknown_error'}`);
+		throw toSlackApiError('Slack summary post', summaryResp);
 	}
 
 	if (detailsList.length === 0) return;
 
 	const threadText = detailsList.join('\n');
-	const threadResp = await slackPost(slackEnv, threadText, summaryResp.ts);
+	const threadResp = await slackPost(slackEnv, threadText, summaryResp.ts, blocks?.details);
 	if (!threadResp.ok) {
-		throw new Error(`Slack thread post failed: ${threadResp.error ?? 'unknown_error'}`);
+		throw toSlackApiError('Slack thread post', threadResp);
 	}
 }
 
-export async function slackPost(slackEnv: SlackEnv, text: string, threadTs?: string): Promise<SlackPostMessageResponse> {
+export async function slackPost(
+	slackEnv: SlackEnv,
+	text: string,
+	threadTs?: string,
+	blocks?: SlackBlock[],
+): Promise<SlackPostMessageResponse> {
 	const body: SlackPostMessageRequest = {
 		text,
 		channel: slackEnv.SLACK_CHANNEL, // postMessage works with channel name also
 	};
 
 	if (threadTs) body.thread_ts = threadTs;
+	if (blocks) body.blocks = blocks;
 
-	const res = await fetch('https://slack.com/api/chat.postMessage', {
+	const json = await callSlackApi<SlackPostMessageResponse>(slackEnv, 'https://slack.com/api/chat.postMessage', {
 		method: 'POST',
 		headers: createSlackHeaders(slackEnv),
 		body: JSON.stringify(body),
 	});
-	const json: SlackPostMessageResponse = await res.json();
 	if (!json.ok) {
 		console.error('❌ Slack API Error:', {
 			error: json.error,
+			retryable: json.retryable,
 			needed: json.needed,
 			provided: json.provided,
 			channel: body.channel,
@@ -55,22 +120,28 @@ export async function slackPost(slackEnv: SlackEnv, text: string, threadTs?: str
 	return json;
 }
 
-export async function slackUpdate(slackEnv: SlackEnv, ts: string, newText: string): Promise<SlackPostMessageResponse> {
+export async function slackUpdate(
+	slackEnv: SlackEnv,
+	ts: string,
+	newText: string,
+	blocks?: SlackBlock[],
+): Promise<SlackPostMessageResponse> {
 	const body: SlackUpdateMessageRequest = {
 		text: newText,
 		channel: slackEnv.SLACK_CHANNEL, // expect channel ID here (channel name won't work for updates)
 		ts,
 	};
+	if (blocks) body.blocks = blocks;
 
-	const res = await fetch('https://slack.com/api/chat.update', {
+	const json = await callSlackApi<SlackPostMessageResponse>(slackEnv, 'https://slack.com/api/chat.update', {
 		method: 'POST',
 		headers: createSlackHeaders(slackEnv),
 		body: JSON.stringify(body),
 	});
-	const json: SlackPostMessageResponse = await res.json();
 	if (!json.ok) {
 		console.error('❌ Slack API Error (update):', {
 			error: json.error,
+			retryable: json.retryable,
 			needed: json.needed,
 			provided: json.provided,
 			channel: body.channel,
@@ -92,16 +163,16 @@ export async function slackFetchThreadReplyCount(slackEnv: SlackEnv, threadTs: s
 	url.searchParams.append('ts', threadTs);
 	url.searchParams.append('limit', '1');
 
-	const res = await fetch(url.toString(), {
+	const json = await callSlackApi<SlackConversationsRepliesResponse>(slackEnv, url.toString(), {
 		method: 'GET',
 		headers: {
 			Authorization: `Bearer ${slackEnv.SLACK_TOKEN}`,
 		},
 	});
-	const json: SlackConversationsRepliesResponse = await res.json();
 	if (!json.ok) {
 		console.error('❌ Slack API Error (fetch thread replies):', {
 			error: json.error,
+			retryable: json.retryable,
 			needed: json.needed,
 			provided: json.provided,
 			channel: slackEnv.SLACK_CHANNEL,
@@ -113,6 +184,95 @@ export async function slackFetchThreadReplyCount(slackEnv: SlackEnv, threadTs: s
 	return json.messages?.[0]?.reply_count;
 }
 
+/**
+ * Finds the ID of the Slack user with an email address using users.lookupByEmail (needs the users:read.email scope).
+ * Returns undefined when there is no such user; other Slack API failures are thrown as a SlackApiError.
+ */
+export async function slackLookupUserIdByEmail(slackEnv: SlackEnv, email: string): Promise<string | undefined> {
+	const url = new URL('https://slack.com/api/users.lookupByEmail');
+	url.searchParams.append('email', email);
+
+	const json = await callSlackApi<SlackUsersLookupByEmailResponse>(slackEnv, url.toString(), {
+		method: 'GET',
+		headers: {
+			Authorization: `Bearer ${slackEnv.SLACK_TOKEN}`,
+		},
+	});
+	if (!json.ok) {
+		if (json.error === 'users_not_found') return undefined;
+		console.error('❌ Slack API Error (lookup user by email):', {
+			error: json.error,
+			retryable: json.retryable,
+			needed: json.needed,
+			provided: json.provided,
+		});
+		throw toSlackApiError('Slack user lookup by email', json);
+	}
+
+	return json.user?.id;
+}
+
+/**
+ * Calls a Slack Web API method, retrying rate-limited and transient failures with exponential backoff.
+ * A Retry-After header is honoured, and the total wait is capped by SLACK_RETRY_MAX_TOTAL_MS.
+ * Never throws: network errors and non-JSON responses are returned as `{ ok: false }` with `retryable` set.
+ */
+async function callSlackApi<T extends SlackApiResponse>(slackEnv: SlackEnv, url: string, init: RequestInit): Promise<T> {
+	const maxRetries = coerceInt(slackEnv.SLACK_MAX_RETRIES, 3, { min: 0 });
+	const baseDelayMs = coerceInt(slackEnv.SLACK_RETRY_BASE_DELAY_MS, 1000, { min: 0 });
+	const maxTotalDelayMs = coerceInt(slackEnv.SLACK_RETRY_MAX_TOTAL_MS, 30000, { min: 0 });
+	const method = new URL(url).pathname.replace('/api/', '');
+
+	let totalDelayMs = 0;
+	for (let attempt = 0; ; attempt++) {
+		const { response, retryAfterMs } = await attemptSlackApiCall<T>(url, init);
+		if (response.ok || !response.retryable || attempt >= maxRetries) return response;
+
+		const delayMs = retryAfterMs ?? baseDelayMs * 2 ** attempt;
+		if (totalDelayMs + delayMs > maxTotalDelayMs) {
+			console.warn('⏳ Slack API retry budget exhausted', { method, error: response.error, attempt, delayMs, totalDelayMs });
+			return response;
+		}
+		console.warn('⏳ Slack API call failed, retrying', { method, error: response.error, attempt: attempt + 1, delayMs });
+		await new Promise((resolve) => setTimeout(resolve, delayMs));
+		totalDelayMs += delayMs;
+	}
+}
+
+async function attemptSlackApiCall<T extends SlackApiResponse>(
+	url: string,
+	init: RequestInit,
+): Promise<{ response: T; retryAfterMs?: number }> {
+	let res: Response;
+	try {
+		res = await fetch(url, init);
+	} catch (err) {
+		console.error('❌ Slack API request failed:', err);
+		return { response: { ok: false, error: 'network_error', retryable: true } as T };
+	}
+
+	const transientStatus = res.status === 429 || res.status >= 500;
+	const retryAfterMs = res.status === 429 ? parseRetryAfterMs(res.headers.get('Retry-After')) : undefined;
+	let json: T;
+	try {
+		json = await res.json();
+	} catch {
+		// e.g. an HTML error page from a proxy in front of Slack
+		return { response: { ok: false, error: 'invalid_response', retryable: transientStatus } as T, retryAfterMs };
+	}
+	if (json.ok) return { response: json };
+	return { response: { ...json, retryable: transientStatus || isRetryableSlackError(json.error) }, retryAfterMs };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfterMs(value: string | null): number | undefined {
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now());
+}
+
 function createSlackHeaders(slackEnv: SlackEnv): HeadersInit | undefined {
 	return {
 		Authorization: `Bearer ${slackEnv.SLACK_TOKEN}`,
@@ -1,7 +1,21 @@
-import { PROVIDER_VERIFICATION_PUBLISHED, CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from './constants';
+import {
+	PROVIDER_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PROVIDER_VERIFICATION_FAILED,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	CONTRACT_PUBLISHED,
+	CONTRACT_CONTENT_CHANGED,
+	VERIFICATION_EVENT_TYPES,
+	PUBLICATION_EVENT_TYPES,
+	DEPLOYMENT_EVENT_TYPES,
+} from './constants';
+
+export type VerificationEventType = (typeof VERIFICATION_EVENT_TYPES)[number];
+export type PublicationEventType = (typeof PUBLICATION_EVENT_TYPES)[number];
+export type DeploymentEventType = (typeof DEPLOYMENT_EVENT_TYPES)[number];
 
 export interface BasePactWebhookPayload {
-	eventType: typeof PROVIDER_VERIFICATION_PUBLISHED | typeof CONTRACT_REQUIRING_VERIFICATION_PUBLISHED;
+	eventType: VerificationEventType | PublicationEventType;
 	providerName: string;
 	consumerName: string;
 	consumerVersionBranch: string;
@@ -10,44 +24,102 @@ export interface BasePactWebhookPayload {
 	providerVersionNumber: string;
 }
 
-export interface ProviderVerificationPublishedPayload extends BasePactWebhookPayload {
-	eventType: typeof PROVIDER_VERIFICATION_PUBLISHED;
+interface BaseProviderVerificationPayload extends BasePactWebhookPayload {
+	eventType: VerificationEventType;
 	githubVerificationStatus: string;
 	verificationResultUrl: string;
 }
 
-export interface ContractRequiringVerificationPublishedPayload extends BasePactWebhookPayload {
-	eventType: typeof CONTRACT_REQUIRING_VERIFICATION_PUBLISHED;
+export interface ProviderVerificationPublishedPayload extends BaseProviderVerificationPayload {
+	eventType: typeof PROVIDER_VERIFICATION_PUBLISHED;
+}
+
+export interface ProviderVerificationSucceededPayload extends BaseProviderVerificationPayload {
+	eventType: typeof PROVIDER_VERIFICATION_SUCCEEDED;
+}
+
+export interface ProviderVerificationFailedPayload extends BaseProviderVerificationPayload {
+	eventType: typeof PROVIDER_VERIFICATION_FAILED;
+}
+
+interface BaseContractPublicationPayload extends BasePactWebhookPayload {
+	eventType: PublicationEventType;
 	pactUrl: string;
+}
+
+export interface ContractRequiringVerificationPublishedPayload extends BaseContractPublicationPayload {
+	eventType: typeof CONTRACT_REQUIRING_VERIFICATION_PUBLISHED;
 	providerVersionDescriptions?: string;
 }
 
-// Simple utility class with static methods - cleanest approach
-// PayloadUtils moved to payload.ts
+/**
+ * Sent for every pact publication, regardless of whether the content changed.
+ * Provider version fields are usually empty for this event.
+ */
+export interface ContractPublishedPayload extends BaseContractPublicationPayload {
+	eventType: typeof CONTRACT_PUBLISHED;
+}
 
-export type PactWebhookPayload = ProviderVerificationPublishedPayload | ContractRequiringVerificationPublishedPayload;
+/**
+ * Sent only when a published pact differs from the previous version for the same consumer/provider.
+ */
+export interface ContractContentChangedPayload extends BaseContractPublicationPayload {
+	eventType: typeof CONTRACT_CONTENT_CHANGED;
+}
 
-interface ProviderVerificationEventData extends ProviderVerificationPublishedPayload {
-	pacticipant: string;
+export type ProviderVerificationPayload =
+	ProviderVerificationPublishedPayload | ProviderVerificationSucceededPayload | ProviderVerificationFailedPayload;
+
+export type ContractPublicationPayload =
+	ContractRequiringVerificationPublishedPayload | ContractPublishedPayload | ContractContentChangedPayload;
+
+export type PactWebhookPayload = ProviderVerificationPayload | ContractPublicationPayload;
+
+/**
+ * A pacticipant version recorded as deployed to (or released in) an environment.
+ * Not a Pact Broker webhook event: it is posted from CI after `pact-broker record-deployment` / `record-release`.
+ */
+export interface DeploymentWebhookPayload {
+	eventType: DeploymentEventType;
+	pacticipantName: string;
 	pacticipantVersionNumber: string;
+	environmentName: string;
 }
 
-interface ContractRequiringVerificationEventData extends ContractRequiringVerificationPublishedPayload {
+export type WebhookPayload = PactWebhookPayload | DeploymentWebhookPayload;
+
+interface PacticipantEventFields {
 	pacticipant: string;
 	pacticipantVersionNumber: string;
 }
 
-export type PactEventData = ProviderVerificationEventData | ContractRequiringVerificationEventData;
+type ProviderVerificationEventData = ProviderVerificationPayload & PacticipantEventFields;
+
+type ContractPublicationEventData = ContractPublicationPayload & PacticipantEventFields;
+
+export type PactEventData = ProviderVerificationEventData | ContractPublicationEventData;
 
-export interface StoredProviderVerificationEventData extends ProviderVerificationEventData {
+export type StoredProviderVerificationEventData = ProviderVerificationEventData & {
 	ts: number; // timestamp when event was received
-}
+};
 
-export interface StoredContractRequiringVerificationEventData extends ContractRequiringVerificationEventData {
+export type StoredContractPublicationEventData = ContractPublicationEventData & {
 	ts: number; // timestamp when event was received
+};
+
+export type StoredPactEventData = StoredProviderVerificationEventData | StoredContractPublicationEventData;
+
+/**
+ * A single validation failure for an incoming webhook payload.
+ * `code` is machine-readable (e.g. 'missing', 'invalid_type', 'unrendered_placeholder', 'missing_pact_version', 'not_routed').
+ */
+export interface PayloadFieldError {
+	field: string;
+	code: string;
+	message: string;
 }
 
-export type StoredPactEventData = StoredProviderVerificationEventData | StoredContractRequiringVerificationEventData;
+export type PayloadValidationResult = { ok: true; payload: WebhookPayload } | { ok: false; errors: PayloadFieldError[] };
 
 export interface PublicationThreadInfo {
 	ts: string; // root message timestamp
@@ -65,26 +137,174 @@ export interface PublicationThreadInfo {
 	 * Latest provider-master-branch verification for this contract thread.
 	 * Used to keep the root summary status line stable across thread rotations.
 	 */
-	lastMasterVerification?: ProviderVerificationPublishedPayload;
+	lastMasterVerification?: ProviderVerificationPayload;
 	/**
 	 * Timestamp (ms since epoch) when lastMasterVerification was recorded.
 	 */
 	lastMasterVerificationTs?: number;
+	/**
+	 * Environments the consumer version of this pact is currently deployed to (or released in), in recording order.
+	 */
+	deployedEnvironments?: string[];
+	/**
+	 * Environments the provider version of lastMasterVerification is currently deployed to (or released in), in recording order.
+	 */
+	providerDeployedEnvironments?: string[];
+	/**
+	 * Latest can-i-deploy results for the consumer version, refreshed on every verification in the thread.
+	 */
+	canIDeploy?: CanIDeploySummary;
+	/**
+	 * When a pact requiring verification was published (ms since epoch); cleared once a verification result arrives.
+	 * Threads created by other events, or before this was tracked, have none and are never alerted on.
+	 */
+	awaitingVerificationSince?: number;
+	/**
+	 * When the "still awaiting verification" notice was queued (ms since epoch); cleared with awaitingVerificationSince.
+	 */
+	verificationSlaAlertedAt?: number;
+	/**
+	 * When the main channel was notified about the missing verification (ms since epoch).
+	 */
+	verificationSlaEscalatedAt?: number;
+	/**
+	 * When verification results of the pact version were first found flip-flopping (ms since epoch); the root summary
+	 * then shows the flaky badge.
+	 */
+	flakySince?: number;
+	/**
+	 * Time from the publication of the pact to its first verification result, and to the first one on the provider's
+	 * master branch (ms); only measured for threads opened by a publication.
+	 */
+	firstVerificationLatencyMs?: number;
+	firstMasterVerificationLatencyMs?: number;
 	// Legacy field kept for backward compatibility (existing stored entries before refactor)
 }
 
+/**
+ * Details looked up from the Pact Broker API for a pact version, used to enrich Slack messages.
+ */
+export interface PactEnrichment {
+	interactionCount: number;
+	/**
+	 * Interaction changes compared to the previous distinct version of the pact (undefined for the first version).
+	 */
+	interactionsAdded?: number;
+	interactionsRemoved?: number;
+	/**
+	 * Latest verification result of the previous distinct version of the pact, if it was ever verified.
+	 */
+	previousVerificationSuccess?: boolean;
+	/**
+	 * The broker's diff with the previous distinct version of the pact, cut to a maximum length.
+	 */
+	diff?: string;
+}
+
+/**
+ * can-i-deploy result of a pacticipant version for one environment, from the Pact Broker matrix.
+ * `deployable` is null when the broker cannot tell (e.g. missing verification results).
+ */
+export interface CanIDeployResult {
+	environment: string;
+	deployable: boolean | null;
+	reason?: string;
+}
+
+export interface CanIDeploySummary {
+	pacticipant: string;
+	version: string;
+	results: CanIDeployResult[];
+}
+
+/**
+ * When main channel messages are published, in local time of `timezone`.
+ * Within working hours on working days publishing is continuous; otherwise it happens every
+ * `offHoursIntervalMinutes` (working days) or `weekendIntervalMinutes` (other days and holidays), counted from midnight.
+ */
+export interface PublishingWindow {
+	timezone: string;
+	workingDays: string[]; // 'mon' ... 'sun'
+	workingHours: string[]; // 'HH:MM-HH:MM', end exclusive
+	offHoursIntervalMinutes: number;
+	weekendIntervalMinutes: number;
+	holidays: string[]; // 'YYYY-MM-DD', treated as non-working days
+}
+
+export interface PublishingSchedule extends PublishingWindow {
+	/**
+	 * Windows for specific Slack channels, with unspecified fields taken from the schedule itself
+	 */
+	channels: Record<string, PublishingWindow>;
+}
+
+export type ChannelRouteScope = 'provider' | 'main';
+
+/**
+ * A CHANNEL_ROUTES rule. A payload matches when it matches every criterion the rule sets; the channels of all
+ * matching rules of a scope replace that scope's default channel (the provider channel or SLACK_CHANNEL).
+ */
+export interface ChannelRoute {
+	scope: ChannelRouteScope;
+	provider?: string;
+	consumer?: string;
+	/**
+	 * Glob (`*`, `?`) matched against the provider branch of verifications and the consumer branch of other events
+	 */
+	branch?: string;
+	eventType?: string[];
+	/**
+	 * Verification outcome; rules with a status never match other events
+	 */
+	status?: 'success' | 'failure';
+	/**
+	 * Slack channels, where `{provider}` and `{consumer}` are replaced by the pacticipant names
+	 */
+	channels: string[];
+}
+
+/**
+ * What happens to events on a muted branch: `drop` discards them, `store_only` records them in the activity log
+ * without posting them anywhere, `skip_main_channel` keeps them out of the main channel only.
+ */
+export type BranchFilterAction = 'drop' | 'store_only' | 'skip_main_channel';
+
+/**
+ * A BRANCH_FILTERS rule. A branch is muted when it matches an `exclude` glob, or when `include` is set and it matches
+ * none of its globs (`*`, `?`).
+ */
+export interface BranchFilterRule {
+	include?: string[];
+	exclude?: string[];
+	action: BranchFilterAction;
+}
+
 interface SlackConversationReplyMessage {
 	ts: string;
 	thread_ts?: string;
 	reply_count?: number;
 }
 
-export interface SlackConversationsRepliesResponse {
+// Fields every Slack Web API response shares
+export interface SlackApiResponse {
 	ok: boolean;
-	messages?: SlackConversationReplyMessage[];
 	error?: string;
 	needed?: string;
 	provided?: string;
+	/**
+	 * Set on failures by our Slack client: true when the call failed for a transient reason
+	 * (rate limiting, Slack/network outage) and may succeed later, false for permanent errors
+	 * such as channel_not_found or not_in_channel.
+	 */
+	retryable?: boolean;
+}
+
+export interface SlackConversationsRepliesResponse extends SlackApiResponse {
+	messages?: SlackConversationReplyMessage[];
+}
+
+export interface SlackUsersLookupByEmailResponse extends SlackApiResponse {
+	user?: { id: string };
 }
 
 export interface PublicationThreadEntry {
@@ -92,6 +312,174 @@ export interface PublicationThreadEntry {
 	info: PublicationThreadInfo;
 }
 
+/**
+ * A pacticipant version group whose main channel publication failed PUBLISH_MAX_ATTEMPTS times in a row.
+ * Its events are kept aside until an admin replays or discards them.
+ */
+/**
+ * A main channel pacticipant version group that failed PUBLISH_MAX_ATTEMPTS publish runs in a row
+ */
+/**
+ * Main channel -> `ts` of the events of a pacticipant version group already posted there, by runs that failed
+ * in another of the group's main channels
+ */
+export type PublishedGroupChannels = Record<string, number[]>;
+
+export interface EventGroupDeadLetterEntry {
+	id: string;
+	groupKey: string; // "<pacticipant>:<pacticipantVersionNumber>"
+	events: StoredPactEventData[];
+	publishedChannels?: PublishedGroupChannels;
+	attempts: number;
+	lastError: string;
+	deadLetteredAt: number;
+}
+
+/**
+ * A provider channel outbox entry that failed with a permanent Slack error, or PUBLISH_MAX_ATTEMPTS times with transient ones
+ */
+export interface OutboxDeadLetterEntry {
+	id: string;
+	outboxEntry: ProviderChannelOutboxEntry;
+	attempts: number;
+	lastError: string;
+	deadLetteredAt: number;
+}
+
+export type DeadLetterEntry = EventGroupDeadLetterEntry | OutboxDeadLetterEntry;
+
+/**
+ * The current run of verification results of a provider branch against a consumer.
+ */
+export interface VerificationStreak {
+	providerName: string;
+	consumerName: string;
+	providerVersionBranch: string;
+	/**
+	 * When the first failure of the current run of failures was received (ms since epoch); null while green
+	 */
+	failingSince: number | null;
+	consecutiveFailures: number;
+	updatedAt: number;
+}
+
+/**
+ * A failure extending a run of failures ('broken'), or the success that ended one ('recovered').
+ */
+export interface VerificationStreakChange {
+	kind: 'broken' | 'recovered';
+	failingSince: number;
+	consecutiveFailures: number;
+	changedAt: number;
+}
+
+/**
+ * A pact version whose verification results on a provider branch keep changing outcome.
+ */
+export interface FlakyVerification {
+	providerName: string;
+	consumerName: string;
+	providerVersionBranch: string;
+	pactVersion: string;
+	/**
+	 * The most outcome changes seen within the detection window
+	 */
+	flips: number;
+	lastFlipAt: number;
+	/**
+	 * The latest verification result of the pact version on the branch
+	 */
+	verificationResultUrl: string;
+}
+
+export type VerificationLatencyKind = 'firstVerification' | 'firstMasterVerification';
+
+/**
+ * Nearest-rank percentiles of the verification latencies of a provider (ms).
+ */
+export interface LatencyPercentiles {
+	count: number;
+	p50Ms: number;
+	p90Ms: number;
+	p95Ms: number;
+	maxMs: number;
+}
+
+export interface ProviderVerificationLatency {
+	providerName: string;
+	/**
+	 * Null while no latency of the kind was recorded
+	 */
+	firstVerification: LatencyPercentiles | null;
+	firstMasterVerification: LatencyPercentiles | null;
+}
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+/**
+ * Activity of one digest period, for one provider (provider channel digest) or all of them (main channel digest).
+ */
+export interface DigestReport {
+	period: DigestPeriod;
+	from: number;
+	to: number;
+	providerName?: string;
+	publishedPacts: ContractPublicationPayload[];
+	verificationsSucceeded: number;
+	verificationsFailed: number;
+	/**
+	 * Latest pact versions per provider, consumer and consumer branch that have no verification result yet
+	 */
+	unverifiedPacts: ContractPublicationPayload[];
+	/**
+	 * Provider/consumer pairs whose latest verification on the provider's master branch failed
+	 */
+	failingVerifications: ProviderVerificationPayload[];
+	/**
+	 * Pact versions whose verification results kept flip-flopping during the period
+	 */
+	flakyVerifications: FlakyVerification[];
+}
+
+/**
+ * Provider channel work that must reach Slack at least once. `channel` is the routed channel (see CHANNEL_ROUTES);
+ * entries without one go to the default channel:
+ * - pact_event: post a publication/verification to its contract thread (creating or rotating the thread as needed)
+ * - thread_notice: reply with a notice in a thread and append it to the root message (deprecated or removed pact versions)
+ * - summary_refresh: re-render a thread's root message from its current state (e.g. after a deployment)
+ * - digest: post a daily or weekly digest to a provider channel or the main channel
+ * - verification_escalation: tell the main channel that a pact is still awaiting verification
+ * - verification_streak: report a failure streak or a recovery in the pact's thread or in the main channel
+ * - commit_author_dm: tell the author of the consumer commit that its pact failed verification, in a direct message
+ */
+export type ProviderChannelOutboxItem =
+	| { kind: 'pact_event'; payload: PactWebhookPayload; channel?: string }
+	| { kind: 'thread_notice'; thread: PublicationThreadEntry; notice: string; removeThread: boolean }
+	| { kind: 'summary_refresh'; thread: PublicationThreadEntry }
+	| { kind: 'digest'; channel: string; report: DigestReport }
+	| { kind: 'verification_escalation'; thread: PublicationThreadEntry; channel?: string }
+	| {
+			kind: 'verification_streak';
+			verification: ProviderVerificationPayload;
+			streak: VerificationStreakChange;
+			target: 'thread' | 'main_channel';
+			channel?: string;
+	  }
+	| { kind: 'commit_author_dm'; verification: ProviderVerificationPayload };
+
+export type ProviderChannelOutboxEntry = ProviderChannelOutboxItem & {
+	id: string;
+	seq: number;
+	enqueuedAt: number;
+	/**
+	 * The entry is not claimed again before this time: it is being delivered (lease) or waits for a retry after a failure.
+	 */
+	availableAt: number;
+	attempts: number;
+	lastAttemptAt?: number;
+	lastError?: string;
+};
+
 export interface DebugInfo {
 	currentTime: string;
 	lastEventTime: string;
@@ -106,18 +494,67 @@ export interface DebugInfo {
 	totalEvents: number;
 	totalProcessedEvents: number;
 	lastProcessedCount: number;
+	/**
+	 * Number of webhook deliveries suppressed as duplicates (Pact Broker retries)
+	 */
+	suppressedDuplicates: number;
 	timeSinceLastEvent: number | null;
 	timeSinceLastProcess: number | null;
 	slackChannel: string;
 	githubBaseUrl: string;
 	pacticipantToRepoMap: Record<string, string>;
 	publicationThreads: Record<string, PublicationThreadInfo | undefined>;
+	/**
+	 * Provider channel posts waiting for delivery; entries that failed before carry attempts and lastError
+	 */
+	providerChannelOutbox: ProviderChannelOutboxEntry[];
+	/**
+	 * Consecutive failed main channel publications per pacticipant version group (reset on success)
+	 */
+	publishFailures: Record<string, number>;
+	/**
+	 * Number of groups and provider channel outbox entries in the dead-letter store (see /dead-letters)
+	 */
+	deadLetterCount: number;
+	/**
+	 * When the Durable Object alarm publishes next (ISO timestamp), or null when no alarm is scheduled
+	 */
+	publishAlarmTime: string | null;
+	/**
+	 * The effective PUBLISHING_SCHEDULE (defaults filled in), and the problems found while validating it
+	 */
+	publishingSchedule: PublishingSchedule;
+	publishingScheduleErrors: string[];
+	/**
+	 * Number of events muted by BRANCH_FILTERS, per action, and the problems found while validating the filters
+	 */
+	mutedEvents: Record<BranchFilterAction, number>;
+	branchFilterErrors: string[];
 }
 
-export interface SlackPostMessageRequest {
+export interface SlackTextObject {
+	type: 'mrkdwn' | 'plain_text';
 	text: string;
+}
+
+export interface SlackButtonElement {
+	type: 'button';
+	text: SlackTextObject;
+	url: string;
+	action_id: string;
+}
+
+// The subset of Block Kit blocks we render
+export type SlackBlock =
+	| { type: 'section'; text?: SlackTextObject; fields?: SlackTextObject[]; accessory?: SlackButtonElement }
+	| { type: 'context'; elements: SlackTextObject[] }
+	| { type: 'actions'; elements: SlackButtonElement[] };
+
+export interface SlackPostMessageRequest {
+	text: string; // also the notification fallback when blocks are sent
 	channel: string;
 	thread_ts?: string; // optional for root messages or updates
+	blocks?: SlackBlock[];
 }
 
 // Slack update message request (chat.update)
@@ -125,15 +562,12 @@ export interface SlackUpdateMessageRequest {
 	text: string;
 	channel: string;
 	ts: string; // timestamp of the message to update
+	blocks?: SlackBlock[];
 }
 
-export interface SlackPostMessageResponse {
-	ok: boolean;
+export interface SlackPostMessageResponse extends SlackApiResponse {
 	ts?: string;
 	channel?: string;
-	error?: string;
-	needed?: string;
-	provided?: string;
 	thread_ts?: string;
 	text?: string;
 }
@@ -44,27 +44,161 @@ export function coerceInt(value: unknown, fallback: number, opts: { min: number
 	return i;
 }
 
+export function isNonEmptyString(value: unknown): value is string {
+	return typeof value === 'string' && value.trim() !== '';
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a config variable given as an object (wrangler `vars`) or as a JSON string (secrets, dashboard variables).
+ * An empty string counts as unset; invalid JSON is reported in `errors` as `<name>: invalid JSON` and counts as unset too.
+ */
+export function parseJsonConfig(name: string, value: unknown, errors: string[]): unknown {
+	if (typeof value !== 'string') return value;
+	try {
+		return value.trim() === '' ? undefined : JSON.parse(value);
+	} catch {
+		errors.push(`${name}: invalid JSON`);
+		return undefined;
+	}
+}
+
+/**
+ * Wraps a config parser so it runs once per isolate, and again when one of the config values it reads changes.
+ * The problems it reports are logged then, each prefixed with `errorPrefix`.
+ * Example: cacheConfigParser((env) => [env.CHANNEL_ROUTES], parseChannelRoutes, 'Invalid channel route, ignoring it')
+ */
+export function cacheConfigParser<E, T extends { errors: string[] }>(
+	getConfigValues: (env: E) => unknown[],
+	parse: (env: E) => T,
+	errorPrefix: string,
+): (env: E) => T {
+	let cached: { values: unknown[]; parsed: T } | undefined;
+	return (env) => {
+		const values = getConfigValues(env);
+		if (cached && values.every((value, index) => value === cached?.values[index])) {
+			return cached.parsed;
+		}
+		const parsed = parse(env);
+		for (const error of parsed.errors) {
+			console.error(`${errorPrefix}: ${error}`);
+		}
+		cached = { values, parsed };
+		return parsed;
+	};
+}
+
+/**
+ * Matches a whole value against a glob, where `*` matches any run of characters (including none) and `?` exactly one.
+ * Example: matchesGlob('feature/login', 'feature/*') => true
+ */
+export function matchesGlob(value: string, glob: string): boolean {
+	const pattern = glob
+		.split('*')
+		.map((part) => part.split('?').map(escapeRegExp).join('.'))
+		.join('.*');
+	return new RegExp(`^${pattern}$`, 's').test(value);
+}
+
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Branch names, globs (`release/*`) or regular expressions written as `/pattern/flags`, alone or in a list
+ */
+export type BranchPatterns = string | string[];
+
 interface MasterBranchEnv {
-	DEFAULT_MASTER_BRANCH?: string;
-	PACTICIPANT_MASTER_BRANCH_EXCEPTIONS?: Record<string, string>;
+	DEFAULT_MASTER_BRANCH?: BranchPatterns;
+	PACTICIPANT_MASTER_BRANCH_EXCEPTIONS?: Record<string, BranchPatterns> | string;
+}
+
+interface ParsedMasterBranches {
+	defaultBranches: string[];
+	exceptions: Record<string, string[]>;
+	errors: string[];
 }
 
 /**
- * Returns the configured "master" (default) branch name for a given pacticipant.
+ * Returns the validated DEFAULT_MASTER_BRANCH and PACTICIPANT_MASTER_BRANCH_EXCEPTIONS. They are parsed once per isolate
+ * (and again if the config changes); problems are logged then, and the patterns they affect are left out.
+ */
+const getMasterBranches = cacheConfigParser(
+	(env: MasterBranchEnv) => [env.DEFAULT_MASTER_BRANCH, env.PACTICIPANT_MASTER_BRANCH_EXCEPTIONS],
+	parseMasterBranches,
+	'Invalid master branch config, ignoring it',
+);
+
+function parseMasterBranches(env: MasterBranchEnv): ParsedMasterBranches {
+	const errors: string[] = [];
+	// A plain branch name is not JSON, so only a list given as a JSON string is parsed
+	const defaultValue =
+		typeof env.DEFAULT_MASTER_BRANCH === 'string' && env.DEFAULT_MASTER_BRANCH.trim().startsWith('[')
+			? parseJsonConfig('DEFAULT_MASTER_BRANCH', env.DEFAULT_MASTER_BRANCH, errors)
+			: env.DEFAULT_MASTER_BRANCH;
+	const defaultBranches = toBranchPatterns('DEFAULT_MASTER_BRANCH', defaultValue, errors);
+
+	const exceptions: Record<string, string[]> = {};
+	const config = parseJsonConfig('PACTICIPANT_MASTER_BRANCH_EXCEPTIONS', env.PACTICIPANT_MASTER_BRANCH_EXCEPTIONS, errors);
+	if (isPlainObject(config)) {
+		for (const [pacticipant, value] of Object.entries(config)) {
+			const patterns = toBranchPatterns(`PACTICIPANT_MASTER_BRANCH_EXCEPTIONS.${pacticipant}`, value, errors);
+			if (patterns.length > 0) exceptions[pacticipant] = patterns;
+		}
+	} else if (config !== undefined && config !== null) {
+		errors.push('PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: expected an object of pacticipant master branches');
+	}
+	return { defaultBranches, exceptions, errors };
+}
+
+function toBranchPatterns(name: string, value: unknown, errors: string[]): string[] {
+	if (value === undefined || value === null) return [];
+	const patterns: unknown[] = Array.isArray(value) ? value : [value];
+	if (!patterns.every((pattern) => typeof pattern === 'string')) {
+		errors.push(`${name}: expected a branch pattern or a list of them`);
+	}
+	return patterns
+		.filter((pattern): pattern is string => typeof pattern === 'string')
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern !== '');
+}
+
+/**
+ * Returns the configured "master" (mainline) branch patterns for a given pacticipant.
  *
  * Resolution order:
  * 1) env.PACTICIPANT_MASTER_BRANCH_EXCEPTIONS[pacticipant]
  * 2) env.DEFAULT_MASTER_BRANCH
  * 3) 'master'
  */
-function getPacticipantMasterBranch(env: MasterBranchEnv, pacticipant: string): string {
-	const defaultBranch = (env.DEFAULT_MASTER_BRANCH ?? 'master').trim();
-	const exceptions = env.PACTICIPANT_MASTER_BRANCH_EXCEPTIONS;
-	const exception = exceptions?.[pacticipant];
+function getPacticipantMasterBranches(env: MasterBranchEnv, pacticipant: string): string[] {
+	const { defaultBranches, exceptions } = getMasterBranches(env);
+	const exception = exceptions[pacticipant];
 	if (exception) return exception;
-	return defaultBranch;
+	return defaultBranches.length > 0 ? defaultBranches : ['master'];
 }
 
+/**
+ * Whether a branch is one of the pacticipant's "master" branches. Patterns are compared as globs (a plain name matches
+ * only itself), or as regular expressions when written as `/pattern/flags` (not anchored unless the pattern says so).
+ * Example: isMasterBranch({ DEFAULT_MASTER_BRANCH: ['main', 'release/*'] }, 'Svc', 'release/2.1') => true
+ */
 export function isMasterBranch(env: MasterBranchEnv, pacticipant: string, branch: string): boolean {
-	return branch === getPacticipantMasterBranch(env, pacticipant);
+	if (branch === '') return false;
+	return getPacticipantMasterBranches(env, pacticipant).some((pattern) => matchesBranchPattern(branch, pattern));
+}
+
+function matchesBranchPattern(branch: string, pattern: string): boolean {
+	const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+	if (!regex) return matchesGlob(branch, pattern);
+	try {
+		return new RegExp(regex[1], regex[2]).test(branch);
+	} catch {
+		console.error(`Invalid master branch regular expression, ignoring it: ${pattern}`);
+		return false;
+	}
 }
@@ -0,0 +1,39 @@
+import type { VerificationLatencyRow } from './aggregator-storage';
+import type { LatencyPercentiles, ProviderVerificationLatency } from './types';
+
+/**
+ * Summarizes the recorded latencies per provider, ordered by provider name.
+ */
+export function summarizeVerificationLatencies(rows: VerificationLatencyRow[]): ProviderVerificationLatency[] {
+	const byProvider = new Map<string, { firstVerification: number[]; firstMasterVerification: number[] }>();
+	for (const row of rows) {
+		const latencies = byProvider.get(row.providerName) ?? { firstVerification: [], firstMasterVerification: [] };
+		latencies[row.kind].push(row.latencyMs);
+		byProvider.set(row.providerName, latencies);
+	}
+
+	return [...byProvider.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([providerName, latencies]) => ({
+			providerName,
+			firstVerification: computeLatencyPercentiles(latencies.firstVerification),
+			firstMasterVerification: computeLatencyPercentiles(latencies.firstMasterVerification),
+		}));
+}
+
+/**
+ * Nearest-rank percentiles: the smallest latency that at least p% of the latencies do not exceed.
+ * @returns null for no latencies
+ */
+export function computeLatencyPercentiles(latencies: number[]): LatencyPercentiles | null {
+	if (latencies.length === 0) return null;
+	const sorted = [...latencies].sort((a, b) => a - b);
+	const percentile = (p: number) => sorted[Math.ceil((p / 100) * sorted.length) - 1] ?? 0;
+	return {
+		count: sorted.length,
+		p50Ms: percentile(50),
+		p90Ms: percentile(90),
+		p95Ms: percentile(95),
+		maxMs: sorted[sorted.length - 1] ?? 0,
+	};
+}
@@ -0,0 +1,112 @@
+import { now } from './time-utils';
+import { coerceInt } from './utils';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './constants';
+import { getScopeToken } from './access-control';
+import type { AccessControlEnv } from './access-control';
+
+// Minimal environment interface for webhook authentication
+interface WebhookAuthEnv extends AccessControlEnv {
+	/**
+	 * Comma-separated list of active HMAC secrets. Several secrets can be active at once to allow rotation.
+	 */
+	WEBHOOK_HMAC_SECRETS?: string;
+	WEBHOOK_SIGNATURE_TOLERANCE_SECONDS?: number | string;
+	/**
+	 * Set to false to stop accepting the legacy `?key=` query parameter (ingest token) for webhook ingestion.
+	 */
+	WEBHOOK_QUERY_KEY_AUTH_ENABLED?: boolean | string;
+}
+
+export type WebhookAuthResult = { ok: true; method: 'hmac' | 'query_key' } | { ok: false; reason: string };
+
+/**
+ * Authenticates a webhook POST request.
+ *
+ * When HMAC secrets are configured and the request carries the signature headers, the signature is verified as
+ * `HMAC-SHA256(secret, "<timestamp>.<raw body>")` (hex encoded, optionally prefixed with `sha256=`) against every
+ * active secret, and the timestamp (unix seconds) must be within the replay window.
+ * Otherwise the legacy `?key=` query parameter is compared against the ingest token, unless that fallback is disabled.
+ *
+ * @param request the incoming request (headers and URL are read, the body is not consumed)
+ * @param rawBody the raw request body text, exactly as received
+ * @param env
+ */
+export async function authenticateWebhookRequest(request: Request, rawBody: string, env: WebhookAuthEnv): Promise<WebhookAuthResult> {
+	const secrets = getWebhookHmacSecrets(env);
+	const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER);
+	const timestamp = request.headers.get(WEBHOOK_TIMESTAMP_HEADER);
+
+	if (secrets.length > 0 && (signature || timestamp)) {
+		if (!signature || !timestamp) {
+			return { ok: false, reason: 'missing_signature_header' };
+		}
+		if (!isTimestampWithinReplayWindow(timestamp, env)) {
+			return { ok: false, reason: 'timestamp_outside_replay_window' };
+		}
+		const valid = await verifyHmacSignature(secrets, `${timestamp}.${rawBody}`, signature);
+		return valid ? { ok: true, method: 'hmac' } : { ok: false, reason: 'invalid_signature' };
+	}
+
+	if (!isQueryKeyAuthEnabled(env)) {
+		return { ok: false, reason: 'missing_signature' };
+	}
+
+	const key = new URL(request.url).searchParams.get('key');
+	return key === getScopeToken(env, 'ingest') ? { ok: true, method: 'query_key' } : { ok: false, reason: 'invalid_key' };
+}
+
+/**
+ * Computes the hex encoded signature for a payload. Exported so senders (and tests) sign exactly like we verify.
+ */
+export async function signWebhookPayload(secret: string, timestamp: string, rawBody: string): Promise<string> {
+	const key = await importHmacKey(secret);
+	const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${rawBody}`));
+	return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function getWebhookHmacSecrets(env: WebhookAuthEnv): string[] {
+	return (env.WEBHOOK_HMAC_SECRETS ?? '')
+		.split(',')
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+}
+
+function isQueryKeyAuthEnabled(env: WebhookAuthEnv): boolean {
+	const value = env.WEBHOOK_QUERY_KEY_AUTH_ENABLED;
+	return !(value === false || value === 'false');
+}
+
+function isTimestampWithinReplayWindow(timestamp: string, env: WebhookAuthEnv): boolean {
+	if (!/^\d+$/.test(timestamp)) return false;
+	const toleranceSeconds = coerceInt(env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS, 300, { min: 0 });
+	const ageSeconds = Math.abs(now() / 1000 - Number(timestamp));
+	return ageSeconds <= toleranceSeconds;
+}
+
+async function verifyHmacSignature(secrets: string[], message: string, signature: string): Promise<boolean> {
+	const signatureBytes = hexToBytes(signature.replace(/^sha256=/, ''));
+	if (!signatureBytes) return false;
+
+	const data = new TextEncoder().encode(message);
+	for (const secret of secrets) {
+		// crypto.subtle.verify compares in constant time
+		const key = await importHmacKey(secret);
+		if (await crypto.subtle.verify('HMAC', key, signatureBytes, data)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+	return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function hexToBytes(hex: string): Uint8Array | undefined {
+	if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(hex)) return undefined;
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
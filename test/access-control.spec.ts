@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getScopeToken, isAuthorizedForScope } from '../src/access-control';
+
+describe('access-control', () => {
+	const env = {
+		DEBUG_KEY: 'legacy-key',
+		INGEST_TOKEN: 'ingest-token',
+		DEBUG_TOKEN: '',
+		ADMIN_TOKEN: 'admin-token',
+		TRIGGER_TOKEN: undefined,
+	};
+
+	describe('getScopeToken', () => {
+		it('returns the dedicated token for a scope', () => {
+			expect(getScopeToken(env, 'ingest')).toBe('ingest-token');
+			expect(getScopeToken(env, 'admin')).toBe('admin-token');
+		});
+
+		it('falls back to DEBUG_KEY when a scope token is empty or missing', () => {
+			expect(getScopeToken(env, 'debug')).toBe('legacy-key');
+			expect(getScopeToken(env, 'trigger')).toBe('legacy-key');
+		});
+
+		it('never falls back to DEBUG_KEY for the admin scope', () => {
+			expect(getScopeToken({ ...env, ADMIN_TOKEN: undefined }, 'admin')).toBe('');
+			expect(getScopeToken({ ...env, ADMIN_TOKEN: ' ' }, 'admin')).toBe('');
+		});
+	});
+
+	describe('isAuthorizedForScope', () => {
+		it('accepts the token from the Authorization header', () => {
+			const request = new Request('https://example.com/debug?clear=true', { headers: { Authorization: 'Bearer admin-token' } });
+
+			expect(isAuthorizedForScope(request, env, 'admin')).toBe(true);
+		});
+
+		it('accepts the token from the key query parameter', () => {
+			const request = new Request('https://example.com/trigger?key=legacy-key');
+
+			expect(isAuthorizedForScope(request, env, 'trigger')).toBe(true);
+		});
+
+		it('rejects a token issued for a different scope', () => {
+			const request = new Request('https://example.com/debug?clear=true&key=ingest-token');
+
+			expect(isAuthorizedForScope(request, env, 'admin')).toBe(false);
+		});
+
+		it('rejects the legacy key once a dedicated token is configured', () => {
+			const request = new Request('https://example.com/debug?clear=true', { headers: { Authorization: 'Bearer legacy-key' } });
+
+			expect(isAuthorizedForScope(request, env, 'admin')).toBe(false);
+		});
+
+		it('rejects admin requests while ADMIN_TOKEN is unset', () => {
+			const request = new Request('https://example.com/debug?clear=true&key=legacy-key');
+
+			expect(isAuthorizedForScope(request, { ...env, ADMIN_TOKEN: '' }, 'admin')).toBe(false);
+		});
+
+		it('rejects a token that only shares a prefix with the expected one', () => {
+			const request = new Request('https://example.com/debug?clear=true', { headers: { Authorization: 'Bearer admin-token-extra' } });
+
+			expect(isAuthorizedForScope(request, env, 'admin')).toBe(false);
+		});
+	});
+});
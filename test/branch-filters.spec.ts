@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { getBranchFilterAction, parseBranchFilters } from '../src/branch-filters';
+import { makeContractPublicationPayload, makeProviderVerificationPayload } from './test-utilities';
+
+const BRANCH_FILTERS = {
+	'*': [
+		{ exclude: ['dependabot/*', 'renovate/*'], action: 'drop' },
+		{ exclude: 'tmp/*', action: 'store_only' },
+	],
+	TestConsumer: { exclude: 'experiment/*', action: 'skip_main_channel' },
+	TestProvider: { include: ['develop', 'master', 'release/*'], action: 'skip_main_channel' },
+};
+
+describe('branch filters', () => {
+	describe('getBranchFilterAction', () => {
+		const env = { BRANCH_FILTERS };
+
+		it('mutes nothing without filters or on branches no rule mutes', () => {
+			expect(getBranchFilterAction({}, makeContractPublicationPayload({ consumerVersionBranch: 'dependabot/npm' }))).toBeUndefined();
+			expect(getBranchFilterAction(env, makeContractPublicationPayload({ consumerVersionBranch: 'main' }))).toBeUndefined();
+			expect(getBranchFilterAction(env, makeProviderVerificationPayload({ providerVersionBranch: 'release/2.1' }))).toBeUndefined();
+		});
+
+		it('checks the global rules against the consumer and the provider branch', () => {
+			expect(getBranchFilterAction(env, makeContractPublicationPayload({ consumerVersionBranch: 'renovate/lodash' }))).toBe('drop');
+			expect(getBranchFilterAction(env, makeProviderVerificationPayload({ consumerVersionBranch: 'tmp/spike' }))).toBe('store_only');
+			expect(getBranchFilterAction(env, makeProviderVerificationPayload({ providerVersionBranch: 'tmp/spike' }))).toBe('store_only');
+		});
+
+		it('checks pacticipant rules against the branch of that pacticipant only', () => {
+			expect(getBranchFilterAction(env, makeContractPublicationPayload({ consumerVersionBranch: 'experiment/ui' }))).toBe(
+				'skip_main_channel',
+			);
+			expect(getBranchFilterAction(env, makeProviderVerificationPayload({ providerVersionBranch: 'feature/login' }))).toBe(
+				'skip_main_channel',
+			);
+			// Publications carry no provider branch, so the provider's include list does not apply to them
+			expect(getBranchFilterAction(env, makeContractPublicationPayload({ providerVersionBranch: '' }))).toBeUndefined();
+		});
+
+		it('applies the strongest action when several rules mute an event', () => {
+			const verification = makeProviderVerificationPayload({ consumerVersionBranch: 'experiment/ui', providerVersionBranch: 'tmp/x' });
+
+			expect(getBranchFilterAction(env, verification)).toBe('store_only');
+		});
+	});
+
+	describe('parseBranchFilters', () => {
+		it('accepts single rules, lists of rules and a JSON string', () => {
+			const { filters, errors } = parseBranchFilters({ BRANCH_FILTERS: JSON.stringify(BRANCH_FILTERS) });
+
+			expect(errors).toEqual([]);
+			expect(filters).toEqual({
+				'*': [
+					{ exclude: ['dependabot/*', 'renovate/*'], action: 'drop' },
+					{ exclude: ['tmp/*'], action: 'store_only' },
+				],
+				TestConsumer: [{ exclude: ['experiment/*'], action: 'skip_main_channel' }],
+				TestProvider: [{ include: ['develop', 'master', 'release/*'], action: 'skip_main_channel' }],
+			});
+			expect(parseBranchFilters({ BRANCH_FILTERS: '' })).toEqual({ filters: {}, errors: [] });
+		});
+
+		it('drops invalid rules and reports every problem', () => {
+			const { filters, errors } = parseBranchFilters({
+				BRANCH_FILTERS: {
+					'*': [{ exclude: 'tmp/*', action: 'drop' }, { action: 'mute' }, 'dependabot/*'],
+					TestProvider: { includes: ['main'], exclude: [], action: 'drop' },
+				},
+			});
+
+			expect(filters).toEqual({ '*': [{ exclude: ['tmp/*'], action: 'drop' }] });
+			expect(errors).toEqual([
+				'BRANCH_FILTERS.*[1].action: expected one of drop, store_only, skip_main_channel',
+				'BRANCH_FILTERS.*[1]: expected include or exclude branch globs',
+				'BRANCH_FILTERS.*[2]: expected an object',
+				'BRANCH_FILTERS.TestProvider.includes: unknown field',
+				'BRANCH_FILTERS.TestProvider.exclude: expected a branch glob or a non-empty array of branch globs',
+				'BRANCH_FILTERS.TestProvider: expected include or exclude branch globs',
+			]);
+		});
+
+		it('reports invalid JSON and a config that is not an object', () => {
+			expect(parseBranchFilters({ BRANCH_FILTERS: '{' })).toEqual({ filters: {}, errors: ['BRANCH_FILTERS: invalid JSON'] });
+			expect(parseBranchFilters({ BRANCH_FILTERS: [{ exclude: 'tmp/*', action: 'drop' }] }).errors).toEqual([
+				'BRANCH_FILTERS: expected an object of pacticipant branch filters',
+			]);
+		});
+	});
+});
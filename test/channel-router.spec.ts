@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { getMainChannels, getProviderChannels, parseChannelRoutes, routePayload } from '../src/channel-router';
+import type { ChannelRouterEnv } from '../src/channel-router';
+import { makeContractPublicationPayload, makeProviderVerificationPayload } from './test-utilities';
+import { PROVIDER_VERIFICATION_FAILED } from '../src/constants';
+
+function routerEnv(routes: unknown): ChannelRouterEnv {
+	return { SLACK_CHANNEL: '#pact-main', PROVIDER_CHANNEL_PREFIX: '#pact-', CHANNEL_ROUTES: routes };
+}
+
+const ROUTES = [
+	{ scope: 'provider', branch: 'feature/*', status: 'failure', channels: ['#team-{provider}'] },
+	{ scope: 'main', provider: 'TestProvider', branch: 'master', status: 'failure', channels: ['#incidents', '#pact-main'] },
+	{ scope: 'main', consumer: 'TestConsumer', eventType: 'contract_requiring_verification_published', channels: ['#{consumer}-contracts'] },
+];
+
+describe('channel router', () => {
+	describe('routePayload', () => {
+		it('uses the default channels when no rule matches', () => {
+			const env = routerEnv(ROUTES);
+			const verification = makeProviderVerificationPayload({ providerVersionBranch: 'feature/login', githubVerificationStatus: 'success' });
+
+			expect(routePayload(env, verification)).toEqual({
+				providerChannels: ['#pact-TestProvider'],
+				mainChannels: ['#pact-main'],
+				matchedRoutes: [],
+			});
+			expect(getProviderChannels(routerEnv(undefined), verification)).toEqual(['#pact-TestProvider']);
+		});
+
+		it('sends feature branch failures to the team channel and master failures to the incidents channel', () => {
+			const env = routerEnv(ROUTES);
+			const featureFailure = makeProviderVerificationPayload({
+				providerVersionBranch: 'feature/login',
+				githubVerificationStatus: 'failure',
+			});
+			const masterFailure = {
+				...makeProviderVerificationPayload({ providerVersionBranch: 'master', githubVerificationStatus: 'failure' }),
+				eventType: PROVIDER_VERIFICATION_FAILED,
+			};
+
+			expect(getProviderChannels(env, featureFailure)).toEqual(['#team-TestProvider']);
+			expect(getMainChannels(env, featureFailure)).toEqual(['#pact-main']);
+			expect(getProviderChannels(env, masterFailure)).toEqual(['#pact-TestProvider']);
+			expect(getMainChannels(env, masterFailure)).toEqual(['#incidents', '#pact-main']);
+		});
+
+		it('matches the consumer branch and event type of publications, but no status', () => {
+			const env = routerEnv([...ROUTES, { scope: 'provider', branch: 'main', status: 'success', channels: ['#never'] }]);
+			const publication = makeContractPublicationPayload({ consumerVersionBranch: 'main' });
+
+			const routing = routePayload(env, publication);
+
+			expect(routing.providerChannels).toEqual(['#pact-TestProvider']);
+			expect(routing.mainChannels).toEqual(['#TestConsumer-contracts']);
+			expect(routing.matchedRoutes).toEqual([
+				{
+					scope: 'main',
+					consumer: 'TestConsumer',
+					eventType: ['contract_requiring_verification_published'],
+					channels: ['#{consumer}-contracts'],
+				},
+			]);
+		});
+
+		it('combines the channels of all matching rules without duplicates', () => {
+			const env = routerEnv([
+				{ scope: 'provider', provider: 'TestProvider', channels: ['#a', '#b'] },
+				{ scope: 'provider', consumer: 'TestConsumer', channels: ['#b', '#c'] },
+			]);
+
+			expect(getProviderChannels(env, makeContractPublicationPayload({}))).toEqual(['#a', '#b', '#c']);
+		});
+	});
+
+	describe('parseChannelRoutes', () => {
+		it('accepts a JSON string', () => {
+			const { routes, errors } = parseChannelRoutes(routerEnv(JSON.stringify(ROUTES)));
+
+			expect(errors).toEqual([]);
+			expect(routes).toHaveLength(3);
+			expect(parseChannelRoutes(routerEnv(''))).toEqual({ routes: [], errors: [] });
+		});
+
+		it('drops invalid rules and reports every problem', () => {
+			const { routes, errors } = parseChannelRoutes(
+				routerEnv([
+					{ scope: 'provider', channels: ['#ok'] },
+					{ scope: 'everywhere', channels: [] },
+					{ scope: 'main', branches: 'master', status: 'broken', channels: ['#main'] },
+					'#channel',
+				]),
+			);
+
+			expect(routes).toEqual([{ scope: 'provider', channels: ['#ok'] }]);
+			expect(errors).toEqual([
+				'CHANNEL_ROUTES[1].scope: expected one of provider, main',
+				'CHANNEL_ROUTES[1].channels: expected a non-empty array of channels',
+				'CHANNEL_ROUTES[2].branches: unknown field',
+				'CHANNEL_ROUTES[2].status: expected one of success, failure',
+				'CHANNEL_ROUTES[3]: expected an object',
+			]);
+		});
+
+		it('reports invalid JSON and a config that is not an array', () => {
+			expect(parseChannelRoutes(routerEnv('[{'))).toEqual({ routes: [], errors: ['CHANNEL_ROUTES: invalid JSON'] });
+			expect(parseChannelRoutes(routerEnv({ scope: 'main' }))).toEqual({
+				routes: [],
+				errors: ['CHANNEL_ROUTES: expected an array of routes'],
+			});
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	CommitAuthorLookupError,
+	createGithubCommitAuthorLookup,
+	createStaticSlackUserLookup,
+	findCommitAuthorSlackUser,
+	isCommitAuthorDmEnabled,
+} from '../src/commit-authors';
+
+const githubEnv = {
+	GITHUB_BASE_URL: 'https://github.com/test-org',
+	PACTICIPANT_TO_REPO_MAP: { TestConsumer: 'consumer-repo' },
+	SLACK_CHANNEL: '#ci',
+	SLACK_TOKEN: 'xoxb-test',
+};
+
+describe('commit authors', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe('findCommitAuthorSlackUser', () => {
+		it('returns the user of the first Slack user lookup that knows the author email', async () => {
+			const emailLookup = vi.fn().mockResolvedValue('jane@example.com');
+			const unknown = vi.fn().mockResolvedValue(undefined);
+			const known = vi.fn().mockResolvedValue('U0456DEF');
+
+			expect(await findCommitAuthorSlackUser('TestConsumer', 'abc123', emailLookup, [unknown, known])).toBe('U0456DEF');
+			expect(emailLookup).toHaveBeenCalledWith('TestConsumer', 'abc123');
+			expect(unknown).toHaveBeenCalledWith('jane@example.com');
+		});
+
+		it('returns undefined when the email or the Slack user is unknown, and throws when a lookup fails', async () => {
+			const known = vi.fn().mockResolvedValue('U0456DEF');
+
+			expect(await findCommitAuthorSlackUser('TestConsumer', 'abc123', () => Promise.resolve(undefined), [known])).toBeUndefined();
+			expect(known).not.toHaveBeenCalled();
+			expect(await findCommitAuthorSlackUser('TestConsumer', 'abc123', () => Promise.resolve('jane@example.com'), [])).toBeUndefined();
+			await expect(
+				findCommitAuthorSlackUser('TestConsumer', 'abc123', () => Promise.reject(new Error('network down')), [known]),
+			).rejects.toThrow('network down');
+		});
+	});
+
+	describe('createGithubCommitAuthorLookup', () => {
+		it('reads the author email of the commit in the pacticipant repository', async () => {
+			const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ commit: { author: { email: 'jane@example.com' } } })));
+			vi.stubGlobal('fetch', fetchMock);
+
+			const email = await createGithubCommitAuthorLookup({ ...githubEnv, GITHUB_TOKEN: 'ghp-test' })('TestConsumer', 'abc123');
+
+			expect(email).toBe('jane@example.com');
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe('https://api.github.com/repos/test-org/consumer-repo/commits/abc123');
+			expect(init.headers).toMatchObject({ Authorization: 'Bearer ghp-test' });
+		});
+
+		it('returns undefined when GitHub does not know the commit', async () => {
+			vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('Not Found', { status: 404 })));
+
+			expect(
+				await createGithubCommitAuthorLookup({ ...githubEnv, GITHUB_API_BASE_URL: 'https://github.example.com/api/v3/' })('Other', 'abc'),
+			).toBeUndefined();
+			expect((globalThis.fetch as ReturnType<typeof vi.fn>).mock.calls[0]?.[0]).toBe(
+				'https://github.example.com/api/v3/repos/test-org/other/commits/abc',
+			);
+		});
+
+		it('throws when GitHub fails or rate-limits the lookup', async () => {
+			for (const status of [502, 429]) {
+				vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('Unavailable', { status })));
+
+				const error: unknown = await createGithubCommitAuthorLookup(githubEnv)('TestConsumer', 'abc123').catch((e: unknown) => e);
+
+				expect(error).toBeInstanceOf(CommitAuthorLookupError);
+				expect((error as CommitAuthorLookupError).status).toBe(status);
+			}
+		});
+	});
+
+	describe('createStaticSlackUserLookup', () => {
+		it('maps emails case-insensitively, from an object or a JSON string', async () => {
+			const lookup = createStaticSlackUserLookup({ COMMIT_AUTHOR_SLACK_USERS: { 'Jane@Example.com': 'U0456DEF' } });
+			expect(await lookup('jane@example.com')).toBe('U0456DEF');
+			expect(await lookup('john@example.com')).toBeUndefined();
+
+			const fromJson = createStaticSlackUserLookup({ COMMIT_AUTHOR_SLACK_USERS: '{"jane@example.com": "U0456DEF"}' });
+			expect(await fromJson('jane@example.com')).toBe('U0456DEF');
+		});
+	});
+
+	describe('isCommitAuthorDmEnabled', () => {
+		it('is off unless enabled', () => {
+			expect(isCommitAuthorDmEnabled({})).toBe(false);
+			expect(isCommitAuthorDmEnabled({ COMMIT_AUTHOR_DM_ENABLED: 'true' })).toBe(true);
+			expect(isCommitAuthorDmEnabled({ COMMIT_AUTHOR_DM_ENABLED: true })).toBe(true);
+		});
+	});
+});
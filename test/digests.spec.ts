@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { buildDigestReport, isDigestEnabled, isEmptyDigestReport } from '../src/digests';
+import { CONTRACT_PUBLISHED } from '../src/constants';
+import { activity, makeContractPublicationPayload, verification } from './test-utilities';
+
+const HOUR_MS = 60 * 60 * 1000;
+const digestEnv = { DEFAULT_MASTER_BRANCH: 'main' };
+
+function publication(consumerVersionNumber: string, pactVersion: string, consumerVersionBranch = 'main') {
+	return makeContractPublicationPayload({
+		consumerVersionNumber,
+		consumerVersionBranch,
+		pactUrl: `https://broker.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/${pactVersion}`,
+	});
+}
+
+describe('digests', () => {
+	describe('buildDigestReport', () => {
+		const period = { period: 'daily' as const, from: 24 * HOUR_MS, to: 48 * HOUR_MS };
+
+		it('counts publications and verifications within the period only', () => {
+			const report = buildDigestReport(
+				activity(
+					[1 * HOUR_MS, publication('1.0.0', 'p1')],
+					[25 * HOUR_MS, publication('1.1.0', 'p2')],
+					// The same publication reported by another event type
+					[25 * HOUR_MS, { ...publication('1.1.0', 'p2'), eventType: CONTRACT_PUBLISHED }],
+					[26 * HOUR_MS, verification(true, 'p2')],
+					[27 * HOUR_MS, verification(false, 'p2', 'feature')],
+					[49 * HOUR_MS, verification(false, 'p2')],
+				),
+				period,
+				digestEnv,
+			);
+
+			expect(report.publishedPacts.map((p) => p.consumerVersionNumber)).toEqual(['1.1.0']);
+			expect(report.verificationsSucceeded).toBe(1);
+			expect(report.verificationsFailed).toBe(1);
+			expect(report.providerName).toBeUndefined();
+		});
+
+		it('lists the latest pact version per consumer branch without a verification result as unverified', () => {
+			const report = buildDigestReport(
+				activity(
+					[1 * HOUR_MS, publication('1.0.0', 'p1')],
+					[2 * HOUR_MS, publication('1.1.0', 'p2')],
+					[3 * HOUR_MS, publication('2.0.0', 'p3', 'feature')],
+					[4 * HOUR_MS, verification(false, 'p3', 'feature')],
+				),
+				period,
+				digestEnv,
+			);
+
+			// p1 was superseded by p2 on main; p3 has a (failed) result
+			expect(report.unverifiedPacts.map((p) => p.consumerVersionNumber)).toEqual(['1.1.0']);
+		});
+
+		it('lists pairs whose latest master branch verification failed', () => {
+			const failedVerification = verification(false);
+			const failing = buildDigestReport(activity([1 * HOUR_MS, verification(true)], [2 * HOUR_MS, failedVerification]), period, digestEnv);
+			const recovered = buildDigestReport(
+				activity(
+					[1 * HOUR_MS, verification(false)],
+					[2 * HOUR_MS, verification(true)],
+					[3 * HOUR_MS, verification(false, 'p1', 'feature')],
+				),
+				period,
+				digestEnv,
+			);
+
+			expect(failing.failingVerifications.map((v) => v.verificationResultUrl)).toEqual([failedVerification.verificationResultUrl]);
+			expect(recovered.failingVerifications).toEqual([]);
+		});
+
+		it('lists pact versions that flip-flopped within the period', () => {
+			const report = buildDigestReport(
+				activity(
+					[25 * HOUR_MS, verification(true)],
+					[26 * HOUR_MS, verification(false)],
+					[27 * HOUR_MS, verification(true)],
+					// The flips of p2 happened before the period
+					[1 * HOUR_MS, verification(true, 'p2')],
+					[2 * HOUR_MS, verification(false, 'p2')],
+					[3 * HOUR_MS, verification(true, 'p2')],
+				),
+				period,
+				digestEnv,
+			);
+
+			expect(report.flakyVerifications.map((f) => [f.pactVersion, f.flips])).toEqual([['p1', 2]]);
+		});
+	});
+
+	describe('isEmptyDigestReport', () => {
+		it('is empty when nothing happened and nothing is pending', () => {
+			expect(isEmptyDigestReport(buildDigestReport([], { period: 'weekly', from: 0, to: HOUR_MS }, digestEnv))).toBe(true);
+			expect(
+				isEmptyDigestReport(
+					buildDigestReport(activity([1, publication('1.0.0', 'p1')]), { period: 'weekly', from: HOUR_MS, to: 2 * HOUR_MS }, digestEnv),
+				),
+			).toBe(false);
+		});
+	});
+
+	describe('isDigestEnabled', () => {
+		it('enables digests unless they are turned off', () => {
+			expect(isDigestEnabled({}, 'daily')).toBe(true);
+			expect(isDigestEnabled({ DAILY_DIGEST_ENABLED: 'false', WEEKLY_DIGEST_ENABLED: true }, 'daily')).toBe(false);
+			expect(isDigestEnabled({ DAILY_DIGEST_ENABLED: 'false', WEEKLY_DIGEST_ENABLED: true }, 'weekly')).toBe(true);
+			expect(isDigestEnabled({ WEEKLY_DIGEST_ENABLED: false }, 'weekly')).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { findFlakyVerifications, getFlakyVerificationWindowMs } from '../src/flaky-verifications';
+import { activity, makeContractPublicationPayload, verification } from './test-utilities';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_MS = 24 * HOUR_MS;
+
+describe('flaky verifications', () => {
+	describe('findFlakyVerifications', () => {
+		it('reports a pact version whose results flip twice within the window', () => {
+			const flaky = findFlakyVerifications(
+				activity(
+					[0, makeContractPublicationPayload({})],
+					[1 * HOUR_MS, verification(true)],
+					[2 * HOUR_MS, verification(false)],
+					[3 * HOUR_MS, verification(true)],
+					[4 * HOUR_MS, verification(true)],
+				),
+				WINDOW_MS,
+			);
+
+			expect(flaky).toMatchObject([
+				{
+					providerName: 'TestProvider',
+					consumerName: 'TestConsumer',
+					providerVersionBranch: 'main',
+					pactVersion: 'p1',
+					flips: 2,
+					lastFlipAt: 3 * HOUR_MS,
+				},
+			]);
+			expect(flaky[0]?.verificationResultUrl).toMatch(/pact-version\/p1\/verification-results\/\d+$/);
+		});
+
+		it('does not report a single fix, flips spread beyond the window or flips across branches and pact versions', () => {
+			expect(findFlakyVerifications(activity([0, verification(false)], [HOUR_MS, verification(true)]), WINDOW_MS)).toEqual([]);
+			expect(
+				findFlakyVerifications(
+					activity([0, verification(true)], [HOUR_MS, verification(false)], [WINDOW_MS + 2 * HOUR_MS, verification(true)]),
+					WINDOW_MS,
+				),
+			).toEqual([]);
+			expect(
+				findFlakyVerifications(
+					activity(
+						[0, verification(true)],
+						[HOUR_MS, verification(false, 'p1', 'feature')],
+						[2 * HOUR_MS, verification(true, 'p2')],
+						[3 * HOUR_MS, verification(false)],
+					),
+					WINDOW_MS,
+				),
+			).toEqual([]);
+		});
+
+		it('is disabled with an empty window', () => {
+			expect(findFlakyVerifications(activity([0, verification(true)], [1, verification(false)], [2, verification(true)]), 0)).toEqual([]);
+		});
+	});
+
+	describe('getFlakyVerificationWindowMs', () => {
+		it('defaults to a day', () => {
+			expect(getFlakyVerificationWindowMs({})).toBe(WINDOW_MS);
+			expect(getFlakyVerificationWindowMs({ FLAKY_VERIFICATION_WINDOW_MINUTES: '60' })).toBe(HOUR_MS);
+			expect(getFlakyVerificationWindowMs({ FLAKY_VERIFICATION_WINDOW_MINUTES: 0 })).toBe(0);
+		});
+	});
+});
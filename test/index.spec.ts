@@ -1,19 +1,39 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF, runInDurableObject } from 'cloudflare:test';
+import { env, createExecutionContext, waitOnExecutionContext, SELF, runInDurableObject, runDurableObjectAlarm } from 'cloudflare:test';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import worker from '../src/index';
-import { makeProviderVerificationPayload, makeContractPublicationPayload, expectTimestampToBeRecent } from './test-utilities';
-import { withRetentionPolicyForDurableObject } from './do-env-overrides';
 import {
+	makeProviderVerificationPayload,
+	makeContractPublicationPayload,
+	makeDeploymentPayload,
+	expectTimestampToBeRecent,
+} from './test-utilities';
+import { withDurableObjectEnvOverride, withRetentionPolicyForDurableObject } from './do-env-overrides';
+import {
+	DeadLetterEntry,
 	DebugInfo,
+	FlakyVerification,
 	PactWebhookPayload,
+	PayloadFieldError,
 	ProviderVerificationPublishedPayload,
+	ProviderVerificationLatency,
 	PublicationThreadInfo,
 	SlackPostMessageRequest,
 	SlackPostMessageResponse,
 	SlackUpdateMessageRequest,
+	WebhookPayload,
 } from '../src/types';
 import { mockTime, now, resetTime } from '../src/time-utils';
-import { THREAD_REMOVAL_NOTICE, THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE } from '../src/constants';
+import {
+	THREAD_REMOVAL_NOTICE,
+	THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+	PACTICIPANT_VERSION_RELEASED,
+	AWAITING_VERIFICATION_NOTICE,
+	DAY_MS,
+	CONTRACT_CONTENT_CHANGED,
+} from '../src/constants';
+import { signWebhookPayload } from '../src/webhook-auth';
 
 interface SlackCallMock {
 	text?: string;
@@ -90,14 +110,14 @@ describe('Pact Slack Aggregator Worker', () => {
 					if (url.includes('slack.com/api/chat.postMessage')) {
 						return Promise.resolve({
 							ok: true,
-							json: () => Promise.resolve({ ok: false, error: 'channel_not_found' }),
+							json: () => Promise.resolve({ ok: false, error: 'service_unavailable' }),
 						});
 					}
 					return Promise.resolve({ ok: true, json: () => Promise.resolve({ ok: true }) });
 				});
 				vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch);
 
-				const triggerResponse = await trigger();
+				const triggerResponse = await triggerWithEnvOverride({ SLACK_MAX_RETRIES: 0 });
 				expect(triggerResponse.status).toBe(200);
 				await new Promise((resolve) => setTimeout(resolve, 50));
 
@@ -154,12 +174,13 @@ describe('Pact Slack Aggregator Worker', () => {
 				});
 				vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch);
 
-				const triggerResponse = await trigger();
+				const triggerResponse = await triggerWithEnvOverride({ SLACK_MAX_RETRIES: 2, SLACK_RETRY_BASE_DELAY_MS: 1 });
 				expect(triggerResponse.status).toBe(200);
 				await new Promise((resolve) => setTimeout(resolve, 50));
 
+				// The rate-limited thread post is retried before giving up
 				const postCalls = fetchMock.mock.calls.filter(([u]) => (u as string).includes('chat.postMessage'));
-				expect(postCalls.length).toBe(2);
+				expect(postCalls.length).toBe(1 + 3);
 
 				// Events should remain in Durable Object storage to allow retry
 				const debugResponse = await debug();
@@ -171,6 +192,103 @@ describe('Pact Slack Aggregator Worker', () => {
 			}
 		});
 
+		it('should post without Pact Broker details when the broker is down, and use cached details once it is back', async () => {
+			try {
+				const brokerEnv = { PACT_BROKER_BASE_URL: 'https://broker.example.com' };
+				const pactUrl = 'https://broker.example.com/pacts/provider/ServiceA/consumer/Consumer1/pact-version/abc';
+				let brokerUp = false;
+				const fetchMock = vi.fn().mockImplementation((url: string) => {
+					if (url.startsWith('https://broker.example.com')) {
+						if (!brokerUp) return Promise.reject(new Error('connect ECONNREFUSED'));
+						return Promise.resolve(new Response(JSON.stringify({ interactions: [{ description: 'a' }, { description: 'b' }] })));
+					}
+					return Promise.resolve({ ok: true, json: () => Promise.resolve({ ok: true, ts: '1234567890.123', channel: 'CHANNEL_ID' }) });
+				});
+				vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch);
+				const threadTexts = () =>
+					fetchMock.mock.calls
+						.filter(
+							([u, init]) =>
+								(u as string).includes('chat.postMessage') && (JSON.parse((init as { body: string }).body) as SlackCallMock).thread_ts,
+						)
+						.map(([, init]) => (JSON.parse((init as { body: string }).body) as SlackCallMock).text ?? '');
+
+				const publish = async (consumerVersionNumber: string, baseTime: number) => {
+					mockTime(() => baseTime);
+					await sendEventWithEnvOverride(
+						makeContractPublicationPayload({ providerName: 'ServiceA', consumerName: 'Consumer1', pactUrl, consumerVersionNumber }),
+						brokerEnv,
+					);
+					mockTime(() => baseTime + env.MINUTE_BUCKET_MS + env.QUIET_PERIOD_MS + 1);
+					const response = await triggerWithEnvOverride(brokerEnv);
+					expect(response.status).toBe(200);
+				};
+
+				await publish('1.0.0', 0);
+				expect(threadTexts()).toHaveLength(1);
+				expect(threadTexts()[0]).not.toContain('interactions');
+				const debugData: DebugInfo = await (await debug()).json();
+				expect(debugData.totalEvents).toBe(0);
+
+				brokerUp = true;
+				await publish('1.0.1', 10 * env.MINUTE_BUCKET_MS);
+				await publish('1.0.2', 20 * env.MINUTE_BUCKET_MS);
+				expect(threadTexts().slice(1)).toEqual([expect.stringContaining('2 interactions.'), expect.stringContaining('2 interactions.')]);
+				// The second lookup was served from the Durable Object cache
+				expect(fetchMock.mock.calls.filter(([u]) => (u as string) === pactUrl)).toHaveLength(2);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should show the Pact Broker details and diff on contract_content_changed lines', async () => {
+			try {
+				const brokerEnv = { PACT_BROKER_BASE_URL: 'https://broker.example.com' };
+				const pactUrl = 'https://broker.example.com/pacts/provider/ServiceA/consumer/Consumer1/pact-version/new';
+				const previousUrl = 'https://broker.example.com/pacts/provider/ServiceA/consumer/Consumer1/pact-version/old';
+				const brokerResponses: Record<string, unknown> = {
+					[pactUrl]: {
+						interactions: [{ description: 'a' }, { description: 'b' }],
+						_links: { 'pb:previous-distinct': { href: previousUrl }, 'pb:diff-previous-distinct': { href: `${pactUrl}/diff` } },
+					},
+					[previousUrl]: { interactions: [{ description: 'a' }] },
+					[`${pactUrl}/diff`]: '+ b',
+				};
+				const fetchMock = vi.fn().mockImplementation((url: string) => {
+					if (url in brokerResponses) {
+						const body = brokerResponses[url];
+						return Promise.resolve(new Response(typeof body === 'string' ? body : JSON.stringify(body)));
+					}
+					if (url.startsWith('https://broker.example.com')) return Promise.resolve(new Response('Not found', { status: 404 }));
+					return Promise.resolve({ ok: true, json: () => Promise.resolve({ ok: true, ts: '1234567890.123', channel: 'CHANNEL_ID' }) });
+				});
+				vi.stubGlobal('fetch', fetchMock as unknown as typeof fetch);
+
+				mockTime(() => 0);
+				await sendEventWithEnvOverride(
+					{
+						...makeContractPublicationPayload({ providerName: 'ServiceA', consumerName: 'Consumer1', pactUrl }),
+						eventType: CONTRACT_CONTENT_CHANGED,
+					},
+					brokerEnv,
+				);
+				mockTime(() => env.MINUTE_BUCKET_MS + env.QUIET_PERIOD_MS + 1);
+				expect((await triggerWithEnvOverride(brokerEnv)).status).toBe(200);
+
+				const threadTexts = fetchMock.mock.calls
+					.filter(
+						([u, init]) =>
+							(u as string).includes('chat.postMessage') && (JSON.parse((init as { body: string }).body) as SlackCallMock).thread_ts,
+					)
+					.map(([, init]) => (JSON.parse((init as { body: string }).body) as SlackCallMock).text ?? '');
+				expect(threadTexts).toEqual([expect.stringContaining('with changed content')]);
+				expect(threadTexts[0]).toContain('. 1 interaction added, 0 removed (2 in total). <');
+				expect(threadTexts[0]).toMatch(/\n```\+ b```$/);
+			} finally {
+				resetTime();
+			}
+		});
+
 		it('should delete events when Slack posts succeed', async () => {
 			try {
 				const baseTime = 0;
@@ -204,6 +322,78 @@ describe('Pact Slack Aggregator Worker', () => {
 				resetTime();
 			}
 		});
+		it('should ack groups individually and dead-letter a group that keeps failing', async () => {
+			try {
+				mockTime(() => 0);
+				await sendEvent(makeProviderVerificationPayload({ providerName: 'ServiceA', providerVersionNumber: 'version123' }));
+				await sendEvent(
+					makeProviderVerificationPayload({
+						providerName: 'ServiceB',
+						providerVersionNumber: 'version456',
+						verificationResultUrl: 'https://pact.example.com/pacts/provider/ServiceB/consumer/C/pact-version/abc/verification-results/2',
+					}),
+				);
+
+				// The summary of ServiceB always fails while Slack is unavailable
+				vi.stubGlobal(
+					'fetch',
+					vi.fn().mockImplementation((url: string, options?: { body?: string }) => {
+						const body = JSON.parse(options?.body ?? '{}') as SlackCallMock;
+						const rejected = url.includes('chat.postMessage') && !body.thread_ts && body.text?.includes('ServiceB');
+						return Promise.resolve({
+							ok: true,
+							json: () => Promise.resolve(rejected ? { ok: false, error: 'internal_error' } : { ok: true, ts: '1.1', channel: 'C1' }),
+						});
+					}),
+				);
+
+				const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+				let currentTime = 0;
+				const triggerNextMinute = async () => {
+					currentTime += env.MINUTE_BUCKET_MS + env.QUIET_PERIOD_MS + 1;
+					mockTime(() => currentTime);
+					expect((await triggerWithEnvOverride({ SLACK_MAX_RETRIES: 0 })).status).toBe(200);
+				};
+				const deadLetters = async () =>
+					(await SELF.fetch(`https://example.com/dead-letters?key=${env.DEBUG_KEY}`)).json<DeadLetterEntry[]>();
+
+				await withDurableObjectEnvOverride(aggregatorStub, { PUBLISH_MAX_ATTEMPTS: 2 }, async () => {
+					await triggerNextMinute();
+					const afterFirstFailure: DebugInfo = await (await debug()).json();
+					expect(afterFirstFailure).toMatchObject({
+						totalEvents: 1,
+						totalProcessedEvents: 1,
+						publishFailures: { 'ServiceB:version456': 1 },
+					});
+
+					await triggerNextMinute();
+					const [deadLetter] = await deadLetters();
+					expect(deadLetter).toMatchObject({
+						groupKey: 'ServiceB:version456',
+						attempts: 2,
+						lastError: 'Slack summary post failed: internal_error',
+					});
+					const afterDeadLetter: DebugInfo = await (await debug()).json();
+					expect(afterDeadLetter).toMatchObject({ totalEvents: 0, publishFailures: {}, deadLetterCount: 1 });
+
+					// Replayed events are published again (and dead-lettered again while Slack keeps failing)
+					const replay = await SELF.fetch(`https://example.com/dead-letters?key=${env.ADMIN_TOKEN}&replay=${deadLetter!.id}`);
+					expect(replay.status).toBe(200);
+					expect((await (await debug()).json<DebugInfo>()).totalEvents).toBe(1);
+					await triggerNextMinute();
+					await triggerNextMinute();
+					const [deadLetteredAgain] = await deadLetters();
+
+					const discard = await SELF.fetch(`https://example.com/dead-letters?key=${env.ADMIN_TOKEN}&discard=${deadLetteredAgain!.id}`);
+					expect(discard.status).toBe(200);
+					expect(await deadLetters()).toEqual([]);
+					const missing = await SELF.fetch(`https://example.com/dead-letters?key=${env.ADMIN_TOKEN}&discard=${deadLetteredAgain!.id}`);
+					expect(missing.status).toBe(404);
+				});
+			} finally {
+				resetTime();
+			}
+		});
 	});
 
 	afterEach(() => {
@@ -219,6 +409,33 @@ describe('Pact Slack Aggregator Worker', () => {
 			expect(await response.text()).toBe('OK');
 		});
 
+		it('should fail the webhook when the event cannot be stored, so the Pact Broker retries it', async () => {
+			// A Durable Object that throws breaks the isolated test storage, so the failing stub is faked
+			const failingAggregator = { addEvent: () => Promise.reject(new Error('storage unavailable')) };
+			const response = await sendEventWithEnvOverride(makeProviderVerificationPayload(), {
+				PACT_AGGREGATOR: { getByName: () => failingAggregator },
+			});
+
+			expect(response.status).toBe(500);
+		});
+
+		it('should acknowledge duplicate deliveries without storing or posting them again', async () => {
+			const payload = makeProviderVerificationPayload();
+			const first = await sendEvent(payload);
+			const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+			const slackCallsAfterFirst = fetchMock.mock.calls.length;
+
+			const retry = await sendEvent(payload);
+
+			expect(first.status).toBe(200);
+			expect(retry.status).toBe(200);
+			expect(fetchMock.mock.calls.length).toBe(slackCallsAfterFirst);
+
+			const debugData: DebugInfo = await (await debug()).json();
+			expect(debugData.totalEvents).toBe(1);
+			expect(debugData.suppressedDuplicates).toBe(1);
+		});
+
 		it('should reject non-POST requests', async () => {
 			const response = await SELF.fetch('https://example.com', {
 				method: 'GET',
@@ -235,7 +452,29 @@ describe('Pact Slack Aggregator Worker', () => {
 				body: 'invalid json',
 			});
 
-			expect(response.status).toBe(500);
+			expect(response.status).toBe(400);
+			expect(await response.json()).toEqual({ error: 'invalid_json', errors: [] });
+		});
+
+		it('should reject payloads that fail validation with a list of field errors', async () => {
+			const response = await sendEvent(
+				makeProviderVerificationPayload({
+					consumerName: '${pactbroker.consumerName}',
+					verificationResultUrl: 'https://example.com/verification-results/1',
+				}),
+			);
+
+			expect(response.status).toBe(400);
+			const body: { error: string; errors: PayloadFieldError[] } = await response.json();
+			expect(body.error).toBe('invalid_payload');
+			expect(body.errors.map((e) => [e.field, e.code])).toEqual([
+				['consumerName', 'unrendered_placeholder'],
+				['verificationResultUrl', 'missing_pact_version'],
+			]);
+
+			const debugResponse = await debug();
+			const debugData: DebugInfo = await debugResponse.json();
+			expect(debugData.totalEvents).toBe(0);
 		});
 
 		it('should reject unauthorized requests wrong key', async () => {
@@ -248,6 +487,31 @@ describe('Pact Slack Aggregator Worker', () => {
 			expect(response.status).toBe(401);
 		});
 
+		it('should accept HMAC-signed requests without a key', async () => {
+			const body = JSON.stringify(makeProviderVerificationPayload());
+			const timestamp = String(Math.floor(Date.now() / 1000));
+			const secret = env.WEBHOOK_HMAC_SECRETS.split(',')[0]!.trim();
+			const signature = await signWebhookPayload(secret, timestamp, body);
+
+			const response = await SELF.fetch('https://example.com', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					[WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`,
+					[WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+				},
+				body,
+			});
+
+			expect(response.status).toBe(200);
+		});
+
+		it('should reject the key query parameter when the fallback is disabled', async () => {
+			const response = await sendEventWithEnvOverride(makeProviderVerificationPayload(), { WEBHOOK_QUERY_KEY_AUTH_ENABLED: false });
+
+			expect(response.status).toBe(401);
+		});
+
 		it('should reject unauthorized requests no key', async () => {
 			const response = await SELF.fetch(`https://example.com`, {
 				method: 'POST',
@@ -274,7 +538,136 @@ describe('Pact Slack Aggregator Worker', () => {
 
 		it('should reject debug request with wrong key', async () => {
 			const response = await SELF.fetch('https://example.com/debug?key=wrong');
-			expect(response.status).toBe(405);
+			expect(response.status).toBe(401);
+		});
+
+		it('should enforce a separate admin token for destructive debug requests', async () => {
+			const scopedEnv = {
+				...(env as unknown as Record<string, unknown>),
+				DEBUG_TOKEN: 'read-token',
+				ADMIN_TOKEN: 'admin-token',
+			} as unknown as Env;
+			const ctx = createExecutionContext();
+
+			const readResponse = await worker.fetch(new Request('https://example.com/debug?key=read-token'), scopedEnv, ctx);
+			const clearWithReadToken = await worker.fetch(new Request('https://example.com/debug?key=read-token&clear=true'), scopedEnv, ctx);
+			const clearWithAdminHeader = await worker.fetch(
+				new Request('https://example.com/debug?clear=true', { headers: { Authorization: 'Bearer admin-token' } }),
+				scopedEnv,
+				ctx,
+			);
+
+			expect(readResponse.status).toBe(200);
+			expect(clearWithReadToken.status).toBe(401);
+			expect(clearWithAdminHeader.status).toBe(200);
+			expect(await clearWithAdminHeader.text()).toBe('State cleared');
+		});
+
+		it('should refuse destructive debug requests while ADMIN_TOKEN is unset', async () => {
+			const envWithoutAdminToken = { ...(env as unknown as Record<string, unknown>), ADMIN_TOKEN: '' } as unknown as Env;
+			const ctx = createExecutionContext();
+
+			const clearWithDebugKey = await worker.fetch(
+				new Request(`https://example.com/debug?key=${env.DEBUG_KEY}&clear=true`),
+				envWithoutAdminToken,
+				ctx,
+			);
+
+			expect(clearWithDebugKey.status).toBe(401);
+		});
+	});
+
+	describe('Flaky verifications endpoint', () => {
+		it('should list pact versions whose verification results flip-flop', async () => {
+			for (const [i, githubVerificationStatus] of ['success', 'failure', 'success'].entries()) {
+				await sendEvent(
+					makeProviderVerificationPayload({
+						providerName: 'FlakyProvider',
+						githubVerificationStatus,
+						verificationResultUrl: `https://example.com/pact-version/FLAKY/verification-results/${i}`,
+					}),
+				);
+			}
+
+			const response = await SELF.fetch(`https://example.com/flaky?key=${env.DEBUG_KEY}`);
+			expect(response.status).toBe(200);
+			expect(await response.json<FlakyVerification[]>()).toContainEqual(
+				expect.objectContaining({ providerName: 'FlakyProvider', pactVersion: 'FLAKY', flips: 2 }),
+			);
+		});
+
+		it('should reject a request with wrong key', async () => {
+			const response = await SELF.fetch('https://example.com/flaky?key=wrong');
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('Channel routes dry-run endpoint', () => {
+		const routesEnv = {
+			CHANNEL_ROUTES: [
+				{ scope: 'provider', branch: 'feature/*', status: 'failure', channels: ['#team-{provider}'] },
+				{ scope: 'main', branch: 'master', status: 'failure', channels: ['#incidents'] },
+				{ scope: 'main', channels: [] },
+			],
+		};
+		const dryRun = async (body: unknown, key = env.DEBUG_KEY) => {
+			const request = new Request(`https://example.com/routes/dry-run?key=${key}`, { method: 'POST', body: JSON.stringify(body) });
+			const mergedEnv = { ...(env as unknown as Record<string, unknown>), ...routesEnv } as unknown as Env;
+			return await worker.fetch(request, mergedEnv, createExecutionContext());
+		};
+
+		it('should return the channels a payload is routed to without posting anything', async () => {
+			const response = await dryRun(
+				makeProviderVerificationPayload({ providerVersionBranch: 'feature/x', githubVerificationStatus: 'failure' }),
+			);
+
+			expect(response.status).toBe(200);
+			expect(await response.json()).toEqual({
+				providerChannels: ['#team-TestProvider'],
+				mainChannels: [env.SLACK_CHANNEL],
+				matchedRoutes: [{ scope: 'provider', branch: 'feature/*', status: 'failure', channels: ['#team-{provider}'] }],
+				errors: ['CHANNEL_ROUTES[2].channels: expected a non-empty array of channels'],
+			});
+			expect(slackCalls).toHaveLength(0);
+		});
+
+		it('should reject an invalid payload or a request with wrong key', async () => {
+			expect((await dryRun({ eventType: 'contract_published' })).status).toBe(400);
+			const deploymentResponse = await dryRun(makeDeploymentPayload());
+			expect(deploymentResponse.status).toBe(400);
+			expect(await deploymentResponse.json()).toEqual({
+				error: 'invalid_payload',
+				errors: [{ field: 'eventType', code: 'not_routed', message: 'deployment events are not routed' }],
+			});
+			expect((await dryRun(makeProviderVerificationPayload(), 'wrong')).status).toBe(401);
+		});
+	});
+
+	describe('Verification latency endpoint', () => {
+		it('should return latency percentiles per provider', async () => {
+			try {
+				mockTime(() => 0);
+				await sendEvent(makeContractPublicationPayload({ providerName: 'LatencyProvider', consumerVersionNumber: 'latency-1' }));
+				mockTime(() => 60_000);
+				await sendEvent(makeProviderVerificationPayload({ providerName: 'LatencyProvider', providerVersionBranch: 'master' }));
+			} finally {
+				resetTime();
+			}
+
+			const response = await SELF.fetch(`https://example.com/metrics/verification-latency?provider=LatencyProvider&key=${env.DEBUG_KEY}`);
+			expect(response.status).toBe(200);
+			expect(await response.json<ProviderVerificationLatency[]>()).toEqual([
+				{
+					providerName: 'LatencyProvider',
+					firstVerification: { count: 1, p50Ms: 60_000, p90Ms: 60_000, p95Ms: 60_000, maxMs: 60_000 },
+					firstMasterVerification: { count: 1, p50Ms: 60_000, p90Ms: 60_000, p95Ms: 60_000, maxMs: 60_000 },
+				},
+			]);
+		});
+
+		it('should reject a request with wrong key', async () => {
+			const response = await SELF.fetch('https://example.com/metrics/verification-latency?key=wrong');
+			expect(response.status).toBe(401);
 		});
 	});
 
@@ -319,6 +712,75 @@ describe('Pact Slack Aggregator Worker', () => {
 		});
 	});
 
+	describe('Publishing alarm', () => {
+		const aggregatorStub = () => env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const publishAlarmTime = async () => (await (await debug()).json<DebugInfo>()).publishAlarmTime;
+		// A clock a day ahead keeps the runtime from firing the alarm on its own; the tests run it explicitly.
+		// The event arrives 55s into its bucket, so its quiet period ends after the bucket closes.
+		const bucketStart = (Math.floor(Date.now() / env.MINUTE_BUCKET_MS) + 24 * 60) * env.MINUTE_BUCKET_MS;
+		const eventTime = bucketStart + 55_000;
+		const flushTime = eventTime + env.QUIET_PERIOD_MS;
+
+		it('should publish from an alarm set for the end of the bucket and quiet period', async () => {
+			try {
+				await withDurableObjectEnvOverride(aggregatorStub(), { PUBLISH_ALARM_ENABLED: true }, async () => {
+					mockTime(() => eventTime);
+					await sendEvent(makeProviderVerificationPayload({ providerName: 'ServiceA', providerVersionNumber: 'version123' }));
+					expect(await publishAlarmTime()).toBe(new Date(flushTime).toISOString());
+
+					mockTime(() => flushTime);
+					expect(await runDurableObjectAlarm(aggregatorStub())).toBe(true);
+
+					expect(slackCalls.filter((c) => !c.thread_ts).map((c) => c.text)).toEqual([expect.stringContaining('ServiceA')]);
+					const debugData: DebugInfo = await (await debug()).json();
+					expect(debugData).toMatchObject({ totalEvents: 0, totalProcessedEvents: 1, publishAlarmTime: null });
+				});
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should reschedule the alarm while events remain unpublished', async () => {
+			try {
+				await withDurableObjectEnvOverride(aggregatorStub(), { PUBLISH_ALARM_ENABLED: true, SLACK_MAX_RETRIES: 0 }, async () => {
+					mockTime(() => eventTime);
+					await sendEvent(makeProviderVerificationPayload({ providerName: 'ServiceA', providerVersionNumber: 'version123' }));
+
+					const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+					const workingSlack = fetchMock.getMockImplementation()!;
+					fetchMock.mockImplementation(() =>
+						Promise.resolve({ ok: true, json: () => Promise.resolve({ ok: false, error: 'service_unavailable' }) }),
+					);
+					mockTime(() => flushTime);
+					await runDurableObjectAlarm(aggregatorStub());
+
+					// The failed group is retried one bucket later
+					expect(await publishAlarmTime()).toBe(new Date(flushTime + env.MINUTE_BUCKET_MS).toISOString());
+					expect((await (await debug()).json<DebugInfo>()).totalEvents).toBe(1);
+
+					fetchMock.mockImplementation(workingSlack);
+					mockTime(() => flushTime + env.MINUTE_BUCKET_MS);
+					await runDurableObjectAlarm(aggregatorStub());
+
+					expect(await (await debug()).json<DebugInfo>()).toMatchObject({ totalEvents: 0, publishAlarmTime: null });
+				});
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should not schedule alarms when PUBLISH_ALARM_ENABLED is false', async () => {
+			mockTime(() => eventTime);
+			try {
+				await sendEvent(makeProviderVerificationPayload());
+
+				expect(await publishAlarmTime()).toBeNull();
+			} finally {
+				resetTime();
+			}
+		});
+	});
+
 	describe('Full workflow with time mocking', () => {
 		it('should process events and send Slack messages with time control', async () => {
 			// Mock fetch to capture Slack API calls
@@ -335,7 +797,8 @@ describe('Pact Slack Aggregator Worker', () => {
 					makeProviderVerificationPayload({
 						providerName: 'UserService',
 						consumerName: 'WebApp',
-						verificationResultUrl: 'https://pact.example.com/verification-results/1',
+						verificationResultUrl:
+							'https://pact.example.com/pacts/provider/UserService/consumer/WebApp/pact-version/abc1/verification-results/1',
 						githubVerificationStatus: 'success',
 						consumerVersionBranch: 'main',
 						providerVersionBranch: 'main',
@@ -345,7 +808,8 @@ describe('Pact Slack Aggregator Worker', () => {
 					makeProviderVerificationPayload({
 						providerName: 'PaymentService',
 						consumerName: 'MobileApp',
-						verificationResultUrl: 'https://pact.example.com/verification-results/2',
+						verificationResultUrl:
+							'https://pact.example.com/pacts/provider/PaymentService/consumer/MobileApp/pact-version/abc2/verification-results/2',
 						githubVerificationStatus: 'failure',
 						consumerVersionBranch: 'feature/payment-update',
 						providerVersionBranch: 'main',
@@ -355,7 +819,7 @@ describe('Pact Slack Aggregator Worker', () => {
 					makeContractPublicationPayload({
 						providerName: 'NotificationService',
 						consumerName: 'AdminPanel',
-						pactUrl: 'https://pact.example.com/pacts/adminpanel-notificationservice',
+						pactUrl: 'https://pact.example.com/pacts/provider/NotificationService/consumer/AdminPanel/pact-version/abc3',
 						consumerVersionBranch: 'feature/new-notifications',
 						consumerVersionNumber: '5d549e2bea185212aa78081950838501d60420be',
 						providerVersionNumber: '50bee2bea8501d604185212aa7808195080d5492',
@@ -378,7 +842,8 @@ describe('Pact Slack Aggregator Worker', () => {
 				const extraEvent: ProviderVerificationPublishedPayload = makeProviderVerificationPayload({
 					providerName: 'PaymentService2',
 					consumerName: 'FrontEnd',
-					verificationResultUrl: 'https://pact.example.com/verification-results/3',
+					verificationResultUrl:
+						'https://pact.example.com/pacts/provider/PaymentService2/consumer/FrontEnd/pact-version/abc4/verification-results/3',
 					githubVerificationStatus: 'failure',
 					consumerVersionBranch: 'feature/payment-update2',
 					providerVersionBranch: 'main',
@@ -410,13 +875,13 @@ describe('Pact Slack Aggregator Worker', () => {
 				// Verify messages contain our test data
 				const userServiceSummary = `*UserService* <${env.GITHUB_BASE_URL}/user-service/tree/main|main> <${env.GITHUB_BASE_URL}/user-service/commit/5d54920bee2bea8501d604185212aafds8081950|5d54920>
 Pact verifications: ${env.SUCCESS_EMOJI}1`;
-				const userServiceThread = `${env.SUCCESS_EMOJI} <https://pact.example.com/verification-results/1|Results> | <https://pact.example.com|Pact> *WebApp* <${env.GITHUB_BASE_URL}/web-app/tree/main|main> <${env.GITHUB_BASE_URL}/web-app/commit/5d54920bee2bea8501d604185212aa7808195083|5d54920>`;
+				const userServiceThread = `${env.SUCCESS_EMOJI} <https://pact.example.com/pacts/provider/UserService/consumer/WebApp/pact-version/abc1/verification-results/1|Results> | <https://pact.example.com/pacts/provider/UserService/consumer/WebApp/pact-version/abc1|Pact> *WebApp* <${env.GITHUB_BASE_URL}/web-app/tree/main|main> <${env.GITHUB_BASE_URL}/web-app/commit/5d54920bee2bea8501d604185212aa7808195083|5d54920>`;
 				const paymentServiceSummary = `*PaymentService* <${env.GITHUB_BASE_URL}/payment-service/tree/main|main> <${env.GITHUB_BASE_URL}/payment-service/commit/50bee2bea8501d604185212aa7808195080d5492|50bee2b>
 Pact verifications: ${env.FAILURE_EMOJI}1`;
-				const paymentServiceThread = `${env.FAILURE_EMOJI} <https://pact.example.com/verification-results/2|Results> | <https://pact.example.com|Pact> *MobileApp* <${env.GITHUB_BASE_URL}/mobile-app/tree/feature/payment-update|feature/payment-update> <${env.GITHUB_BASE_URL}/mobile-app/commit/e2bea8501d604185212aa78081950835d54920be|e2bea85>`;
+				const paymentServiceThread = `${env.FAILURE_EMOJI} <https://pact.example.com/pacts/provider/PaymentService/consumer/MobileApp/pact-version/abc2/verification-results/2|Results> | <https://pact.example.com/pacts/provider/PaymentService/consumer/MobileApp/pact-version/abc2|Pact> *MobileApp* <${env.GITHUB_BASE_URL}/mobile-app/tree/feature/payment-update|feature/payment-update> <${env.GITHUB_BASE_URL}/mobile-app/commit/e2bea8501d604185212aa78081950835d54920be|e2bea85>`;
 				const adminPanelSummary = `*AdminPanel* <${env.GITHUB_BASE_URL}/admin-panel/tree/feature/new-notifications|feature/new-notifications> <${env.GITHUB_BASE_URL}/admin-panel/commit/5d549e2bea185212aa78081950838501d60420be|5d549e2>
 Pact publications: 1`;
-				const adminPanelThread = `Published <https://pact.example.com/pacts/adminpanel-notificationservice|contract> to be verified from provider *NotificationService*`;
+				const adminPanelThread = `Published <https://pact.example.com/pacts/provider/NotificationService/consumer/AdminPanel/pact-version/abc3|contract> to be verified from provider *NotificationService*`;
 
 				expect(allMessagesText).toContain(userServiceSummary);
 				expect(allMessagesText).toContain(userServiceThread);
@@ -825,7 +1290,7 @@ Pact publications: 1`;
 			await trigger();
 
 			// Call clearAll via the debug endpoint with clear=true
-			const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.DEBUG_KEY}&clear=true`);
+			const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.ADMIN_TOKEN}&clear=true`);
 			expect(clearResponse.status).toBe(200);
 
 			// Verify all data is cleared
@@ -844,7 +1309,7 @@ Pact publications: 1`;
 
 		it('should handle clearAll when no data exists', async () => {
 			// Call clearAll on empty storage
-			const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.DEBUG_KEY}&clear=true`);
+			const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.ADMIN_TOKEN}&clear=true`);
 			expect(clearResponse.status).toBe(200);
 
 			// Verify debug endpoint still works and returns empty state
@@ -860,7 +1325,7 @@ Pact publications: 1`;
 		it('should require debug key for clearAll', async () => {
 			// Call clearAll without debug key
 			const clearResponse = await SELF.fetch('https://example.com/debug?clear=true');
-			expect(clearResponse.status).toBe(405); // No debug key, so it won't match debug endpoint
+			expect(clearResponse.status).toBe(401);
 		});
 	});
 });
@@ -964,6 +1429,70 @@ describe('Provider channel messages', () => {
 		expect(debugData.publicationThreads).toMatchObject(expectedPublicationThreads);
 	});
 
+	it('should keep provider channel posts that fail in the outbox and deliver them on a later trigger', async () => {
+		try {
+			const publicationPayload = makeContractPublicationPayload({ providerName: 'ProviderChannelService' });
+			const publicationMockTime = 1000000000000;
+			mockTime(() => publicationMockTime);
+			const workingFetch = globalThis.fetch;
+			vi.stubGlobal(
+				'fetch',
+				vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ ok: false, error: 'service_unavailable' }) }),
+			);
+
+			const response = await sendEventWithEnvOverride(publicationPayload, { SLACK_MAX_RETRIES: 0 });
+
+			expect(response.status).toBe(200);
+			const failedDebugData: DebugInfo = await (await debug()).json();
+			expect(failedDebugData.publicationThreads).toEqual({});
+			expect(failedDebugData.providerChannelOutbox).toMatchObject([
+				{
+					kind: 'pact_event',
+					payload: publicationPayload,
+					attempts: 1,
+					lastError: expect.stringContaining('service_unavailable') as string,
+				},
+			]);
+
+			vi.stubGlobal('fetch', workingFetch);
+			mockTime(() => publicationMockTime + 60 * 1000);
+			await trigger();
+
+			const providerChannelCalls = slackCalls.filter((c) => c.channel !== env.SLACK_CHANNEL);
+			expect(providerChannelCalls.map((c) => c.channel)).toEqual([`${env.PROVIDER_CHANNEL_PREFIX}ProviderChannelService`]);
+			const deliveredDebugData: DebugInfo = await (await debug()).json();
+			expect(deliveredDebugData.providerChannelOutbox).toEqual([]);
+			expect(Object.keys(deliveredDebugData.publicationThreads)).toHaveLength(1);
+		} finally {
+			resetTime();
+		}
+	});
+
+	it('should send Block Kit blocks with a text fallback only when SLACK_MESSAGE_FORMAT is blocks', async () => {
+		const publicationPayload = makeContractPublicationPayload({
+			providerName: 'ProviderChannelService',
+			consumerVersionNumber: '10.20.30',
+		});
+		mockTime(() => 1000000000000);
+
+		await sendEvent(publicationPayload);
+		await sendEventWithEnvOverride(
+			{
+				...publicationPayload,
+				consumerVersionBranch: 'feature/other',
+				consumerVersionNumber: '10.20.31',
+				pactUrl: 'https://example.com/pact-version/OTHER-PACT-VERSION',
+			},
+			{ SLACK_MESSAGE_FORMAT: 'blocks' },
+		);
+
+		expect(slackCalls).toHaveLength(2);
+		const [legacy, withBlocks] = slackCalls as SlackCallMock[];
+		expect(legacy?.blocks).toBeUndefined();
+		expect(withBlocks?.text).toContain('by consumer *TestConsumer*');
+		expect(withBlocks?.blocks?.[0]?.text?.text).toBe(withBlocks?.text);
+	});
+
 	it('should deprecate previous pact thread on same consumer branch when a newer pact is published', async () => {
 		const providerName = 'ProviderChannelService';
 		const consumerName = 'ConsumerChannelClient';
@@ -1040,6 +1569,29 @@ describe('Provider channel messages', () => {
 		);
 	});
 
+	it('should keep the master verification in the plain text of a deprecated thread root summary', async () => {
+		const consumer = { providerName: 'ProviderChannelService', consumerName: 'ConsumerChannelClient', consumerVersionBranch: 'feature/x' };
+		mockTime(() => 1000000000000);
+		await sendEvent(makeContractPublicationPayload({ ...consumer, consumerVersionNumber: 'sha-old' }));
+		await sendEvent(makeProviderVerificationPayload({ ...consumer, consumerVersionNumber: 'sha-old', providerVersionBranch: 'master' }));
+		mockTime(() => 1000000001000);
+		await sendEvent(
+			makeContractPublicationPayload({
+				...consumer,
+				consumerVersionNumber: 'sha-new',
+				pactUrl: 'https://example.com/pact-version/PACT-NEW',
+			}),
+		);
+
+		const fetchMock = globalThis.fetch as unknown as ReturnType<typeof vi.fn>;
+		const updates = (fetchMock.mock.calls as [string, { body: string }][])
+			.filter(([url]) => url.endsWith('chat.update'))
+			.map(([, options]) => JSON.parse(options.body) as SlackUpdateMessageRequest);
+		const deprecatedRoot = updates[updates.length - 1];
+		expect(deprecatedRoot?.text).toContain('Deprecated pact');
+		expect(deprecatedRoot?.text).toContain('Last verification on (ProviderChannelService)');
+	});
+
 	it('should rotate provider thread when replyCount reaches max', async () => {
 		const providerName = 'ProviderChannelService';
 		const consumerName = 'ConsumerChannelClient';
@@ -1071,14 +1623,17 @@ describe('Provider channel messages', () => {
 
 		// publication: 1 postMessage
 		// verification with rotation: 1 chat.update (close old) + 1 postMessage (new root) + 1 postMessage (reply)
-		expect(calls.length).toBe(4);
+		// first verification: 1 chat.update (new root summary with the verification latency)
+		expect(calls.length).toBe(5);
 
 		const updateCalls = calls.filter(([u]) => (u as string).includes('chat.update'));
-		expect(updateCalls.length).toBe(1);
+		expect(updateCalls.length).toBe(2);
 		const [, updateInit] = updateCalls[0] as [string, { body: string }];
 		const updateBody = JSON.parse(updateInit.body) as SlackUpdateMessageRequest;
 		expect(updateBody.text).toContain(THREAD_DISCONTINUED_DUE_TO_SIZE_NOTICE);
 		expect(updateBody.ts).toBe(t0.toString());
+		const [, latencyUpdateInit] = updateCalls[1] as [string, { body: string }];
+		expect((JSON.parse(latencyUpdateInit.body) as SlackUpdateMessageRequest).ts).toBe(t1.toString());
 
 		const postCalls = calls.filter(([u]) => (u as string).includes('chat.postMessage'));
 		expect(postCalls.length).toBe(3);
@@ -1186,17 +1741,10 @@ describe('Provider channel messages', () => {
 
 		// Simulate a legacy stored entry with no replyCount field.
 		const stub = env.PACT_AGGREGATOR.get(env.PACT_AGGREGATOR.idFromName(env.PACT_AGGREGATOR_NAME));
-		await runInDurableObject(stub, async (instance) => {
-			const storage = getDurableObjectStorage(instance);
-			const threads = (await storage.get<Record<string, PublicationThreadInfo | undefined>>('publicationThreads')) ?? {};
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		await runInDurableObject(stub, (_, state) => {
 			const key = `${providerName}|${consumerName}|PACT-VERSION|${providerChannel}`;
-			const existing = threads[key];
-			if (existing) {
-				// eslint-disable-next-line @typescript-eslint/no-unused-vars
-				const { replyCount: _, ...withoutReplyCount } = existing;
-				threads[key] = withoutReplyCount;
-				await storage.put('publicationThreads', threads);
-			}
+			state.storage.sql.exec(`UPDATE publication_threads SET info = json_remove(info, '$.replyCount') WHERE key = ?`, key);
 		});
 
 		const t1 = t0 + 1000;
@@ -1225,31 +1773,6 @@ describe('Provider channel messages', () => {
 		resetTime();
 	});
 
-	interface DurableObjectStorageLike {
-		get<T = unknown>(key: string): Promise<T | undefined>;
-		put(key: string, value: unknown): Promise<void>;
-	}
-
-	function getDurableObjectStorage(instance: unknown): DurableObjectStorageLike {
-		if (typeof instance !== 'object' || instance === null) {
-			throw new Error('Expected durable object instance to be an object');
-		}
-		const ctx = (instance as Record<string, unknown>).ctx;
-		if (typeof ctx !== 'object' || ctx === null) {
-			throw new Error('Expected durable object instance to have ctx');
-		}
-		const storage = (ctx as Record<string, unknown>).storage;
-		if (typeof storage !== 'object' || storage === null) {
-			throw new Error('Expected durable object ctx to have storage');
-		}
-		const get = (storage as Record<string, unknown>).get;
-		const put = (storage as Record<string, unknown>).put;
-		if (typeof get !== 'function' || typeof put !== 'function') {
-			throw new Error('Expected durable object storage to have get/put');
-		}
-		return storage as DurableObjectStorageLike;
-	}
-
 	it('should post a publication summary and a verification thread reply to the provider-specific channel when a verification happens with no previous publication', async () => {
 		// Arrange: create a contract publication payload with distinct provider
 		const publicationPayload = makeProviderVerificationPayload({
@@ -1334,7 +1857,9 @@ describe('Provider channel messages', () => {
 		const fetchMock = globalThis.fetch as unknown as ReturnType<typeof vi.fn>;
 		const calls = fetchMock.mock.calls;
 
-		expect(calls.length).toBe(2);
+		// publication, verification reply and the root summary update showing the verification latency
+		expect(calls.length).toBe(3);
+		expect(calls[2]?.[0]).toContain('slack.com/api/chat.update');
 
 		const call = calls[1] as { body: string }[];
 		expect(call[0]).toContain('slack.com/api/chat.postMessage');
@@ -1357,12 +1882,50 @@ describe('Provider channel messages', () => {
 				updatedTs: verificationMockTime.toString(),
 				createdTs: publicationMockTime.toString(),
 				replyCount: 1,
+				firstVerificationLatencyMs: 1000,
 			},
 		};
 
 		expect(debugData.publicationThreads).toMatchObject(expectedPublicationThreads);
 	});
 
+	it('should dead-letter provider channel posts that fail with a permanent Slack error instead of retrying them', async () => {
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			if (url.includes('slack.com/api/chat.postMessage') && options.body.includes('#pact-ArchivedProvider')) {
+				return Promise.resolve({ json: () => Promise.resolve({ ok: false, error: 'channel_not_found' }), ok: true });
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+
+		await sendEvent(makeContractPublicationPayload({ providerName: 'ArchivedProvider' }));
+		await sendEvent(makeContractPublicationPayload({ providerName: 'TestProvider', consumerVersionNumber: '2.0.0' }));
+
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.providerChannelOutbox).toEqual([]);
+		expect(debugData.deadLetterCount).toBe(1);
+		expect(slackCalls.filter((call) => call.thread_ts === undefined).map((call) => call.channel)).toEqual(['#pact-TestProvider']);
+	});
+
+	it('should update the root summary on verifications of branches matching the master branch globs', async () => {
+		const masterBranchEnv = { DEFAULT_MASTER_BRANCH: ['main', 'release/*'] };
+		await sendEventWithEnvOverride(makeContractPublicationPayload({}), masterBranchEnv);
+		await sendEventWithEnvOverride(makeProviderVerificationPayload({ providerVersionBranch: 'release/3.0' }), masterBranchEnv);
+		await sendEventWithEnvOverride(makeProviderVerificationPayload({ providerVersionBranch: 'feature/x' }), masterBranchEnv);
+
+		const fetchMock = globalThis.fetch as unknown as ReturnType<typeof vi.fn>;
+		const rootUpdates = fetchMock.mock.calls
+			.filter(([url]) => (url as string).includes('slack.com/api/chat.update'))
+			.map(([, options]) => (JSON.parse((options as { body: string }).body) as SlackPostMessageRequest).text);
+		expect(rootUpdates.length).toBeGreaterThan(0);
+		expect(
+			rootUpdates.every((text) =>
+				text.includes('Last verification on (TestProvider) *<https://github.com/your-org/test-provider/tree/release/3.0|release/3.0>*'),
+			),
+		).toBe(true);
+	});
+
 	it('should update the status of the publication of the contract on a master verification', async () => {
 		const publicationPayload = makeContractPublicationPayload({
 			providerName: 'ProviderChannelService',
@@ -1458,6 +2021,139 @@ describe('Provider channel messages', () => {
 		expect(debugData.publicationThreads).toMatchObject(expectedPublicationThreads);
 	});
 
+	it('should show can-i-deploy results in the root summary and refresh them on every verification in the thread', async () => {
+		const brokerEnv = { PACT_BROKER_BASE_URL: 'https://broker.example.com', CAN_I_DEPLOY_ENVIRONMENTS: ['staging', 'production'] };
+		let deployableToProduction: boolean | null = false;
+		let brokerUp = true;
+		const slackUpdates: SlackUpdateMessageRequest[] = [];
+		vi.stubGlobal(
+			'fetch',
+			vi.fn().mockImplementation((url: string, options: { body: string }) => {
+				if (url.startsWith('https://broker.example.com/matrix')) {
+					if (!brokerUp) return Promise.reject(new Error('connect ECONNREFUSED'));
+					const deployable = new URL(url).searchParams.get('environment') === 'production' ? deployableToProduction : true;
+					return Promise.resolve(new Response(JSON.stringify({ summary: { deployable } })));
+				}
+				if (url.includes('slack.com/api/chat.update')) {
+					slackUpdates.push(JSON.parse(options.body) as SlackUpdateMessageRequest);
+				}
+				return Promise.resolve({
+					json: () => Promise.resolve({ ok: true, channel: 'CHANNEL_ID', ts: now().toString() }),
+					ok: true,
+				});
+			}),
+		);
+		const consumer = { providerName: 'ProviderChannelService', consumerName: 'ConsumerChannelClient', consumerVersionNumber: '10.20.30' };
+		mockTime(() => 1000000000000);
+
+		await sendEventWithEnvOverride(makeContractPublicationPayload(consumer), brokerEnv);
+		await sendEventWithEnvOverride(makeProviderVerificationPayload({ ...consumer, providerVersionBranch: 'master' }), brokerEnv);
+		deployableToProduction = null;
+		await sendEventWithEnvOverride(makeProviderVerificationPayload({ ...consumer, providerVersionBranch: 'feature/x' }), brokerEnv);
+		brokerUp = false;
+		await sendEventWithEnvOverride(makeProviderVerificationPayload({ ...consumer, providerVersionBranch: 'feature/y' }), brokerEnv);
+
+		const lastLines = slackUpdates.map((u) => u.text.split('\n').pop());
+		expect(lastLines).toEqual([
+			expect.stringMatching(/^Can I deploy \*ConsumerChannelClient\*.*\? staging ✅, production 😢$/),
+			expect.stringMatching(/\? staging ✅, production ❔$/),
+			// The broker is down: the previous results are kept
+			expect.stringMatching(/\? staging ✅, production ❔$/),
+		]);
+		expect(slackUpdates.every((u) => u.text.includes('Last verification on'))).toBe(true);
+	});
+
+	it('should update the deployed environments of the publication of the contract in place on deployments', async () => {
+		const publicationPayload = makeContractPublicationPayload({
+			providerName: 'ProviderChannelService',
+			consumerName: 'ConsumerChannelClient',
+			consumerVersionNumber: '10.20.30',
+		});
+		const publicationMockTime = 1000000000000;
+		mockTime(() => publicationMockTime);
+		await sendEvent(publicationPayload);
+
+		mockTime(() => publicationMockTime + 1000);
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ConsumerChannelClient', pacticipantVersionNumber: '10.20.30' }));
+		await sendEvent(
+			makeDeploymentPayload({
+				eventType: PACTICIPANT_VERSION_RELEASED,
+				pacticipantName: 'ConsumerChannelClient',
+				pacticipantVersionNumber: '10.20.30',
+				environmentName: 'production',
+			}),
+		);
+		// A newer consumer version replaces this one in staging
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ConsumerChannelClient', pacticipantVersionNumber: '10.20.31' }));
+		// Other pacticipants do not touch the thread
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ProviderChannelService', pacticipantVersionNumber: '10.20.30' }));
+
+		const fetchMock = globalThis.fetch as unknown as ReturnType<typeof vi.fn>;
+		const calls = fetchMock.mock.calls as [string, { body: string }][];
+		expect(calls.map(([url]) => url.split('/').pop())).toEqual(['chat.postMessage', 'chat.update', 'chat.update', 'chat.update']);
+
+		const updates = calls.slice(1).map(([, options]) => JSON.parse(options.body) as SlackUpdateMessageRequest);
+		for (const update of updates) {
+			expect(update.channel).toBe('CHANNEL_ID');
+			expect(update.ts).toBe(publicationMockTime.toString());
+			expect(update.text).toContain('by consumer *ConsumerChannelClient*');
+		}
+		expect(updates.map((u) => u.text.split('\n').pop())).toEqual([
+			':rocket: deployed: staging',
+			':rocket: deployed: staging, production',
+			':rocket: deployed: production',
+		]);
+
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.publicationThreads).toMatchObject({
+			'ProviderChannelService|ConsumerChannelClient|PACT-VERSION|#pact-ProviderChannelService': {
+				deployedEnvironments: ['production'],
+			},
+		});
+	});
+
+	it('should show deployments recorded before the thread and those of the verified provider version', async () => {
+		const consumer = { providerName: 'ProviderChannelService', consumerName: 'ConsumerChannelClient', consumerVersionNumber: '10.20.30' };
+		mockTime(() => 1000000000000);
+		// Deployed before its pact is published, and the provider version before it verifies the pact
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ConsumerChannelClient', pacticipantVersionNumber: '10.20.30' }));
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ProviderChannelService', pacticipantVersionNumber: 'prov-1' }));
+		await sendEvent(makeContractPublicationPayload(consumer));
+		await sendEvent(makeProviderVerificationPayload({ ...consumer, providerVersionNumber: 'prov-1', providerVersionBranch: 'master' }));
+		await sendEvent(
+			makeDeploymentPayload({
+				eventType: PACTICIPANT_VERSION_RELEASED,
+				pacticipantName: 'ProviderChannelService',
+				pacticipantVersionNumber: 'prov-1',
+				environmentName: 'production',
+			}),
+		);
+		// A newer provider version replaces the verified one in staging
+		await sendEvent(makeDeploymentPayload({ pacticipantName: 'ProviderChannelService', pacticipantVersionNumber: 'prov-2' }));
+
+		const fetchMock = globalThis.fetch as unknown as ReturnType<typeof vi.fn>;
+		const calls = fetchMock.mock.calls as [string, { body: string }][];
+		const rootTexts = calls
+			.filter(([url]) => url.endsWith('chat.postMessage') || url.endsWith('chat.update'))
+			.map(([, options]) => JSON.parse(options.body) as SlackUpdateMessageRequest)
+			.filter((message) => message.text.includes('by consumer *ConsumerChannelClient*'))
+			.map((message) => message.text.split('\n').filter((line) => line.startsWith(':rocket:')));
+		expect(rootTexts).toEqual([
+			[':rocket: deployed: staging'],
+			[':rocket: deployed: staging', ':rocket: verified provider version deployed: staging'],
+			[':rocket: deployed: staging', ':rocket: verified provider version deployed: staging, production'],
+			[':rocket: deployed: staging', ':rocket: verified provider version deployed: production'],
+		]);
+
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.publicationThreads).toMatchObject({
+			'ProviderChannelService|ConsumerChannelClient|PACT-VERSION|#pact-ProviderChannelService': {
+				deployedEnvironments: ['staging'],
+				providerDeployedEnvironments: ['production'],
+			},
+		});
+	});
+
 	it('should clear all publication threads on clearPublicationThreads', async () => {
 		// Arrange: create a contract publication payload with distinct provider
 		const publicationPayload = makeContractPublicationPayload({
@@ -1471,7 +2167,7 @@ describe('Provider channel messages', () => {
 		await sendEvent(publicationPayload);
 
 		// Call clearPublicationThreads via the debug endpoint with clearPublicationThreads=true
-		const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.DEBUG_KEY}&clearPublicationThreads=true`);
+		const clearResponse = await SELF.fetch(`https://example.com/debug?key=${env.ADMIN_TOKEN}&clearPublicationThreads=true`);
 		expect(clearResponse.status).toBe(200);
 
 		// Verify all publication threads are cleared
@@ -1538,21 +2234,396 @@ describe('Provider channel messages', () => {
 			resetTime();
 		}
 	});
+
+	it('should reply and update the root summary when a pact stays unverified past the SLA, and clear the notice on verification', async () => {
+		const publishedAt = Date.UTC(2025, 5, 2, 9);
+		try {
+			mockTime(() => publishedAt);
+			const publication = makeContractPublicationPayload({ providerName: 'SlaProvider', consumerVersionNumber: 'sla-2' });
+			await sendEvent(publication);
+			slackCalls.length = 0;
+
+			// VERIFICATION_SLA_MINUTES is 1440 in the wrangler config
+			mockTime(() => publishedAt + DAY_MS - 1);
+			await trigger();
+			expect(slackCalls.filter((c) => c.text?.includes(AWAITING_VERIFICATION_NOTICE))).toEqual([]);
+
+			mockTime(() => publishedAt + DAY_MS);
+			await trigger();
+			const [reply, rootUpdate] = slackCalls.filter((c) => c.text?.includes(AWAITING_VERIFICATION_NOTICE));
+			expect(reply).toMatchObject({ text: AWAITING_VERIFICATION_NOTICE, thread_ts: publishedAt.toString() });
+			expect(rootUpdate).toMatchObject({ ts: publishedAt.toString() });
+			slackCalls.length = 0;
+
+			await sendEvent(makeProviderVerificationPayload({ providerName: 'SlaProvider', consumerVersionNumber: 'sla-2' }));
+			await trigger();
+			const rootUpdates = slackCalls.filter((c) => 'ts' in c);
+			expect(rootUpdates.length).toBeGreaterThan(0);
+			expect(rootUpdates.every((c) => !c.text?.includes(AWAITING_VERIFICATION_NOTICE))).toBe(true);
+		} finally {
+			resetTime();
+		}
+	});
+
+	it('should report a failure streak and the recovery in the thread and, for master branches, in the main channel', async () => {
+		const failedAt = Date.UTC(2025, 5, 2, 9);
+		const verification = (githubVerificationStatus: string, n: number) =>
+			makeProviderVerificationPayload({
+				providerName: 'StreakProvider',
+				providerVersionBranch: 'master',
+				githubVerificationStatus,
+				verificationResultUrl: `https://example.com/pact-version/STREAK/verification-results/${n}`,
+			});
+		try {
+			mockTime(() => failedAt);
+			await sendEvent(verification('failure', 1));
+			mockTime(() => failedAt + 60 * 60 * 1000);
+			await sendEvent(verification('failure', 2));
+			await trigger();
+
+			const broken = slackCalls.filter((c) => c.text?.startsWith('🔥'));
+			expect(broken.map((c) => [c.channel, c.thread_ts])).toEqual([
+				['CHANNEL_ID', failedAt.toString()],
+				[env.SLACK_CHANNEL, undefined],
+			]);
+			expect(broken[0]!.text).toBe('🔥 *Broken since 2025-06-02 09:00 UTC*, 2 consecutive failures');
+			expect(broken[1]!.text).toContain('*StreakProvider*');
+
+			mockTime(() => failedAt + 4 * 60 * 60 * 1000);
+			await sendEvent(verification('success', 3));
+			await trigger();
+			expect(slackCalls.filter((c) => c.text?.startsWith('🎉 *Recovered* after 4 hours')).map((c) => c.thread_ts)).toEqual([
+				failedAt.toString(),
+				undefined,
+			]);
+		} finally {
+			resetTime();
+		}
+	});
+
+	it('should post to every provider channel the routes send the pact to', async () => {
+		const routesEnv = { CHANNEL_ROUTES: [{ scope: 'provider', consumer: 'RoutedConsumer', channels: ['#team-a', '#team-{consumer}'] }] };
+
+		await sendEventWithEnvOverride(
+			makeContractPublicationPayload({ providerName: 'RoutedProvider', consumerName: 'RoutedConsumer' }),
+			routesEnv,
+		);
+		await sendEventWithEnvOverride(
+			makeProviderVerificationPayload({ providerName: 'RoutedProvider', consumerName: 'RoutedConsumer' }),
+			routesEnv,
+		);
+
+		const posts = (inThread: boolean) =>
+			slackCalls.filter((call) => (call.thread_ts !== undefined) === inThread).map((call) => call.channel);
+		expect(posts(false)).toEqual(['#team-a', '#team-RoutedConsumer']);
+		expect(posts(true)).toEqual(['#team-a', '#team-RoutedConsumer']);
+	});
+
+	it('should mention the provider and consumer owners of a failed verification once, not on every retry', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const owners = { PACTICIPANT_OWNERS: { TestProvider: 'S0123ABC', TestConsumer: 'U0456DEF' } };
+		const failure = () => makeProviderVerificationPayload({ githubVerificationStatus: 'failure' });
+
+		await withDurableObjectEnvOverride(aggregatorStub, owners, async () => {
+			await sendEvent(failure());
+			await sendEvent(failure());
+		});
+
+		const replies = slackCalls.filter((call) => call.thread_ts !== undefined && call.text?.includes('Results'));
+		expect(replies).toHaveLength(2);
+		expect(replies[0]?.text).toMatch(/\ncc <!subteam\^S0123ABC> <@U0456DEF>$/);
+		expect(replies[1]?.text).not.toContain('cc ');
+	});
+
+	it('should mention the owners in the retry of a verification reply that failed to post', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const ownersEnv = { PACTICIPANT_OWNERS: { TestProvider: 'S0123ABC' }, SLACK_MAX_RETRIES: 0 };
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		let replyFailures = 1;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			const isReply = url.includes('chat.postMessage') && (JSON.parse(options.body) as { thread_ts?: string }).thread_ts !== undefined;
+			if (isReply && replyFailures-- > 0) {
+				return Promise.resolve(new Response(JSON.stringify({ ok: false, error: 'service_unavailable' })));
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+
+		try {
+			await withDurableObjectEnvOverride(aggregatorStub, ownersEnv, async () => {
+				mockTime(() => 1_000_000);
+				await sendEventWithEnvOverride(makeProviderVerificationPayload({ githubVerificationStatus: 'failure' }), ownersEnv);
+				// The outbox retries the reply on the next run once its retry delay is over
+				mockTime(() => 1_000_000 + 2 * 60 * 1000);
+				await sendEventWithEnvOverride(makeContractPublicationPayload({ consumerVersionNumber: '2.0.0' }), ownersEnv);
+			});
+		} finally {
+			resetTime();
+		}
+
+		const replies = slackCalls.filter((call) => call.thread_ts !== undefined && call.text?.includes('Results'));
+		expect(replies).toHaveLength(1);
+		expect(replies[0]?.text).toMatch(/\ncc <!subteam\^S0123ABC>$/);
+	});
+
+	it('should send the commit author a direct message about the first failed verification of a consumer version', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			if (url.startsWith('https://api.github.com/repos/')) {
+				return Promise.resolve(new Response(JSON.stringify({ commit: { author: { email: 'jane@example.com' } } })));
+			}
+			if (url.includes('slack.com/api/users.lookupByEmail')) {
+				return Promise.resolve(new Response(JSON.stringify({ ok: true, user: { id: 'U0456DEF' } })));
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+		const failure = () => makeProviderVerificationPayload({ githubVerificationStatus: 'failure', consumerVersionNumber: 'abc1234567' });
+
+		await withDurableObjectEnvOverride(aggregatorStub, { COMMIT_AUTHOR_DM_ENABLED: true }, async () => {
+			await sendEvent(failure());
+			await sendEvent(failure());
+		});
+
+		const directMessages = slackCalls.filter((call) => call.channel === 'U0456DEF');
+		expect(directMessages).toHaveLength(1);
+		expect(directMessages[0]?.text).toContain('Your commit');
+		expect(fetchMock.mock.calls.map(([url]) => url as string)).toContainEqual(
+			expect.stringContaining('slack.com/api/users.lookupByEmail?email=jane%40example.com'),
+		);
+	});
+
+	it('should retry the direct message when the commit author lookup fails', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		let githubUp = false;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			if (url.startsWith('https://api.github.com/repos/')) {
+				if (!githubUp) return Promise.resolve(new Response('Service Unavailable', { status: 503 }));
+				return Promise.resolve(new Response(JSON.stringify({ commit: { author: { email: 'jane@example.com' } } })));
+			}
+			if (url.includes('slack.com/api/users.lookupByEmail')) {
+				return Promise.resolve(new Response(JSON.stringify({ ok: true, user: { id: 'U0456DEF' } })));
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+		const dmEnv = { COMMIT_AUTHOR_DM_ENABLED: true };
+
+		try {
+			await withDurableObjectEnvOverride(aggregatorStub, dmEnv, async () => {
+				mockTime(() => 1_000_000);
+				await sendEventWithEnvOverride(makeProviderVerificationPayload({ githubVerificationStatus: 'failure' }), dmEnv);
+				const debugData: DebugInfo = await (await debug()).json();
+				expect(debugData.providerChannelOutbox).toMatchObject([
+					{ kind: 'commit_author_dm', attempts: 1, lastError: expect.stringContaining('-> 503') as string },
+				]);
+
+				githubUp = true;
+				mockTime(() => 1_000_000 + 2 * 60 * 1000);
+				await sendEventWithEnvOverride(
+					makeProviderVerificationPayload({
+						verificationResultUrl: 'https://example.com/pact-version/PACT-VERSION/verification-results/2',
+					}),
+					dmEnv,
+				);
+			});
+		} finally {
+			resetTime();
+		}
+
+		expect(slackCalls.filter((call) => call.channel === 'U0456DEF')).toHaveLength(1);
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.providerChannelOutbox).toEqual([]);
+	});
+
+	it('should not hold back the provider channel posts behind a failing direct message', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			if (url.startsWith('https://api.github.com/repos/')) {
+				return Promise.resolve(new Response(JSON.stringify({ commit: { author: { email: 'jane@example.com' } } })));
+			}
+			if (url.includes('slack.com/api/users.lookupByEmail')) {
+				return Promise.resolve(new Response(JSON.stringify({ ok: true, user: { id: 'U0456DEF' } })));
+			}
+			if (url.includes('chat.postMessage') && (JSON.parse(options.body) as { channel: string }).channel === 'U0456DEF') {
+				return Promise.resolve(new Response(JSON.stringify({ ok: false, error: 'service_unavailable' })));
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+		const dmEnv = { COMMIT_AUTHOR_DM_ENABLED: true, SLACK_MAX_RETRIES: 0 };
+
+		try {
+			await withDurableObjectEnvOverride(aggregatorStub, dmEnv, async () => {
+				mockTime(() => 1_000_000);
+				await sendEventWithEnvOverride(makeProviderVerificationPayload({ githubVerificationStatus: 'failure' }), dmEnv);
+				// The direct message is due again, and fails again, before the next verification is posted
+				mockTime(() => 1_000_000 + 2 * 60 * 1000);
+				slackCalls.length = 0;
+				await sendEventWithEnvOverride(
+					makeProviderVerificationPayload({
+						verificationResultUrl: 'https://example.com/pact-version/PACT-VERSION/verification-results/2',
+					}),
+					dmEnv,
+				);
+			});
+		} finally {
+			resetTime();
+		}
+
+		expect(slackCalls.filter((call) => call.thread_ts !== undefined && call.text?.includes('Results'))).toHaveLength(1);
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.providerChannelOutbox.map(({ kind, attempts }) => ({ kind, attempts }))).toEqual([
+			{ kind: 'commit_author_dm', attempts: 2 },
+		]);
+	});
+
+	it('should not post events of muted branches to the provider channel', async () => {
+		const aggregatorStub = env.PACT_AGGREGATOR.getByName(env.PACT_AGGREGATOR_NAME);
+		const filtersEnv = { BRANCH_FILTERS: { '*': { exclude: 'dependabot/*', action: 'drop' } } };
+
+		await withDurableObjectEnvOverride(aggregatorStub, filtersEnv, async () => {
+			await sendEventWithEnvOverride(makeContractPublicationPayload({ consumerVersionBranch: 'dependabot/npm/lodash' }), filtersEnv);
+		});
+		// Queued while the branch was not muted yet, but delivered after
+		await sendEventWithEnvOverride(makeContractPublicationPayload({ consumerVersionBranch: 'dependabot/npm/axios' }), filtersEnv);
+
+		expect(slackCalls).toEqual([]);
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.mutedEvents).toEqual({ drop: 1, store_only: 0, skip_main_channel: 0 });
+		expect(debugData.providerChannelOutbox).toEqual([]);
+	});
+
+	it('should post main channel summaries to the routed main channels', async () => {
+		const routesEnv = {
+			CHANNEL_ROUTES: [{ scope: 'main', branch: 'master', status: 'failure', channels: ['#incidents', env.SLACK_CHANNEL] }],
+		};
+		try {
+			mockTime(() => 0);
+			await sendEventWithEnvOverride(
+				makeProviderVerificationPayload({ providerVersionBranch: 'master', githubVerificationStatus: 'failure' }),
+				routesEnv,
+			);
+			mockTime(() => env.MINUTE_BUCKET_MS + env.QUIET_PERIOD_MS + 1);
+			slackCalls.length = 0;
+
+			expect((await triggerWithEnvOverride(routesEnv)).status).toBe(200);
+		} finally {
+			resetTime();
+		}
+
+		expect(slackCalls.filter((call) => call.thread_ts === undefined).map((call) => call.channel)).toEqual([
+			'#incidents',
+			env.SLACK_CHANNEL,
+		]);
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData.totalEvents).toBe(0);
+	});
+
+	it('should not post a group again to the routed main channels it reached when another one failed', async () => {
+		const routesEnv = {
+			CHANNEL_ROUTES: [{ scope: 'main', branch: 'master', status: 'failure', channels: ['#incidents', env.SLACK_CHANNEL] }],
+			SLACK_MAX_RETRIES: 0,
+		};
+		const fetchMock = globalThis.fetch as ReturnType<typeof vi.fn>;
+		const slackMock = fetchMock.getMockImplementation()!;
+		let mainChannelFailures = 1;
+		fetchMock.mockImplementation((url: string, options: { body: string; method: string }) => {
+			const isMainChannelSummary =
+				url.includes('chat.postMessage') && (JSON.parse(options.body) as { channel: string }).channel === env.SLACK_CHANNEL;
+			if (isMainChannelSummary && mainChannelFailures-- > 0) {
+				return Promise.resolve(new Response(JSON.stringify({ ok: false, error: 'service_unavailable' })));
+			}
+			return slackMock(url, options) as Promise<unknown>;
+		});
+		try {
+			mockTime(() => 0);
+			await sendEventWithEnvOverride(
+				makeProviderVerificationPayload({ providerVersionBranch: 'master', githubVerificationStatus: 'failure' }),
+				routesEnv,
+			);
+			mockTime(() => env.MINUTE_BUCKET_MS + env.QUIET_PERIOD_MS + 1);
+			slackCalls.length = 0;
+
+			expect((await triggerWithEnvOverride(routesEnv)).status).toBe(200);
+			expect((await triggerWithEnvOverride(routesEnv)).status).toBe(200);
+		} finally {
+			resetTime();
+		}
+
+		expect(slackCalls.filter((call) => call.thread_ts === undefined).map((call) => call.channel)).toEqual([
+			'#incidents',
+			env.SLACK_CHANNEL,
+		]);
+		const debugData: DebugInfo = await (await debug()).json();
+		expect(debugData).toMatchObject({ totalEvents: 0, publishFailures: {} });
+	});
+});
+
+describe('Digests', () => {
+	const postedMessages: SlackPostMessageRequest[] = [];
+
+	beforeEach(() => {
+		vi.stubGlobal(
+			'fetch',
+			vi.fn().mockImplementation((url: string, options: { body: string }) => {
+				if (url.includes('slack.com/api/chat.postMessage')) {
+					postedMessages.push(JSON.parse(options.body) as SlackPostMessageRequest);
+				}
+				return Promise.resolve({
+					json: (): Promise<SlackPostMessageResponse> => Promise.resolve({ ok: true, channel: 'CHANNEL_ID', ts: now().toString() }),
+					ok: true,
+				});
+			}),
+		);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+		postedMessages.length = 0;
+		resetTime();
+	});
+
+	it('should post the weekly digest to the main channel and the provider channels', async () => {
+		mockTime(() => Date.UTC(2025, 5, 6, 12));
+		await sendEvent(makeContractPublicationPayload({ providerName: 'DigestProvider', consumerName: 'DigestConsumer' }));
+		postedMessages.length = 0;
+
+		mockTime(() => Date.UTC(2025, 5, 9, 7));
+		const response = await SELF.fetch(`https://example.com/trigger-weekly?key=${env.DEBUG_KEY}`);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('Weekly digests completed');
+
+		expect(postedMessages.map((m) => m.channel)).toEqual([env.SLACK_CHANNEL, '#pact-DigestProvider']);
+		expect(postedMessages[0]!.text).toContain('📊 *Weekly pact digest* (2025-06-02 – 2025-06-09)');
+		expect(postedMessages[1]!.text).toContain('*Weekly pact digest* for *DigestProvider*');
+		expect(postedMessages[1]!.text).toContain('*Still unverified:*');
+		expect((await debug().then((r) => r.json<DebugInfo>())).providerChannelOutbox).toEqual([]);
+	});
+
+	it('should not post daily digests while they are disabled', async () => {
+		await sendEvent(makeContractPublicationPayload({ providerName: 'DigestProvider' }));
+		postedMessages.length = 0;
+
+		await dailyTrigger();
+
+		expect(postedMessages).toEqual([]);
+	});
 });
 
 async function debug() {
 	return await SELF.fetch(`https://example.com/debug?key=${env.DEBUG_KEY}`);
 }
 
-async function sendEvent(event?: PactWebhookPayload) {
-	return await SELF.fetch(`https://example.com?key=${env.DEBUG_KEY}`, {
-		method: 'POST',
-		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify(event ?? makeProviderVerificationPayload()),
-	});
+// Waits for the provider channel outbox delivery the webhook starts in the background
+async function sendEvent(event?: WebhookPayload) {
+	return await sendEventWithEnvOverride(event ?? makeProviderVerificationPayload(), {});
 }
 
-async function sendEventWithEnvOverride(event: PactWebhookPayload, envOverride: Record<string, unknown>) {
+async function sendEventWithEnvOverride(event: WebhookPayload, envOverride: Record<string, unknown>) {
 	const ctx = createExecutionContext();
 	const request = new Request(`https://example.com?key=${env.DEBUG_KEY}`, {
 		method: 'POST',
@@ -1560,11 +2631,17 @@ async function sendEventWithEnvOverride(event: PactWebhookPayload, envOverride:
 		body: JSON.stringify(event),
 	});
 	const mergedEnv = { ...(env as unknown as Record<string, unknown>), ...envOverride } as unknown as Env;
-	const response = await worker.fetch(request, mergedEnv);
+	const response = await worker.fetch(request, mergedEnv, ctx);
 	await waitOnExecutionContext(ctx);
 	return response;
 }
 
+async function triggerWithEnvOverride(envOverride: Record<string, unknown>) {
+	const request = new Request(`https://example.com/trigger?key=${env.DEBUG_KEY}`);
+	const mergedEnv = { ...(env as unknown as Record<string, unknown>), ...envOverride } as unknown as Env;
+	return await worker.fetch(request, mergedEnv, createExecutionContext());
+}
+
 async function trigger() {
 	return await SELF.fetch(`https://example.com/trigger?key=${env.DEBUG_KEY}`);
 }
@@ -1,9 +1,26 @@
 import { describe, it, expect } from 'vitest';
-import { createSummaryAndDetailsMessages, type MessageEnv } from '../src/messages';
-import type { StoredProviderVerificationEventData, StoredContractRequiringVerificationEventData } from '../src/types';
+import {
+	createSummaryAndDetailsMessages,
+	createProviderThreadRootSummary,
+	createProviderThreadRootSummaryBlocks,
+	createDigestMessage,
+	createVerificationEscalationMessage,
+	createVerificationStreakMessage,
+	createVerificationThreadDetailsForProviderChannel,
+	createVerificationThreadDetailBlocksForProviderChannel,
+	createCommitAuthorMessage,
+	type MessageEnv
+} from '../src/messages';
+import type { StoredProviderVerificationEventData, StoredContractPublicationEventData } from '../src/types';
 import {
 	PROVIDER_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PROVIDER_VERIFICATION_FAILED,
 	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	CONTRACT_PUBLISHED,
+	CONTRACT_CONTENT_CHANGED,
+	AWAITING_VERIFICATION_NOTICE,
+	FLAKY_VERIFICATION_BADGE,
 } from '../src/constants';
 
 // Mock environment for testing
@@ -140,7 +157,7 @@ describe('createSummaryAndDetailsMessages', () => {
 
 	describe('with publication events only', () => {
 		it('should create summary and details for publications', () => {
-			const publications: StoredContractRequiringVerificationEventData[] = [
+			const publications: StoredContractPublicationEventData[] = [
 				{
 					eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
 					providerName: 'TestProvider',
@@ -181,7 +198,7 @@ describe('createSummaryAndDetailsMessages', () => {
 		});
 
 		it('should handle publications without provider version descriptions', () => {
-			const publications: StoredContractRequiringVerificationEventData[] = [
+			const publications: StoredContractPublicationEventData[] = [
 				{
 					eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
 					providerName: 'TestProvider',
@@ -210,9 +227,161 @@ describe('createSummaryAndDetailsMessages', () => {
 		});
 	});
 
+	describe('with additional event types', () => {
+		it('should render one line per pact requiring verification by several provider versions', () => {
+			const base: StoredContractPublicationEventData = {
+				eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+				consumerVersionBranch: 'main',
+				providerVersionBranch: 'main',
+				consumerVersionNumber: 'abc123',
+				providerVersionNumber: 'def456',
+				providerVersionDescriptions: 'latest from main branch',
+				pacticipant: 'TestConsumer',
+				pacticipantVersionNumber: 'abc123',
+				ts: Date.now()
+			};
+			const publications: StoredContractPublicationEventData[] = [
+				base,
+				{ ...base, providerVersionBranch: 'release', providerVersionNumber: 'fed654', providerVersionDescriptions: 'deployed in production' }
+			];
+
+			const result = createSummaryAndDetailsMessages(mockEnv, 'TestConsumer', 'abc123', publications);
+
+			expect(result.summaryText).toContain('Pact publications: 2');
+			expect(result.detailsList).toHaveLength(1);
+			expect(result.detailsList[0]).toContain('latest from main branch, <https://github.com/test-org/test-provider-repo/tree/release|release>');
+			expect(result.detailsList[0]).toContain('deployed in production');
+		});
+
+		it('should add Pact Broker details to the line of a pact requiring verification', () => {
+			const publication: StoredContractPublicationEventData = {
+				eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+				consumerVersionBranch: 'main',
+				providerVersionBranch: 'main',
+				consumerVersionNumber: 'abc123',
+				providerVersionNumber: 'def456',
+				pacticipant: 'TestConsumer',
+				pacticipantVersionNumber: 'abc123',
+				ts: Date.now()
+			};
+			const enrichments = new Map([
+				[publication.pactUrl, { interactionCount: 12, interactionsAdded: 3, interactionsRemoved: 1, previousVerificationSuccess: false, diff: '+ create user' }]
+			]);
+
+			const enriched = createSummaryAndDetailsMessages(mockEnv, 'TestConsumer', 'abc123', [publication], enrichments);
+			const plain = createSummaryAndDetailsMessages(mockEnv, 'TestConsumer', 'abc123', [publication]);
+
+			expect(enriched.detailsList[0]).toContain('. 3 interactions added, 1 removed (12 in total). <');
+			expect(enriched.detailsList[0]).toContain(`Previous version: ${mockEnv.FAILURE_EMOJI}`);
+			expect(enriched.detailsList[0]).toMatch(/\n```\+ create user```$/);
+			expect(plain.detailsList[0]).not.toContain('interactions');
+		});
+
+		it('should render contract_published and contract_content_changed events', () => {
+			const published: StoredContractPublicationEventData = {
+				eventType: CONTRACT_PUBLISHED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+				consumerVersionBranch: 'main',
+				providerVersionBranch: '',
+				consumerVersionNumber: 'abc123',
+				providerVersionNumber: '',
+				pacticipant: 'TestConsumer',
+				pacticipantVersionNumber: 'abc123',
+				ts: Date.now()
+			};
+
+			const result = createSummaryAndDetailsMessages(mockEnv, 'TestConsumer', 'abc123', [
+				published,
+				{ ...published, eventType: CONTRACT_CONTENT_CHANGED },
+			]);
+
+			expect(result.detailsList).toEqual([
+				'Published <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc|contract> for provider *TestProvider* from <https://github.com/test-org/test-consumer-repo/tree/main|main> <https://github.com/test-org/test-consumer-repo/commit/abc123|abc123>. <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/version/abc123/diff/previous-distinct|Diff> with previous distinct version of this pact.',
+				'Published <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc|contract> with changed content for provider *TestProvider* from <https://github.com/test-org/test-consumer-repo/tree/main|main> <https://github.com/test-org/test-consumer-repo/commit/abc123|abc123>. <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/version/abc123/diff/previous-distinct|Diff> with previous distinct version of this pact.',
+			]);
+
+			const enrichments = new Map([
+				[published.pactUrl, { interactionCount: 4, interactionsAdded: 1, interactionsRemoved: 0, previousVerificationSuccess: true, diff: '+ get order' }]
+			]);
+			const enriched = createSummaryAndDetailsMessages(mockEnv, 'TestConsumer', 'abc123', [{ ...published, eventType: CONTRACT_CONTENT_CHANGED }], enrichments);
+			expect(enriched.detailsList[0]).toContain('abc123>. 1 interaction added, 0 removed (4 in total). <');
+			expect(enriched.detailsList[0]).toContain(`this pact. Previous version: ${mockEnv.SUCCESS_EMOJI}\n\`\`\`+ get order\`\`\``);
+			expect(enriched.detailsBlocks[0]).toMatchObject({ text: { text: enriched.detailsList[0] } });
+		});
+
+		it('should count provider_verification_succeeded and provider_verification_failed events', () => {
+			const verification: StoredProviderVerificationEventData = {
+				eventType: PROVIDER_VERIFICATION_SUCCEEDED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				verificationResultUrl: 'https://pact.example.com/pact-version/abc/verification-results/1',
+				githubVerificationStatus: 'success',
+				consumerVersionBranch: 'main',
+				providerVersionBranch: 'main',
+				consumerVersionNumber: 'abc123',
+				providerVersionNumber: 'def456',
+				pacticipant: 'TestProvider',
+				pacticipantVersionNumber: 'def456',
+				ts: Date.now()
+			};
+
+			const result = createSummaryAndDetailsMessages(mockEnv, 'TestProvider', 'def456', [
+				verification,
+				{ ...verification, eventType: PROVIDER_VERIFICATION_FAILED, githubVerificationStatus: 'failure', verificationResultUrl: 'https://pact.example.com/pact-version/abc/verification-results/2' },
+			]);
+
+			expect(result.summaryText).toContain(`Pact verifications: ${mockEnv.SUCCESS_EMOJI}1 ${mockEnv.FAILURE_EMOJI}1`);
+			expect(result.detailsList).toHaveLength(3);
+		});
+	});
+
+	describe('Block Kit rendering', () => {
+		it('should render counts as status fields and details as sections with link buttons', () => {
+			const verification: StoredProviderVerificationEventData = {
+				eventType: PROVIDER_VERIFICATION_PUBLISHED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				verificationResultUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc/verification-results/1',
+				githubVerificationStatus: 'failure',
+				consumerVersionBranch: 'main',
+				providerVersionBranch: 'develop',
+				consumerVersionNumber: 'abc123',
+				providerVersionNumber: 'def456',
+				pacticipant: 'TestProvider',
+				pacticipantVersionNumber: 'def456',
+				ts: Date.now()
+			};
+
+			const result = createSummaryAndDetailsMessages(mockEnv, 'TestProvider', 'def456', [verification]);
+
+			expect(result.summaryBlocks).toEqual([
+				{
+					type: 'section',
+					text: { type: 'mrkdwn', text: result.summaryText.split('\n')[0] },
+					fields: [{ type: 'mrkdwn', text: `*Pact verifications*\n${mockEnv.FAILURE_EMOJI}1` }]
+				}
+			]);
+			expect(result.detailsBlocks).toHaveLength(result.detailsList.length);
+			expect(result.detailsBlocks[0]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: 'Verified consumers:' }] });
+			expect(result.detailsBlocks[1]).toMatchObject({
+				type: 'section',
+				text: { text: result.detailsList[1] },
+				accessory: { type: 'button', url: verification.verificationResultUrl }
+			});
+		});
+	});
+
 	describe('with mixed events', () => {
 		it('should handle both verifications and publications', () => {
-			const events: (StoredProviderVerificationEventData | StoredContractRequiringVerificationEventData)[] = [
+			const events: (StoredProviderVerificationEventData | StoredContractPublicationEventData)[] = [
 				{
 					eventType: PROVIDER_VERIFICATION_PUBLISHED,
 					providerName: 'TestProvider',
@@ -402,3 +571,371 @@ describe('createSummaryAndDetailsMessages', () => {
 		});
 	});
 });
+
+describe('createProviderThreadRootSummary', () => {
+	it('should append deployed environments, the last master verification and can-i-deploy results', () => {
+		const payload = {
+			eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+			providerName: 'TestProvider',
+			consumerName: 'TestConsumer',
+			pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+			consumerVersionBranch: 'main',
+			providerVersionBranch: 'main',
+			consumerVersionNumber: 'abc1234567',
+			providerVersionNumber: 'def456'
+		} as const;
+		const lastMasterVerification = {
+			...payload,
+			eventType: PROVIDER_VERIFICATION_PUBLISHED,
+			githubVerificationStatus: 'success',
+			verificationResultUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc/verification-results/1'
+		} as const;
+
+		const lines = createProviderThreadRootSummary(
+			{
+				payload,
+				deployedEnvironments: ['staging'],
+				lastMasterVerification,
+				canIDeploy: {
+					pacticipant: 'TestConsumer',
+					version: 'abc1234567',
+					results: [
+						{ environment: 'staging', deployable: true },
+						{ environment: 'production', deployable: false },
+						{ environment: 'qa', deployable: null }
+					]
+				}
+			},
+			mockEnv
+		).split('\n');
+
+		expect(lines).toHaveLength(4);
+		expect(lines[1]).toBe(':rocket: deployed: staging');
+		expect(lines[2]).toContain('Last verification on');
+		expect(lines[3]).toBe(
+			'Can I deploy *TestConsumer* <https://github.com/test-org/test-consumer-repo/commit/abc1234567|abc1234>? staging ✅, production 😢, qa ❔'
+		);
+
+		const blocks = createProviderThreadRootSummaryBlocks({ payload, deployedEnvironments: ['staging'], lastMasterVerification }, mockEnv, 'Deprecated!');
+		expect(blocks.map((b) => b.type)).toEqual(['section', 'context', 'section', 'actions', 'context']);
+		expect(blocks[3]).toMatchObject({
+			elements: [
+				{ text: { text: 'Contract' }, url: payload.pactUrl },
+				{ text: { text: 'Diff' } },
+				{ text: { text: 'Results' }, url: lastMasterVerification.verificationResultUrl }
+			]
+		});
+	});
+	it('should show the environments the verified provider version is deployed to under the last master verification', () => {
+		const payload = {
+			eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+			providerName: 'TestProvider',
+			consumerName: 'TestConsumer',
+			pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+			consumerVersionBranch: 'main',
+			providerVersionBranch: 'main',
+			consumerVersionNumber: 'abc1234567',
+			providerVersionNumber: 'def456'
+		} as const;
+		const lastMasterVerification = {
+			...payload,
+			eventType: PROVIDER_VERIFICATION_PUBLISHED,
+			githubVerificationStatus: 'success',
+			verificationResultUrl: 'https://pact.example.com/verification-results/1'
+		} as const;
+		const info = { payload, lastMasterVerification, providerDeployedEnvironments: ['staging', 'production'] };
+
+		const lines = createProviderThreadRootSummary(info, mockEnv).split('\n');
+		expect(lines).toHaveLength(3);
+		expect(lines[1]).toContain('Last verification on');
+		expect(lines[2]).toBe(':rocket: verified provider version deployed: staging, production');
+
+		const blocks = createProviderThreadRootSummaryBlocks(info, mockEnv);
+		expect(blocks.map((b) => b.type)).toEqual(['section', 'section', 'context', 'actions']);
+		expect(blocks[2]).toMatchObject({ elements: [{ text: ':rocket: verified provider version deployed: staging, production' }] });
+
+		// Without a master verification there is no provider version to show deployments for
+		expect(createProviderThreadRootSummary({ payload, providerDeployedEnvironments: ['staging'] }, mockEnv)).not.toContain(':rocket:');
+	});
+
+	it('should end with the notice, like the blocks', () => {
+		const payload = {
+			eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+			providerName: 'TestProvider',
+			consumerName: 'TestConsumer',
+			pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+			consumerVersionBranch: 'main',
+			providerVersionBranch: 'main',
+			consumerVersionNumber: 'abc1234567',
+			providerVersionNumber: 'def456'
+		} as const;
+
+		const summary = createProviderThreadRootSummary({ payload, flakySince: 1 }, mockEnv, 'Some notice');
+		expect(summary.endsWith(`\n${FLAKY_VERIFICATION_BADGE}\nSome notice`)).toBe(true);
+	});
+});
+
+describe('createDigestMessage', () => {
+	const publication = {
+		eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+		providerName: 'TestProvider',
+		consumerName: 'TestConsumer',
+		pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+		consumerVersionBranch: 'main',
+		providerVersionBranch: '',
+		consumerVersionNumber: 'abc1234567',
+		providerVersionNumber: ''
+	} as const;
+
+	it('should render the counts and the lists of a provider digest', () => {
+		const failing = {
+			...publication,
+			eventType: PROVIDER_VERIFICATION_FAILED,
+			providerVersionBranch: 'main',
+			providerVersionNumber: 'def4567890',
+			githubVerificationStatus: 'failure',
+			verificationResultUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc/verification-results/1'
+		} as const;
+
+		const { text, blocks } = createDigestMessage(
+			{
+				period: 'weekly',
+				from: Date.UTC(2025, 5, 2, 7),
+				to: Date.UTC(2025, 5, 9, 7),
+				providerName: 'TestProvider',
+				publishedPacts: [publication],
+				verificationsSucceeded: 3,
+				verificationsFailed: 1,
+				unverifiedPacts: [],
+				failingVerifications: [failing],
+				flakyVerifications: [
+					{
+						providerName: 'TestProvider',
+						consumerName: 'TestConsumer',
+						providerVersionBranch: 'main',
+						pactVersion: 'abc',
+						flips: 3,
+						lastFlipAt: Date.UTC(2025, 5, 3),
+						verificationResultUrl: failing.verificationResultUrl
+					}
+				]
+			},
+			mockEnv
+		);
+
+		const lines = text.split('\n');
+		expect(lines[0]).toBe('📊 *Weekly pact digest* for *TestProvider* (2025-06-02 – 2025-06-09)');
+		expect(lines[1]).toBe('*Pact versions published:* 1');
+		expect(lines[2]).toBe('*Pact verifications:* ✅3 😢1');
+		expect(lines[4]).toBe(
+			'- <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc|Contract> by *TestConsumer* for *TestProvider* from <https://github.com/test-org/test-consumer-repo/tree/main|main> <https://github.com/test-org/test-consumer-repo/commit/abc1234567|abc1234>'
+		);
+		expect(text).not.toContain('Still unverified');
+		expect(lines[6]).toContain(`😢 <${failing.verificationResultUrl}|Results> *TestProvider*`);
+		expect(lines[8]).toBe(
+			`- 🎲 <${failing.verificationResultUrl}|Results> *TestProvider* <https://github.com/test-org/test-provider-repo/tree/main|main> verifying *TestConsumer*: 3 flips`
+		);
+		expect(blocks.map((b) => b.type)).toEqual(['section', 'section', 'section', 'section']);
+	});
+
+	it('should cap long lists', () => {
+		const unverifiedPacts = [...Array(12).keys()].map((i) => ({ ...publication, consumerVersionNumber: `v${i}` }));
+
+		const { text } = createDigestMessage(
+			{
+				period: 'daily',
+				from: 0,
+				to: 24 * 60 * 60 * 1000,
+				publishedPacts: [],
+				verificationsSucceeded: 0,
+				verificationsFailed: 0,
+				unverifiedPacts,
+				failingVerifications: [],
+				flakyVerifications: []
+			},
+			mockEnv
+		);
+
+		expect(text).toContain('*Daily pact digest* (1970-01-01 – 1970-01-02)');
+		expect(text.split('\n').filter((line) => line.startsWith('- '))).toHaveLength(10);
+		expect(text).toContain('…and 2 more');
+	});
+});
+
+describe('awaiting verification messages', () => {
+	const payload = {
+		eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+		providerName: 'TestProvider',
+		consumerName: 'TestConsumer',
+		pactUrl: 'https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc',
+		consumerVersionBranch: 'main',
+		providerVersionBranch: '',
+		consumerVersionNumber: 'abc1234567',
+		providerVersionNumber: ''
+	} as const;
+
+	it('should keep the notice in the root summary while the thread is alerted', () => {
+		expect(createProviderThreadRootSummary({ payload, verificationSlaAlertedAt: 1 }, mockEnv).endsWith(`\n${AWAITING_VERIFICATION_NOTICE}`)).toBe(true);
+		expect(createProviderThreadRootSummary({ payload }, mockEnv)).not.toContain(AWAITING_VERIFICATION_NOTICE);
+
+		const blocks = createProviderThreadRootSummaryBlocks({ payload, verificationSlaAlertedAt: 1 }, mockEnv);
+		expect(blocks[blocks.length - 1]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: AWAITING_VERIFICATION_NOTICE }] });
+	});
+
+	it('should show the flaky badge in the root summary of a flaky thread', () => {
+		expect(createProviderThreadRootSummary({ payload, flakySince: 1 }, mockEnv).endsWith(`\n${FLAKY_VERIFICATION_BADGE}`)).toBe(true);
+		const blocks = createProviderThreadRootSummaryBlocks({ payload, flakySince: 1 }, mockEnv);
+		expect(blocks[blocks.length - 1]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: FLAKY_VERIFICATION_BADGE }] });
+	});
+
+	it('should show the verification latency in the root summary', () => {
+		const hours = (n: number) => n * 60 * 60 * 1000;
+
+		expect(createProviderThreadRootSummary({ payload, firstVerificationLatencyMs: hours(2) }, mockEnv)).toContain(
+			'\n⏱️ First verified 2 hours after publication'
+		);
+		expect(
+			createProviderThreadRootSummary({ payload, firstVerificationLatencyMs: hours(2), firstMasterVerificationLatencyMs: hours(5) }, mockEnv)
+		).toContain('\n⏱️ First verified 2 hours after publication, on the master branch after 5 hours');
+		expect(createProviderThreadRootSummaryBlocks({ payload, firstVerificationLatencyMs: 90_000 }, mockEnv)).toContainEqual({
+			type: 'context',
+			elements: [{ type: 'mrkdwn', text: '⏱️ First verified 1 minute after publication' }]
+		});
+	});
+
+	it('should tell the main channel how long the pact has been waiting', () => {
+		const { text, blocks } = createVerificationEscalationMessage({ payload, awaitingVerificationSince: 0 }, 26 * 60 * 60 * 1000 + 59_000, mockEnv);
+
+		expect(text).toBe(
+			'⏳ <https://pact.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/abc|Contract> by consumer *TestConsumer* for *TestProvider* from <https://github.com/test-org/test-consumer-repo/tree/main|main> <https://github.com/test-org/test-consumer-repo/commit/abc1234567|abc1234> has been awaiting verification for 26 hours.'
+		);
+		expect(blocks).toHaveLength(1);
+	});
+});
+
+describe('verification streak messages', () => {
+	const verification = {
+		eventType: PROVIDER_VERIFICATION_FAILED,
+		providerName: 'TestProvider',
+		consumerName: 'TestConsumer',
+		githubVerificationStatus: 'failure',
+		verificationResultUrl: 'https://pact.example.com/verification-results/1',
+		consumerVersionBranch: 'main',
+		providerVersionBranch: 'main',
+		consumerVersionNumber: 'abc1234567',
+		providerVersionNumber: 'def1234567'
+	} as const;
+	const HOUR_MS = 60 * 60 * 1000;
+
+	it('should tell the thread since when the pair is broken', () => {
+		const { text, blocks } = createVerificationStreakMessage(
+			verification,
+			{ kind: 'broken', failingSince: Date.UTC(2025, 5, 2, 9, 30), consecutiveFailures: 3, changedAt: Date.UTC(2025, 5, 2, 12) },
+			mockEnv,
+			false
+		);
+
+		expect(text).toBe('🔥 *Broken since 2025-06-02 09:30 UTC*, 3 consecutive failures');
+		expect(blocks).toEqual([{ type: 'section', text: { type: 'mrkdwn', text } }]);
+	});
+
+	it('should tell how long it took to recover, in minutes below an hour', () => {
+		const recovered = (ms: number) =>
+			createVerificationStreakMessage(verification, { kind: 'recovered', failingSince: 0, consecutiveFailures: 1, changedAt: ms }, mockEnv, false).text;
+
+		expect(recovered(5 * HOUR_MS + 59 * 60_000)).toBe('🎉 *Recovered* after 5 hours (1 consecutive failure)');
+		expect(recovered(45 * 60_000)).toBe('🎉 *Recovered* after 45 minutes (1 consecutive failure)');
+	});
+
+	it('should name the pair and link the results in the main channel', () => {
+		const { text } = createVerificationStreakMessage(
+			verification,
+			{ kind: 'recovered', failingSince: 0, consecutiveFailures: 2, changedAt: HOUR_MS },
+			mockEnv,
+			true
+		);
+
+		expect(text).toBe(
+			'🎉 *Recovered* after 1 hour (2 consecutive failures): *TestProvider* <https://github.com/test-org/test-provider-repo/tree/main|main> <https://github.com/test-org/test-provider-repo/commit/def1234567|def1234> verifying *TestConsumer* <https://pact.example.com/verification-results/1|Results>'
+		);
+	});
+});
+
+describe('owner mentions', () => {
+	const verification: StoredProviderVerificationEventData = {
+		eventType: PROVIDER_VERIFICATION_FAILED,
+		providerName: 'TestProvider',
+		consumerName: 'TestConsumer',
+		githubVerificationStatus: 'failure',
+		verificationResultUrl: 'https://pact.example.com/verification-results/1',
+		consumerVersionBranch: 'main',
+		providerVersionBranch: 'develop',
+		consumerVersionNumber: 'abc1234567',
+		providerVersionNumber: 'def1234567',
+		pacticipant: 'TestProvider',
+		pacticipantVersionNumber: 'def1234567',
+		ts: 0
+	};
+
+	it('should mention user groups and users below the provider channel thread detail', () => {
+		const text = createVerificationThreadDetailsForProviderChannel(verification, mockEnv, ['S0123ABC', 'U0456DEF']);
+
+		expect(text).toBe(`${createVerificationThreadDetailsForProviderChannel(verification, mockEnv)}\ncc <!subteam^S0123ABC> <@U0456DEF>`);
+		expect(createVerificationThreadDetailBlocksForProviderChannel(verification, mockEnv, ['S0123ABC', 'U0456DEF'])).toMatchObject([
+			{ type: 'section', text: { text } }
+		]);
+	});
+
+	it('should mention the owners in the main channel summary', () => {
+		const result = createSummaryAndDetailsMessages(mockEnv, 'TestProvider', 'def1234567', [verification], undefined, ['W0789GHI']);
+		const plain = createSummaryAndDetailsMessages(mockEnv, 'TestProvider', 'def1234567', [verification]);
+
+		expect(result.summaryText).toBe(`${plain.summaryText}\ncc <@W0789GHI>`);
+		expect(result.summaryBlocks).toEqual([...plain.summaryBlocks, { type: 'section', text: { type: 'mrkdwn', text: 'cc <@W0789GHI>' } }]);
+		expect(result.detailsList).toEqual(plain.detailsList);
+	});
+});
+
+describe('commit author messages', () => {
+	it('should tell the author which commit failed verification by which provider', () => {
+		const { text, blocks } = createCommitAuthorMessage(
+			{
+				eventType: PROVIDER_VERIFICATION_FAILED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				githubVerificationStatus: 'failure',
+				verificationResultUrl: 'https://pact.example.com/verification-results/1',
+				consumerVersionBranch: 'feature',
+				providerVersionBranch: 'main',
+				consumerVersionNumber: 'abc1234567',
+				providerVersionNumber: 'def1234567'
+			},
+			mockEnv
+		);
+
+		expect(text).toBe(
+			'😢 Your commit <https://github.com/test-org/test-consumer-repo/commit/abc1234567|abc1234> of *TestConsumer* (<https://github.com/test-org/test-consumer-repo/tree/feature|feature>) failed verification by *TestProvider* <https://github.com/test-org/test-provider-repo/tree/main|main> <https://github.com/test-org/test-provider-repo/commit/def1234567|def1234>: <https://pact.example.com/verification-results/1|Results>'
+		);
+		expect(blocks).toMatchObject([{ type: 'section', text: { text }, accessory: { url: 'https://pact.example.com/verification-results/1' } }]);
+	});
+
+	it('should leave out the branch when the consumer branch is unknown', () => {
+		const { text } = createCommitAuthorMessage(
+			{
+				eventType: PROVIDER_VERIFICATION_FAILED,
+				providerName: 'TestProvider',
+				consumerName: 'TestConsumer',
+				githubVerificationStatus: 'failure',
+				verificationResultUrl: 'https://pact.example.com/verification-results/1',
+				consumerVersionBranch: '',
+				providerVersionBranch: 'main',
+				consumerVersionNumber: 'abc1234567',
+				providerVersionNumber: 'def1234567'
+			},
+			mockEnv
+		);
+
+		expect(text).toContain('<https://github.com/test-org/test-consumer-repo/commit/abc1234567|abc1234> of *TestConsumer* failed verification by');
+		expect(text).not.toContain('()');
+	});
+});
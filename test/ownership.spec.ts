@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { getOwnerMentionCooldownMs, getVerificationFailureOwners, parsePacticipantOwners } from '../src/ownership';
+import { makeProviderVerificationPayload } from './test-utilities';
+
+describe('ownership', () => {
+	describe('parsePacticipantOwners', () => {
+		it('accepts single IDs, lists of IDs and a JSON string', () => {
+			const config = { TestProvider: 'S0123ABC', TestConsumer: ['U0456DEF', 'W0789GHI', 'U0456DEF'] };
+			const expected = { TestProvider: ['S0123ABC'], TestConsumer: ['U0456DEF', 'W0789GHI'] };
+
+			expect(parsePacticipantOwners({ PACTICIPANT_OWNERS: config })).toEqual({ owners: expected, errors: [] });
+			expect(parsePacticipantOwners({ PACTICIPANT_OWNERS: JSON.stringify(config) })).toEqual({ owners: expected, errors: [] });
+			expect(parsePacticipantOwners({})).toEqual({ owners: {}, errors: [] });
+		});
+
+		it('leaves out invalid owners and reports them', () => {
+			expect(parsePacticipantOwners({ PACTICIPANT_OWNERS: { TestProvider: ['@team', 'S0123ABC'], TestConsumer: [] } })).toEqual({
+				owners: { TestProvider: ['S0123ABC'] },
+				errors: [
+					'PACTICIPANT_OWNERS.TestProvider: expected Slack user group (S…) or user (U…, W…) IDs',
+					'PACTICIPANT_OWNERS.TestConsumer: expected Slack user group (S…) or user (U…, W…) IDs',
+				],
+			});
+			expect(parsePacticipantOwners({ PACTICIPANT_OWNERS: '{' }).errors).toEqual(['PACTICIPANT_OWNERS: invalid JSON']);
+			expect(parsePacticipantOwners({ PACTICIPANT_OWNERS: ['S0123ABC'] }).errors).toEqual([
+				'PACTICIPANT_OWNERS: expected an object of pacticipant owners',
+			]);
+		});
+	});
+
+	describe('getVerificationFailureOwners', () => {
+		const env = { PACTICIPANT_OWNERS: { TestProvider: ['S0123ABC', 'U0456DEF'], TestConsumer: ['U0456DEF', 'S0999XYZ'] } };
+
+		it('returns the provider and consumer owners of a failed verification', () => {
+			expect(getVerificationFailureOwners(env, makeProviderVerificationPayload({ githubVerificationStatus: 'failure' }))).toEqual([
+				'S0123ABC',
+				'U0456DEF',
+				'S0999XYZ',
+			]);
+		});
+
+		it('returns no owners for a successful verification or pacticipants without owners', () => {
+			expect(getVerificationFailureOwners(env, makeProviderVerificationPayload({ githubVerificationStatus: 'success' }))).toEqual([]);
+			expect(
+				getVerificationFailureOwners(
+					env,
+					makeProviderVerificationPayload({ providerName: 'Other', consumerName: 'Another', githubVerificationStatus: 'failure' }),
+				),
+			).toEqual([]);
+		});
+	});
+
+	describe('getOwnerMentionCooldownMs', () => {
+		it('defaults to an hour', () => {
+			expect(getOwnerMentionCooldownMs({})).toBe(60 * 60 * 1000);
+			expect(getOwnerMentionCooldownMs({ OWNER_MENTION_COOLDOWN_MINUTES: '5' })).toBe(5 * 60 * 1000);
+		});
+	});
+});
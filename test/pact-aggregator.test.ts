@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { env, runInDurableObject } from 'cloudflare:test';
 import { mockTime, now, resetTime } from '../src/time-utils';
 import {
 	expectTimestampToBeRecent,
@@ -9,9 +9,14 @@ import {
 	makeContractPublicationPayload,
 	makeProviderVerificationPayload,
 } from './test-utilities';
-import { withRetentionPolicyForDurableObject } from './do-env-overrides';
+import { withDurableObjectEnvOverride, withRetentionPolicyForDurableObject } from './do-env-overrides';
 import { PactAggregator } from '../src';
-import { DAY_MS } from '../src/constants';
+import { AWAITING_VERIFICATION_NOTICE, DAY_MS } from '../src/constants';
+import { initializeAggregatorStorage } from '../src/aggregator-storage';
+import { getEventFingerprint } from '../src/payload-utils';
+import type { EventGroupDeadLetterEntry, ProviderVerificationPayload, PublicationThreadInfo, StoredPactEventData } from '../src/types';
+
+const LEASE_MS = 60_000;
 
 describe('PactAggregator', () => {
 	let aggregator: DurableObjectStub<PactAggregator>;
@@ -80,16 +85,129 @@ describe('PactAggregator', () => {
 			expect(eventBucketsArray).toHaveLength(1);
 			expect(eventBucketsArray[0]!.count).toBe(2);
 		});
+
+		it('should suppress duplicate deliveries within the deduplication window', async () => {
+			const baseTime = 60000;
+			mockTime(() => baseTime);
+
+			const verification = makeProviderVerificationEventData();
+			const publication = makeContractPublicationEventData();
+
+			await withDurableObjectEnvOverride(aggregator, { DEDUPLICATION_WINDOW_MS: 10 * 60000 }, async () => {
+				expect(await aggregator.addEvent(verification)).toBe(true);
+				expect(await aggregator.addEvent(publication)).toBe(true);
+
+				mockTime(() => baseTime + 5 * 60000);
+				expect(await aggregator.addEvent(verification)).toBe(false);
+				expect(await aggregator.addEvent(publication)).toBe(false);
+
+				// The same pact requiring verification by another provider version is not a duplicate
+				expect(await aggregator.addEvent({ ...publication, providerVersionNumber: 'other' })).toBe(true);
+
+				// A new consumer version of the same pact is not a duplicate
+				expect(await aggregator.addEvent({ ...publication, consumerVersionNumber: '9.9.9' })).toBe(true);
+
+				// Outside the window the same delivery is stored again
+				mockTime(() => baseTime + 11 * 60000);
+				expect(await aggregator.addEvent(verification)).toBe(true);
+			});
+
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(5);
+			expect(debugData.suppressedDuplicates).toBe(2);
+			resetTime();
+		});
+
+		it('should store a delivery in full when the Pact Broker retries one that failed halfway', async () => {
+			const verification = makeProviderVerificationEventData();
+			const outboxItems = [{ kind: 'pact_event' as const, payload: verification, channel: '#pact-TestProvider' }];
+
+			const failedAttempt = await runInDurableObject(aggregator, async (instance: PactAggregator) => {
+				const spy = vi
+					.spyOn(instance as unknown as { enqueueProviderChannelOutboxItems: () => void }, 'enqueueProviderChannelOutboxItems')
+					.mockImplementationOnce(() => {
+						throw new Error('storage unavailable');
+					});
+				try {
+					return await instance.addEvent(verification, outboxItems);
+				} catch (err) {
+					return (err as Error).message;
+				} finally {
+					spy.mockRestore();
+				}
+			});
+			expect(failedAttempt).toBe('storage unavailable');
+			expect((await aggregator.getDebugInfo()).totalEvents).toBe(0);
+
+			expect(await aggregator.addEvent(verification, outboxItems)).toBe(true);
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(1);
+			expect(debugData.suppressedDuplicates).toBe(0);
+			expect(debugData.providerChannelOutbox).toHaveLength(1);
+		});
+
+		it('should store every delivery when deduplication is disabled', async () => {
+			mockTime(() => 60000);
+			const verification = makeProviderVerificationEventData();
+
+			await withDurableObjectEnvOverride(aggregator, { DEDUPLICATION_WINDOW_MS: 0 }, async () => {
+				expect(await aggregator.addEvent(verification)).toBe(true);
+				expect(await aggregator.addEvent(verification)).toBe(true);
+			});
+
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(2);
+			expect(debugData.suppressedDuplicates).toBe(0);
+			resetTime();
+		});
 	});
 
 	describe('peekEventsToPublish & ackPublishedBuckets', () => {
 		it('should return empty result when no events to process', async () => {
 			// const result = await aggregator.getEventsToPublish();
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 			expect(result.events).toEqual([]);
 			expect(result.bucketsToDelete).toEqual([]);
 		});
 
+		it('should peek nothing for other runs while the buckets are leased', async () => {
+			try {
+				mockTime(() => 60_000);
+				await aggregator.addEvent(makeProviderVerificationEventData());
+				mockTime(() => 120_000);
+
+				const { events, leaseUntil } = await aggregator.peekEventsToPublish(LEASE_MS);
+				expect(events).toHaveLength(1);
+				expect(leaseUntil).toBe(120_000 + LEASE_MS);
+
+				expect(await aggregator.peekEventsToPublish(LEASE_MS)).toEqual({ events: [], bucketsToDelete: [] });
+				await aggregator.releasePublishLease(leaseUntil!);
+				expect((await aggregator.peekEventsToPublish(LEASE_MS)).events).toHaveLength(1);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should peek the buckets of a run that did not release its lease once the lease expires', async () => {
+			try {
+				mockTime(() => 60_000);
+				await aggregator.addEvent(makeProviderVerificationEventData());
+				mockTime(() => 120_000);
+				const { leaseUntil: expiredLease } = await aggregator.peekEventsToPublish(LEASE_MS);
+
+				mockTime(() => 120_000 + LEASE_MS + 1);
+				const { events, leaseUntil } = await aggregator.peekEventsToPublish(LEASE_MS);
+				expect(events).toHaveLength(1);
+
+				// The late release of the expired lease leaves the new one in place
+				await aggregator.releasePublishLease(expiredLease!);
+				expect(await aggregator.peekEventsToPublish(LEASE_MS)).toEqual({ events: [], bucketsToDelete: [] });
+				await aggregator.releasePublishLease(leaseUntil!);
+			} finally {
+				resetTime();
+			}
+		});
+
 		it('should process events from previous minute buckets but not current minute', async () => {
 			const baseTime = 120000; // 2 minutes
 			const previousTime = 60000; // 1 minute
@@ -113,7 +231,7 @@ describe('PactAggregator', () => {
 			await aggregator.addEvent(currentEvent);
 
 			// Peek events to publish
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 
 			// Should only return the past event, not the current minute event
 			expect(result.events).toHaveLength(1);
@@ -156,12 +274,12 @@ describe('PactAggregator', () => {
 			await aggregator.addEvent(currentEvent);
 
 			// Process events - this should consolidate the events
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 
 			// Should not return any events because they were consolidated to current bucket
 			expect(result.events).toHaveLength(0);
 
-			expect(result.bucketsToDelete).toHaveLength(1); // Previous bucket should be marked for deletion
+			expect(result.bucketsToDelete).toHaveLength(0); // The emptied previous bucket no longer exists
 
 			// Ack the processed buckets to delete them
 			await aggregator.ackPublishedBuckets(result.bucketsToDelete, result.events.length);
@@ -196,7 +314,7 @@ describe('PactAggregator', () => {
 			await aggregator.addEvent(currentEvent);
 
 			// Process events
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 
 			// Should consolidate the recent event due to quiet period logic
 			expect(result.events).toHaveLength(0);
@@ -304,7 +422,7 @@ describe('PactAggregator', () => {
 			await aggregator.addEvent(currentEvent);
 
 			// Peek events to publish
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 
 			// Should process the old event because it exceeds max time
 			expect(result.events).toHaveLength(1);
@@ -344,7 +462,7 @@ describe('PactAggregator', () => {
 			await aggregator.addEvent(currentEvent);
 
 			// Verify consolidation happens when processing
-			const result = await aggregator.peekEventsToPublish();
+			const result = await aggregator.peekEventsToPublish(LEASE_MS);
 			await aggregator.ackPublishedBuckets(result.bucketsToDelete, result.events.length);
 
 			const debugData = await aggregator.getDebugInfo();
@@ -484,6 +602,33 @@ describe('PactAggregator', () => {
 			expect(deprecatedOnV3[0]!.key).toBe(`API|UI|pact-v1|${channel}`);
 		});
 
+		it('should keep 2 active pact versions for branches matching a master branch glob', async () => {
+			const channel = `${env.PROVIDER_CHANNEL_PREFIX ?? '#pact-'}API`;
+			const publication = (version: string) =>
+				makeContractPublicationPayload({
+					providerName: 'API',
+					consumerName: 'UI',
+					consumerVersionBranch: 'release/2.1',
+					consumerVersionNumber: `sha-${version}`,
+					pactUrl: `https://example.com/pacts/provider/API/consumer/UI/pact-version/pact-${version}`,
+				});
+
+			const deprecated = await withDurableObjectEnvOverride(
+				aggregator,
+				{ PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: { UI: ['main', 'release/*'] } },
+				async () => {
+					const deprecatedPerVersion = [];
+					for (const [index, version] of ['v1', 'v2', 'v3'].entries()) {
+						mockTime(() => index);
+						deprecatedPerVersion.push(await aggregator.upsertPublicationThreadInfo(publication(version), channel, `TS_${version}`, 'C1'));
+					}
+					return deprecatedPerVersion;
+				},
+			);
+
+			expect(deprecated.map((candidates) => candidates.map((c) => c.key))).toEqual([[], [], [`API|UI|pact-v1|${channel}`]]);
+		});
+
 		it('should not deprecate anything when consumerVersionBranch is empty', async () => {
 			const channel = `${env.PROVIDER_CHANNEL_PREFIX ?? '#pact-'}API`;
 			const channelId = 'CHANNEL_ID_ABC';
@@ -621,4 +766,726 @@ describe('PactAggregator', () => {
 			}
 		});
 	});
+
+	describe('pact enrichment cache', () => {
+		it('should return cached Pact Broker lookups until they expire', async () => {
+			const pactUrl = 'https://broker.example.com/pacts/provider/P/consumer/C/pact-version/abc';
+			const enrichment = { interactionCount: 4, interactionsAdded: 1, interactionsRemoved: 0 };
+			try {
+				mockTime(() => 1_000_000);
+				await aggregator.cachePactEnrichment(pactUrl, enrichment);
+
+				await withDurableObjectEnvOverride(aggregator, { PACT_BROKER_CACHE_TTL_MS: 60_000 }, async () => {
+					mockTime(() => 1_000_000 + 60_000);
+					expect(await aggregator.getCachedPactEnrichment(pactUrl)).toEqual(enrichment);
+
+					mockTime(() => 1_000_000 + 60_001);
+					expect(await aggregator.getCachedPactEnrichment(pactUrl)).toBeUndefined();
+				});
+				expect(await aggregator.getCachedPactEnrichment('https://broker.example.com/other')).toBeUndefined();
+			} finally {
+				resetTime();
+			}
+		});
+	});
+
+	describe('per-group publication tracking and dead letters', () => {
+		async function peekTwoGroups() {
+			mockTime(() => 60_000);
+			await aggregator.addEvent(makeProviderVerificationEventData({ providerName: 'ProviderA', providerVersionNumber: '1.0.0' }));
+			await aggregator.addEvent(makeProviderVerificationEventData({ providerName: 'ProviderB', providerVersionNumber: '2.0.0' }));
+			mockTime(() => 120_000);
+			return aggregator.peekEventsToPublish(LEASE_MS);
+		}
+
+		it('should ack a published group without removing the other groups of the same bucket', async () => {
+			try {
+				const { bucketsToDelete } = await peekTwoGroups();
+
+				expect(await aggregator.ackPublishedEventGroup(bucketsToDelete, 'ProviderA:1.0.0')).toBe(1);
+
+				const debugData = await aggregator.getDebugInfo();
+				expect(Object.values(debugData.eventBuckets).flatMap((b) => b.events.map((e) => e.pacticipant))).toEqual(['ProviderB']);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should dead-letter a group after PUBLISH_MAX_ATTEMPTS failures and replay or discard it', async () => {
+			try {
+				const { bucketsToDelete } = await peekTwoGroups();
+
+				await withDurableObjectEnvOverride(aggregator, { PUBLISH_MAX_ATTEMPTS: 2 }, async () => {
+					expect(await aggregator.recordEventGroupPublishFailure(bucketsToDelete, 'ProviderB:2.0.0', 'msg_too_long')).toEqual({
+						attempts: 1,
+						deadLettered: false,
+					});
+					expect((await aggregator.getDebugInfo()).publishFailures).toEqual({ 'ProviderB:2.0.0': 1 });
+					expect(await aggregator.recordEventGroupPublishFailure(bucketsToDelete, 'ProviderB:2.0.0', 'msg_too_long')).toEqual({
+						attempts: 2,
+						deadLettered: true,
+					});
+				});
+
+				const [deadLetter] = await aggregator.listDeadLetters();
+				expect(deadLetter).toMatchObject({ groupKey: 'ProviderB:2.0.0', attempts: 2, lastError: 'msg_too_long', deadLetteredAt: 120_000 });
+				expect((deadLetter as EventGroupDeadLetterEntry).events.map((e) => e.pacticipant)).toEqual(['ProviderB']);
+				const afterDeadLetter = await aggregator.getDebugInfo();
+				expect(afterDeadLetter).toMatchObject({ totalEvents: 1, publishFailures: {}, deadLetterCount: 1 });
+
+				expect(await aggregator.replayDeadLetter(deadLetter!.id)).toBe(true);
+				expect(await aggregator.listDeadLetters()).toEqual([]);
+				const afterReplay = await aggregator.getDebugInfo();
+				expect(Object.values(afterReplay.eventBuckets).flatMap((b) => b.events.map((e) => e.pacticipant))).toEqual([
+					'ProviderA',
+					'ProviderB',
+				]);
+
+				expect(await aggregator.replayDeadLetter(deadLetter!.id)).toBe(false);
+				expect(await aggregator.discardDeadLetter(deadLetter!.id)).toBe(false);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should dead-letter a group at once when the failure is permanent', async () => {
+			try {
+				const { bucketsToDelete } = await peekTwoGroups();
+
+				expect(await aggregator.recordEventGroupPublishFailure(bucketsToDelete, 'ProviderB:2.0.0', 'channel_not_found', false)).toEqual({
+					attempts: 1,
+					deadLettered: true,
+				});
+				expect(await aggregator.listDeadLetters()).toMatchObject([{ groupKey: 'ProviderB:2.0.0', lastError: 'channel_not_found' }]);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should remember the main channels a group reached until it is acked, also across a dead-letter replay', async () => {
+			try {
+				const { bucketsToDelete } = await peekTwoGroups();
+				await aggregator.recordEventGroupChannelPublished('ProviderB:2.0.0', '#incidents', [60_000]);
+				expect(await aggregator.getEventGroupPublishedChannels('ProviderB:2.0.0')).toEqual({ '#incidents': [60_000] });
+				expect(await aggregator.getEventGroupPublishedChannels('ProviderA:1.0.0')).toEqual({});
+
+				await aggregator.recordEventGroupPublishFailure(bucketsToDelete, 'ProviderB:2.0.0', 'channel_not_found', false);
+				const [deadLetter] = await aggregator.listDeadLetters();
+				expect(deadLetter).toMatchObject({ publishedChannels: { '#incidents': [60_000] } });
+				expect(await aggregator.getEventGroupPublishedChannels('ProviderB:2.0.0')).toEqual({});
+
+				await aggregator.replayDeadLetter(deadLetter!.id);
+				expect(await aggregator.getEventGroupPublishedChannels('ProviderB:2.0.0')).toEqual({ '#incidents': [60_000] });
+
+				await aggregator.ackPublishedEventGroup([], 'ProviderB:2.0.0');
+				expect(await aggregator.getEventGroupPublishedChannels('ProviderB:2.0.0')).toEqual({});
+			} finally {
+				resetTime();
+			}
+		});
+	});
+
+	describe('provider channel outbox', () => {
+		it('should lease claimed entries and record failed attempts until they are acked', async () => {
+			try {
+				mockTime(() => 1_000_000);
+				const publication = makeContractPublicationPayload({ consumerVersionNumber: '1' });
+				const verification = makeProviderVerificationPayload({ consumerVersionNumber: '1' });
+				await aggregator.addEvent(makeContractPublicationEventData(), [{ kind: 'pact_event', payload: publication }]);
+				await aggregator.addEvent(makeProviderVerificationEventData(), [{ kind: 'pact_event', payload: verification }]);
+
+				const claimed = await aggregator.claimProviderChannelOutbox(10, 60_000);
+				expect(claimed.map((e) => e.kind === 'pact_event' && e.payload.eventType)).toEqual([publication.eventType, verification.eventType]);
+				// Leased entries are not handed out twice
+				expect(await aggregator.claimProviderChannelOutbox(10, 60_000)).toEqual([]);
+
+				const [first, second] = claimed.map((e) => e.id);
+				await aggregator.ackProviderChannelOutboxEntry(first!);
+				await aggregator.releaseProviderChannelOutboxEntry(second!, 30_000, 'Slack verification reply failed: not_in_channel');
+
+				const debugData = await aggregator.getDebugInfo();
+				expect(debugData.providerChannelOutbox).toHaveLength(1);
+				expect(debugData.providerChannelOutbox[0]).toMatchObject({
+					id: second,
+					attempts: 1,
+					lastAttemptAt: 1_000_000,
+					lastError: 'Slack verification reply failed: not_in_channel',
+				});
+
+				mockTime(() => 1_000_000 + 29_999);
+				expect(await aggregator.claimProviderChannelOutbox(10, 60_000)).toEqual([]);
+				mockTime(() => 1_000_000 + 30_000);
+				expect((await aggregator.claimProviderChannelOutbox(10, 60_000)).map((e) => e.id)).toEqual([second]);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should dead-letter entries failing permanently or PUBLISH_MAX_ATTEMPTS times, and replay them', async () => {
+			try {
+				mockTime(() => 1_000_000);
+				const payload = makeContractPublicationPayload({});
+				await aggregator.addEvent(makeContractPublicationEventData({ consumerVersionNumber: '1' }), [{ kind: 'pact_event', payload }]);
+				await aggregator.addEvent(makeContractPublicationEventData({ consumerVersionNumber: '2' }), [{ kind: 'pact_event', payload }]);
+				const [permanent, transient] = (await aggregator.claimProviderChannelOutbox(10, 60_000)).map((e) => e.id);
+
+				await withDurableObjectEnvOverride(aggregator, { PUBLISH_MAX_ATTEMPTS: 2 }, async () => {
+					expect(await aggregator.recordProviderChannelOutboxFailure(permanent!, 30_000, 'channel_not_found', false)).toEqual({
+						attempts: 1,
+						deadLettered: true,
+					});
+					expect(await aggregator.recordProviderChannelOutboxFailure(transient!, 30_000, 'ratelimited', true)).toEqual({
+						attempts: 1,
+						deadLettered: false,
+					});
+					expect(await aggregator.recordProviderChannelOutboxFailure(transient!, 30_000, 'ratelimited', true)).toEqual({
+						attempts: 2,
+						deadLettered: true,
+					});
+				});
+
+				const deadLetters = await aggregator.listDeadLetters();
+				expect(deadLetters).toMatchObject([
+					{ outboxEntry: { id: permanent, kind: 'pact_event' }, attempts: 1, lastError: 'channel_not_found' },
+					{ outboxEntry: { id: transient, kind: 'pact_event' }, attempts: 2, lastError: 'ratelimited' },
+				]);
+				expect(await aggregator.getDebugInfo()).toMatchObject({ providerChannelOutbox: [], deadLetterCount: 2 });
+
+				expect(await aggregator.replayDeadLetter(deadLetters[0]!.id)).toBe(true);
+				const [replayed] = (await aggregator.getDebugInfo()).providerChannelOutbox;
+				expect(replayed).toMatchObject({ id: '3', kind: 'pact_event', attempts: 0, availableAt: 1_000_000 });
+				expect(replayed?.lastError).toBeUndefined();
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should not queue provider channel posts for duplicate deliveries', async () => {
+			const eventData = makeProviderVerificationEventData();
+			const payload = makeProviderVerificationPayload();
+
+			expect(await aggregator.addEvent(eventData, [{ kind: 'pact_event', payload }])).toBe(true);
+			expect(await aggregator.addEvent(eventData, [{ kind: 'pact_event', payload }])).toBe(false);
+
+			expect((await aggregator.getDebugInfo()).providerChannelOutbox).toHaveLength(1);
+		});
+	});
+
+	describe('verification SLA', () => {
+		const slaEnv = { VERIFICATION_SLA_MINUTES: 60, VERIFICATION_SLA_ESCALATION_MINUTES: 120 };
+		const publication = makeContractPublicationPayload({ consumerVersionNumber: 'sla-1' });
+
+		async function queuedKinds() {
+			return (await aggregator.getDebugInfo()).providerChannelOutbox.map((e) => (e.kind === 'thread_notice' ? e.notice : e.kind));
+		}
+
+		it('should alert once after the SLA and escalate once after the escalation time', async () => {
+			try {
+				mockTime(() => 0);
+				await aggregator.upsertPublicationThreadInfo(publication, '#pact-TestProvider', 'TS1', 'C1');
+
+				await withDurableObjectEnvOverride(aggregator, slaEnv, async () => {
+					mockTime(() => 59 * 60_000);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(0);
+
+					mockTime(() => 60 * 60_000);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(1);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(0);
+					expect(await aggregator.getPublicationThreadInfo(publication, '#pact-TestProvider')).toMatchObject({
+						awaitingVerificationSince: 0,
+						verificationSlaAlertedAt: 60 * 60_000,
+					});
+
+					mockTime(() => 120 * 60_000);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(1);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(0);
+				});
+
+				expect(await queuedKinds()).toEqual([AWAITING_VERIFICATION_NOTICE, 'verification_escalation']);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should stop waiting once a verification arrives and queue a root summary refresh for an alerted thread', async () => {
+			try {
+				mockTime(() => 0);
+				await aggregator.upsertPublicationThreadInfo(publication, '#pact-TestProvider', 'TS1', 'C1');
+				const verification = makeProviderVerificationPayload({ consumerVersionNumber: 'sla-1' });
+
+				await withDurableObjectEnvOverride(aggregator, slaEnv, async () => {
+					mockTime(() => 60 * 60_000);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(1);
+
+					await aggregator.recordPublicationThreadVerification(verification, '#pact-TestProvider');
+					mockTime(() => 180 * 60_000);
+					expect(await aggregator.queueVerificationSlaAlerts()).toBe(0);
+				});
+
+				const info = await aggregator.getPublicationThreadInfo(publication, '#pact-TestProvider');
+				expect(info?.awaitingVerificationSince).toBeUndefined();
+				expect(info?.verificationSlaAlertedAt).toBeUndefined();
+				expect(await queuedKinds()).toEqual([AWAITING_VERIFICATION_NOTICE, 'summary_refresh']);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should not track threads created by verifications', async () => {
+			await aggregator.upsertPublicationThreadInfo(makeProviderVerificationPayload(), '#pact-TestProvider', 'TS1', 'C1');
+
+			expect(Object.values((await aggregator.getDebugInfo()).publicationThreads)[0]?.awaitingVerificationSince).toBeUndefined();
+		});
+	});
+
+	describe('verification streaks', () => {
+		const failure = (providerVersionBranch: string) =>
+			makeProviderVerificationEventData({ githubVerificationStatus: 'failure', providerVersionBranch });
+		const success = (providerVersionBranch: string) =>
+			makeProviderVerificationEventData({ githubVerificationStatus: 'success', providerVersionBranch });
+
+		async function queuedStreaks() {
+			return (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) =>
+				e.kind === 'verification_streak' ? [[e.target, e.streak.kind, e.streak.consecutiveFailures]] : [],
+			);
+		}
+
+		it('should report consecutive failures from the second one and the recovery, also in the main channel for master branches', async () => {
+			try {
+				mockTime(() => 0);
+				await aggregator.addEvent(failure('master'));
+				expect(await queuedStreaks()).toEqual([]);
+
+				mockTime(() => 60 * 60_000);
+				await aggregator.addEvent(failure('master'));
+				mockTime(() => 3 * 60 * 60_000);
+				await aggregator.addEvent(success('master'));
+				await aggregator.addEvent(success('master'));
+
+				expect(await queuedStreaks()).toEqual([
+					['thread', 'broken', 2],
+					['main_channel', 'broken', 2],
+					['thread', 'recovered', 2],
+					['main_channel', 'recovered', 2],
+				]);
+				const [broken, , recovered] = (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) =>
+					e.kind === 'verification_streak' ? [e.streak] : [],
+				);
+				expect(broken).toEqual({ kind: 'broken', failingSince: 0, consecutiveFailures: 2, changedAt: 60 * 60_000 });
+				expect(recovered).toEqual({ kind: 'recovered', failingSince: 0, consecutiveFailures: 2, changedAt: 3 * 60 * 60_000 });
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should keep a streak per provider branch and report other branches in the thread only', async () => {
+			await aggregator.addEvent(failure('feature'));
+			await aggregator.addEvent(failure('master'));
+			await aggregator.addEvent(failure('feature'));
+
+			expect(await queuedStreaks()).toEqual([['thread', 'broken', 2]]);
+		});
+	});
+
+	describe('owner mentions', () => {
+		const owners = { PACTICIPANT_OWNERS: { TestProvider: 'S0123ABC', TestConsumer: ['U0456DEF'] }, OWNER_MENTION_COOLDOWN_MINUTES: 60 };
+		const failure = (consumerName = 'TestConsumer') =>
+			makeProviderVerificationPayload({ githubVerificationStatus: 'failure', consumerName });
+
+		// Posting the message succeeds
+		async function mention(verifications: ProviderVerificationPayload[], channel: string) {
+			const mentioned = await aggregator.getOwnerMentions(verifications, channel);
+			await aggregator.recordOwnerMentions(verifications, channel, mentioned);
+			return mentioned;
+		}
+
+		it('should mention the owners of a failed verification once per cooldown, provider, consumer and channel', async () => {
+			try {
+				await withDurableObjectEnvOverride(aggregator, owners, async () => {
+					mockTime(() => 0);
+					expect(await mention([failure()], '#pact-TestProvider')).toEqual(['S0123ABC', 'U0456DEF']);
+
+					mockTime(() => 30 * 60_000);
+					expect(await mention([failure()], '#pact-TestProvider')).toEqual([]);
+					expect(await mention([failure()], '#ci')).toEqual(['S0123ABC', 'U0456DEF']);
+					expect(await mention([failure('OtherConsumer')], '#pact-TestProvider')).toEqual(['S0123ABC']);
+
+					mockTime(() => 61 * 60_000);
+					expect(await mention([failure()], '#pact-TestProvider')).toEqual(['S0123ABC', 'U0456DEF']);
+				});
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should mention the owners again when the message mentioning them was not posted', async () => {
+			await withDurableObjectEnvOverride(aggregator, owners, async () => {
+				expect(await aggregator.getOwnerMentions([failure()], '#ci')).toEqual(['S0123ABC', 'U0456DEF']);
+				expect(await aggregator.getOwnerMentions([failure()], '#ci')).toEqual(['S0123ABC', 'U0456DEF']);
+
+				await aggregator.recordOwnerMentions([failure()], '#ci', ['U0456DEF']);
+				expect(await aggregator.getOwnerMentions([failure()], '#ci')).toEqual(['S0123ABC']);
+			});
+		});
+
+		it('should not mention anyone for successful verifications', async () => {
+			await withDurableObjectEnvOverride(aggregator, owners, async () => {
+				expect(await mention([makeProviderVerificationPayload({ githubVerificationStatus: 'success' })], '#ci')).toEqual([]);
+				expect(await mention([failure()], '#ci')).toEqual(['S0123ABC', 'U0456DEF']);
+			});
+		});
+	});
+
+	describe('commit author messages', () => {
+		const verification = (consumerVersionNumber: string, githubVerificationStatus = 'failure') =>
+			makeProviderVerificationEventData({ githubVerificationStatus, consumerVersionNumber });
+
+		async function queuedMessages() {
+			return (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) =>
+				e.kind === 'commit_author_dm' ? [e.verification.consumerVersionNumber] : [],
+			);
+		}
+
+		it('should queue a message for the first failed verification of a consumer version only', async () => {
+			await withDurableObjectEnvOverride(aggregator, { COMMIT_AUTHOR_DM_ENABLED: true }, async () => {
+				await aggregator.addEvent(verification('v1', 'success'));
+				await aggregator.addEvent(verification('v1'));
+				await aggregator.addEvent(verification('v1'));
+				await aggregator.addEvent(verification('v2'));
+			});
+
+			expect(await queuedMessages()).toEqual(['v1', 'v2']);
+		});
+
+		it('should queue nothing when disabled', async () => {
+			await withDurableObjectEnvOverride(aggregator, { COMMIT_AUTHOR_DM_ENABLED: false }, async () => {
+				await aggregator.addEvent(verification('v1'));
+			});
+
+			expect(await queuedMessages()).toEqual([]);
+		});
+	});
+
+	describe('branch filters', () => {
+		const BRANCH_FILTERS = {
+			'*': [
+				{ exclude: ['dependabot/*', 'renovate/*'], action: 'drop' },
+				{ exclude: 'tmp/*', action: 'store_only' },
+			],
+			TestProvider: { include: ['develop', 'master'], action: 'skip_main_channel' },
+		};
+		const publication = (consumerVersionBranch: string) => makeContractPublicationEventData({ consumerVersionBranch });
+		const pactEventItem = (consumerVersionBranch: string) => ({
+			kind: 'pact_event' as const,
+			payload: makeContractPublicationPayload({ consumerVersionBranch }),
+			channel: '#pact-TestProvider',
+		});
+
+		async function activityCount() {
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			const countRows = (_: PactAggregator, state: DurableObjectState) =>
+				state.storage.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM pact_activity').one().count;
+			return runInDurableObject(aggregator, countRows);
+		}
+
+		it('should drop events on excluded branches entirely', async () => {
+			await withDurableObjectEnvOverride(aggregator, { BRANCH_FILTERS }, async () => {
+				expect(await aggregator.addEvent(publication('dependabot/npm/lodash'), [pactEventItem('dependabot/npm/lodash')])).toBe(true);
+			});
+
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(0);
+			expect(debugData.providerChannelOutbox).toEqual([]);
+			expect(await activityCount()).toBe(0);
+			expect(debugData.mutedEvents).toEqual({ drop: 1, store_only: 0, skip_main_channel: 0 });
+		});
+
+		it('should record store-only events in the activity log without posting them', async () => {
+			await withDurableObjectEnvOverride(aggregator, { BRANCH_FILTERS }, async () => {
+				await aggregator.addEvent(publication('tmp/spike'), [pactEventItem('tmp/spike')]);
+			});
+
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(0);
+			expect(debugData.providerChannelOutbox).toEqual([]);
+			expect(await activityCount()).toBe(1);
+			expect(debugData.mutedEvents.store_only).toBe(1);
+		});
+
+		it('should keep events of branches outside a pacticipant include list out of the main channel only', async () => {
+			await withDurableObjectEnvOverride(aggregator, { BRANCH_FILTERS }, async () => {
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'feature/login' }), [
+					{ kind: 'pact_event', payload: makeProviderVerificationPayload({ providerVersionBranch: 'feature/login' }) },
+				]);
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'develop' }));
+			});
+
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.totalEvents).toBe(1);
+			expect(debugData.providerChannelOutbox.map((e) => e.kind)).toEqual(['pact_event']);
+			expect(debugData.mutedEvents.skip_main_channel).toBe(1);
+		});
+
+		it('should keep muted activity out of the digests it is not posted to', async () => {
+			try {
+				mockTime(() => 10 * DAY_MS);
+				await withDurableObjectEnvOverride(aggregator, { BRANCH_FILTERS }, async () => {
+					await aggregator.addEvent(publication('tmp/spike'));
+					await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'feature/login' }));
+					await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'master' }));
+
+					mockTime(() => 11 * DAY_MS);
+					expect(await aggregator.queueDigests('weekly')).toBe(2);
+				});
+				const digests = (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) => (e.kind === 'digest' ? [e] : []));
+				expect(digests.map((d) => [d.channel, d.report.verificationsSucceeded, d.report.publishedPacts, d.report.unverifiedPacts])).toEqual(
+					[
+						[env.SLACK_CHANNEL, 1, [], []],
+						['#pact-TestProvider', 2, [], []],
+					],
+				);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should report invalid filters', async () => {
+			await withDurableObjectEnvOverride(aggregator, { BRANCH_FILTERS: { '*': { exclude: 'tmp/*', action: 'mute' } } }, async () => {
+				expect((await aggregator.getDebugInfo()).branchFilterErrors).toEqual([
+					'BRANCH_FILTERS.*.action: expected one of drop, store_only, skip_main_channel',
+				]);
+			});
+		});
+	});
+
+	describe('flaky verifications', () => {
+		const verification = (githubVerificationStatus: string) => makeProviderVerificationEventData({ githubVerificationStatus });
+
+		it('should mark the thread flaky once and list the flaky pact version', async () => {
+			await aggregator.upsertPublicationThreadInfo(makeContractPublicationPayload({}), '#pact-TestProvider', 'TS1', 'C1');
+
+			await aggregator.addEvent(verification('success'));
+			await aggregator.addEvent(verification('failure'));
+			expect(
+				(await aggregator.getPublicationThreadInfo(makeContractPublicationPayload({}), '#pact-TestProvider'))?.flakySince,
+			).toBeUndefined();
+
+			await aggregator.addEvent(verification('success'));
+			await aggregator.addEvent(verification('failure'));
+
+			expect(
+				(await aggregator.getPublicationThreadInfo(makeContractPublicationPayload({}), '#pact-TestProvider'))?.flakySince,
+			).toBeDefined();
+			const badgeRefreshes = (await aggregator.getDebugInfo()).providerChannelOutbox.filter(
+				(e) => e.kind === 'summary_refresh' && e.thread.info.flakySince !== undefined,
+			);
+			expect(badgeRefreshes).toHaveLength(1);
+			expect(await aggregator.listFlakyVerifications()).toMatchObject([
+				{
+					providerName: 'TestProvider',
+					consumerName: 'TestConsumer',
+					providerVersionBranch: 'develop',
+					pactVersion: 'PACT-VERSION',
+					flips: 3,
+				},
+			]);
+		});
+
+		it('should not detect flaky verifications with the window disabled', async () => {
+			await withDurableObjectEnvOverride(aggregator, { FLAKY_VERIFICATION_WINDOW_MINUTES: 0 }, async () => {
+				for (const status of ['success', 'failure', 'success']) {
+					await aggregator.addEvent(verification(status));
+				}
+				expect(await aggregator.listFlakyVerifications()).toEqual([]);
+			});
+		});
+	});
+
+	describe('verification latency', () => {
+		const HOUR_MS = 60 * 60 * 1000;
+		const publication = makeContractPublicationPayload({});
+
+		it('should record the time to the first verification and to the first master branch verification once', async () => {
+			try {
+				mockTime(() => 0);
+				await aggregator.upsertPublicationThreadInfo(publication, '#pact-TestProvider', 'TS1', 'C1');
+
+				mockTime(() => 2 * HOUR_MS);
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'feature' }));
+				mockTime(() => 5 * HOUR_MS);
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'master' }));
+				mockTime(() => 7 * HOUR_MS);
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerVersionBranch: 'master' }));
+
+				expect(await aggregator.getPublicationThreadInfo(publication, '#pact-TestProvider')).toMatchObject({
+					firstVerificationLatencyMs: 2 * HOUR_MS,
+					firstMasterVerificationLatencyMs: 5 * HOUR_MS,
+				});
+				// Master branch verifications refresh the root summary when they are delivered
+				const refreshes = (await aggregator.getDebugInfo()).providerChannelOutbox.filter((e) => e.kind === 'summary_refresh');
+				expect(refreshes).toHaveLength(1);
+				expect(await aggregator.getVerificationLatencies()).toEqual([
+					{
+						providerName: 'TestProvider',
+						firstVerification: { count: 1, p50Ms: 2 * HOUR_MS, p90Ms: 2 * HOUR_MS, p95Ms: 2 * HOUR_MS, maxMs: 2 * HOUR_MS },
+						firstMasterVerification: { count: 1, p50Ms: 5 * HOUR_MS, p90Ms: 5 * HOUR_MS, p95Ms: 5 * HOUR_MS, maxMs: 5 * HOUR_MS },
+					},
+				]);
+				expect(await aggregator.getVerificationLatencies('OtherProvider')).toEqual([]);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should not measure threads opened by a verification', async () => {
+			await aggregator.upsertPublicationThreadInfo(makeProviderVerificationPayload(), '#pact-TestProvider', 'TS1', 'C1');
+			await aggregator.addEvent(makeProviderVerificationEventData());
+
+			expect(await aggregator.getVerificationLatencies()).toEqual([]);
+		});
+	});
+
+	describe('digests', () => {
+		it('should queue a digest for the main channel and every provider with activity, until the activity expires', async () => {
+			try {
+				mockTime(() => 10 * DAY_MS);
+				await aggregator.addEvent(makeContractPublicationEventData({ providerName: 'ProviderA' }));
+				await aggregator.addEvent(makeProviderVerificationEventData({ providerName: 'ProviderA' }));
+				await aggregator.addEvent(makeContractPublicationEventData({ providerName: 'ProviderB', consumerVersionNumber: '2.0.0' }));
+
+				mockTime(() => 11 * DAY_MS);
+				expect(await aggregator.queueDigests('weekly')).toBe(3);
+				const digests = (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) => (e.kind === 'digest' ? [e] : []));
+				expect(digests.map((d) => [d.channel, d.report.providerName])).toEqual([
+					[env.SLACK_CHANNEL, undefined],
+					['#pact-ProviderA', 'ProviderA'],
+					['#pact-ProviderB', 'ProviderB'],
+				]);
+				expect(digests[0]!.report).toMatchObject({ period: 'weekly', from: 4 * DAY_MS, to: 11 * DAY_MS, verificationsSucceeded: 1 });
+				expect(digests[2]!.report.unverifiedPacts).toHaveLength(1);
+
+				// Nothing new the next day, but ProviderB's pact is still unverified
+				mockTime(() => 12 * DAY_MS);
+				expect(await aggregator.queueDigests('daily')).toBe(2);
+
+				mockTime(() => 41 * DAY_MS);
+				expect(await aggregator.prunePactActivity()).toBe(3);
+				expect(await aggregator.queueDigests('weekly')).toBe(0);
+			} finally {
+				resetTime();
+			}
+		});
+
+		it('should queue the digests for the channels CHANNEL_ROUTES routes the activity to', async () => {
+			const routesEnv = {
+				CHANNEL_ROUTES: [
+					{ scope: 'main', provider: 'ProviderB', channels: ['#team-b'] },
+					{ scope: 'provider', provider: 'ProviderA', channels: ['#pact-ProviderA', '#pact-ProviderA-{consumer}'] },
+				],
+			};
+			try {
+				mockTime(() => 10 * DAY_MS);
+				await aggregator.addEvent(makeContractPublicationEventData({ providerName: 'ProviderA' }));
+				await aggregator.addEvent(makeContractPublicationEventData({ providerName: 'ProviderB', consumerVersionNumber: '2.0.0' }));
+
+				mockTime(() => 11 * DAY_MS);
+				await withDurableObjectEnvOverride(aggregator, routesEnv, async () => {
+					expect(await aggregator.queueDigests('weekly')).toBe(5);
+				});
+				const digests = (await aggregator.getDebugInfo()).providerChannelOutbox.flatMap((e) => (e.kind === 'digest' ? [e] : []));
+				expect(digests.map((d) => [d.channel, d.report.providerName, d.report.publishedPacts.length])).toEqual([
+					[env.SLACK_CHANNEL, undefined, 1],
+					['#team-b', undefined, 1],
+					['#pact-ProviderA', 'ProviderA', 1],
+					['#pact-ProviderA-TestConsumer', 'ProviderA', 1],
+					['#pact-ProviderB', 'ProviderB', 1],
+				]);
+			} finally {
+				resetTime();
+			}
+		});
+	});
+
+	describe('legacy storage migration', () => {
+		it('should move events, publication threads and stats from the legacy keys into the SQLite tables once', async () => {
+			const event: StoredPactEventData = { ...makeContractPublicationEventData(), ts: 300_000 };
+			const payload = makeContractPublicationPayload({ providerName: 'P', consumerName: 'C' });
+			const threadKey = 'P|C|PACT-VERSION|#pact-P';
+			const thread: PublicationThreadInfo = { ts: '1.1', channelId: 'C1', payload, createdTs: '1000', updatedTs: '2000', replyCount: 3 };
+			const legacyData = {
+				events: { 'events:5': [event] },
+				publicationThreads: { [threadKey]: thread },
+				totalProcessed: 7,
+				lastEventTime: 300_000,
+			};
+
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			const remainingKeys = await runInDurableObject(aggregator, async (_, state) => {
+				await state.storage.put(legacyData);
+				await initializeAggregatorStorage(state.storage, now());
+				// A legacy key left behind by an interrupted migration must not be imported twice
+				await state.storage.put('events', legacyData.events);
+				await initializeAggregatorStorage(state.storage, now());
+				return [...(await state.storage.list()).keys()];
+			});
+
+			expect(remainingKeys).toEqual([]);
+			const debugData = await aggregator.getDebugInfo();
+			expect(debugData.eventBuckets).toEqual({ 'events:5': { count: 1, events: [event] } });
+			expect(debugData.publicationThreads).toEqual({ [threadKey]: thread });
+			expect(debugData.totalProcessedEvents).toBe(7);
+			expect(Date.parse(debugData.lastEventTime)).toBe(300_000);
+			expect(await aggregator.getPublicationThreadInfo(payload, '#pact-P')).toEqual(thread);
+		});
+
+		it('should move the outbox, fingerprints, publish failures and dead letters from their legacy keys into the SQLite tables', async () => {
+			const outboxEntry = {
+				kind: 'pact_event' as const,
+				payload: makeContractPublicationPayload({}),
+				id: '7',
+				seq: 7,
+				enqueuedAt: 1000,
+				availableAt: 1000,
+				attempts: 1,
+			};
+			const deadLetter: EventGroupDeadLetterEntry = {
+				id: 'dead-1',
+				groupKey: 'TestConsumer:1.0.0',
+				events: [],
+				attempts: 5,
+				lastError: 'channel_not_found',
+				deadLetteredAt: 2000,
+			};
+			const legacyData = {
+				providerChannelOutbox: { '7': outboxEntry },
+				providerChannelOutboxSeq: 9,
+				eventFingerprints: { [getEventFingerprint(makeContractPublicationEventData())]: now() },
+				publishFailures: { 'TestProvider:2.0.0': 2 },
+				publishedGroupChannels: { 'TestProvider:2.0.0': { '#main': [1000, 2000] } },
+				deadLetters: { [deadLetter.id]: deadLetter },
+			};
+
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			const remainingKeys = await runInDurableObject(aggregator, async (_, state) => {
+				await state.storage.put(legacyData);
+				await initializeAggregatorStorage(state.storage, now());
+				return [...(await state.storage.list()).keys()];
+			});
+
+			expect(remainingKeys).toEqual([]);
+			expect(await aggregator.getDebugInfo()).toMatchObject({
+				providerChannelOutbox: [outboxEntry],
+				publishFailures: { 'TestProvider:2.0.0': 2 },
+				deadLetterCount: 1,
+			});
+			expect(await aggregator.getEventGroupPublishedChannels('TestProvider:2.0.0')).toEqual({ '#main': [1000, 2000] });
+			expect(await aggregator.listDeadLetters()).toEqual([deadLetter]);
+			// The fingerprint still suppresses the delivery, and new outbox entries continue the sequence
+			expect(await aggregator.addEvent(makeContractPublicationEventData())).toBe(false);
+			await aggregator.addEvent(makeProviderVerificationEventData(), [
+				{ kind: 'pact_event', payload: makeProviderVerificationPayload({}) },
+			]);
+			expect((await aggregator.getDebugInfo()).providerChannelOutbox.map((e) => e.id).slice(0, 2)).toEqual(['7', '10']);
+		});
+	});
 });
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	compareInteractions,
+	fetchCanIDeploy,
+	fetchPactDiffWithPreviousDistinct,
+	fetchPactEnrichment,
+	isPactBrokerConfigured,
+	PactBrokerError,
+} from '../src/pact-broker-client';
+import type { PactDocument } from '../src/pact-broker-client';
+
+const BASE_URL = 'https://broker.example.com';
+const PACT_URL = `${BASE_URL}/pacts/provider/P/consumer/C/pact-version/current`;
+const PREVIOUS_URL = `${BASE_URL}/pacts/provider/P/consumer/C/pact-version/previous`;
+
+const currentPact: PactDocument = {
+	interactions: [{ description: 'get user' }, { description: 'create user' }, { description: 'delete user' }],
+	_links: {
+		'pb:previous-distinct': { href: PREVIOUS_URL },
+		'pb:diff-previous-distinct': { href: `${PACT_URL}/diff/previous-distinct` },
+	},
+};
+const previousPact: PactDocument = {
+	interactions: [{ description: 'get user' }, { description: 'update user' }],
+	_links: { 'pb:latest-verification-results': { href: `${PREVIOUS_URL}/verification-results/latest` } },
+};
+
+function stubBroker(responses: Record<string, unknown>) {
+	const fetchMock = vi.fn().mockImplementation((url: string) => {
+		if (!(url in responses)) {
+			return Promise.resolve(new Response('Not found', { status: 404 }));
+		}
+		const body = responses[url];
+		return Promise.resolve(new Response(typeof body === 'string' ? body : JSON.stringify(body), { status: 200 }));
+	});
+	vi.stubGlobal('fetch', fetchMock);
+	return fetchMock;
+}
+
+describe('pact-broker-client', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe('fetchPactEnrichment', () => {
+		it('counts interactions and compares them with the previous distinct version', async () => {
+			const fetchMock = stubBroker({
+				[PACT_URL]: currentPact,
+				[PREVIOUS_URL]: previousPact,
+				[`${PREVIOUS_URL}/verification-results/latest`]: { success: true },
+				[`${PACT_URL}/diff/previous-distinct`]: '+ create user\n- update user\n',
+			});
+
+			const enrichment = await fetchPactEnrichment(
+				{ PACT_BROKER_BASE_URL: `${BASE_URL}/`, PACT_BROKER_TOKEN: 'secret' },
+				`${PACT_URL}/metadata/Y3ZuPTE`,
+			);
+
+			expect(enrichment).toEqual({
+				interactionCount: 3,
+				interactionsAdded: 2,
+				interactionsRemoved: 1,
+				previousVerificationSuccess: true,
+				diff: '+ create user\n- update user',
+			});
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe(PACT_URL);
+			expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+		});
+
+		it('returns only the interaction count for the first version of a pact', async () => {
+			stubBroker({ [PACT_URL]: { interactions: [{ description: 'get user' }] } });
+
+			const enrichment = await fetchPactEnrichment({ PACT_BROKER_BASE_URL: BASE_URL }, PACT_URL);
+
+			expect(enrichment).toEqual({ interactionCount: 1 });
+		});
+
+		it('uses basic auth when no token is configured', async () => {
+			const fetchMock = stubBroker({ [PACT_URL]: { interactions: [] } });
+
+			await fetchPactEnrichment({ PACT_BROKER_BASE_URL: BASE_URL, PACT_BROKER_USERNAME: 'user', PACT_BROKER_PASSWORD: 'pass' }, PACT_URL);
+
+			const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+			expect(init.headers).toMatchObject({ Authorization: `Basic ${btoa('user:pass')}` });
+		});
+
+		it('throws a PactBrokerError with the status when the broker fails', async () => {
+			vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('Bad gateway', { status: 502 })));
+
+			const error: unknown = await fetchPactEnrichment({ PACT_BROKER_BASE_URL: BASE_URL }, PACT_URL).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(PactBrokerError);
+			expect((error as PactBrokerError).status).toBe(502);
+		});
+
+		it('never sends credentials outside the configured base URL', async () => {
+			const fetchMock = stubBroker({});
+
+			await expect(fetchPactEnrichment({ PACT_BROKER_BASE_URL: BASE_URL }, 'https://elsewhere.example.com/pact-version/x')).rejects.toThrow(
+				PactBrokerError,
+			);
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('fetchPactDiffWithPreviousDistinct', () => {
+		it('returns the diff rendered by the broker', async () => {
+			stubBroker({ [`${PACT_URL}/diff/previous-distinct`]: '+ create user\n- update user' });
+
+			const diff = await fetchPactDiffWithPreviousDistinct({ PACT_BROKER_BASE_URL: BASE_URL }, currentPact);
+
+			expect(diff).toBe('+ create user\n- update user');
+		});
+
+		it('returns undefined when the broker has no diff', async () => {
+			stubBroker({});
+
+			expect(await fetchPactDiffWithPreviousDistinct({ PACT_BROKER_BASE_URL: BASE_URL }, currentPact)).toBeUndefined();
+		});
+
+		it('is cut to a maximum length in the enrichment', async () => {
+			stubBroker({ [PACT_URL]: currentPact, [PREVIOUS_URL]: previousPact, [`${PACT_URL}/diff/previous-distinct`]: 'x'.repeat(2000) });
+
+			const { diff } = await fetchPactEnrichment({ PACT_BROKER_BASE_URL: BASE_URL }, PACT_URL);
+
+			expect(diff).toBe(`${'x'.repeat(1500)}\n…`);
+		});
+	});
+
+	describe('fetchCanIDeploy', () => {
+		it('queries the matrix for the version and environment and returns its summary', async () => {
+			const fetchMock = vi
+				.fn()
+				.mockResolvedValue(new Response(JSON.stringify({ summary: { deployable: false, reason: 'Missing verification' } })));
+			vi.stubGlobal('fetch', fetchMock);
+
+			const result = await fetchCanIDeploy({ PACT_BROKER_BASE_URL: BASE_URL }, 'C', '1.2.3', 'production');
+
+			expect(result).toEqual({ environment: 'production', deployable: false, reason: 'Missing verification' });
+			const url = new URL((fetchMock.mock.calls[0] as [string])[0]);
+			expect(url.pathname).toBe('/matrix');
+			expect([...url.searchParams]).toEqual([
+				['q[][pacticipant]', 'C'],
+				['q[][version]', '1.2.3'],
+				['latestby', 'cvp'],
+				['environment', 'production'],
+			]);
+		});
+	});
+
+	describe('compareInteractions', () => {
+		it('treats interactions with different provider states as different', () => {
+			const current: PactDocument = { interactions: [{ description: 'get user', providerStates: [{ name: 'user exists' }] }] };
+			const previous: PactDocument = { interactions: [{ description: 'get user', providerState: 'no users' }] };
+
+			expect(compareInteractions(current, previous)).toEqual({ added: 1, removed: 1 });
+		});
+	});
+
+	describe('isPactBrokerConfigured', () => {
+		it('is false when the base URL is empty', () => {
+			expect(isPactBrokerConfigured({ PACT_BROKER_BASE_URL: ' ' })).toBe(false);
+			expect(isPactBrokerConfigured({ PACT_BROKER_BASE_URL: BASE_URL })).toBe(true);
+		});
+	});
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { getEventDataFromPayload, getProviderSlackChannel } from '../src/payload-utils';
-import { PROVIDER_VERIFICATION_PUBLISHED, CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from '../src/constants';
+import { getEventDataFromPayload, getEventFingerprint, getProviderSlackChannel } from '../src/payload-utils';
+import { makeContractPublicationPayload, makeProviderVerificationPayload } from './test-utilities';
+import {
+	PROVIDER_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_FAILED,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	CONTRACT_PUBLISHED,
+} from '../src/constants';
 import type { ProviderVerificationPublishedPayload, ContractRequiringVerificationPublishedPayload, PactEventData } from '../src/types';
 
 describe('payload-utils', () => {
@@ -62,6 +68,37 @@ describe('payload-utils', () => {
 		});
 	});
 
+	describe('getEventFingerprint', () => {
+		it('uses the verification result URL for every verification event type', () => {
+			const payload = makeProviderVerificationPayload({ verificationResultUrl: 'https://pact/pact-version/abc/verification-results/7' });
+			const failed = { ...payload, eventType: PROVIDER_VERIFICATION_FAILED } as const;
+
+			expect(getEventFingerprint(payload)).toBe('verification|https://pact/pact-version/abc/verification-results/7');
+			expect(getEventFingerprint(failed)).toBe(getEventFingerprint(payload));
+		});
+
+		it('uses the pact URL, consumer version and provider version for publications requiring verification', () => {
+			const payload = makeContractPublicationPayload({
+				pactUrl: 'https://pact/pact-version/abc',
+				consumerVersionNumber: '1.2.3',
+				providerVersionNumber: 'p1',
+			});
+			const otherProviderVersion = makeContractPublicationPayload({ ...payload, providerVersionNumber: 'p2' });
+
+			expect(getEventFingerprint(payload)).toBe(`${CONTRACT_REQUIRING_VERIFICATION_PUBLISHED}|https://pact/pact-version/abc|1.2.3|p1`);
+			expect(getEventFingerprint(otherProviderVersion)).not.toBe(getEventFingerprint(payload));
+		});
+
+		it('uses the pact URL and consumer version for other publications', () => {
+			const payload = {
+				...makeContractPublicationPayload({ pactUrl: 'https://pact/pact-version/abc' }),
+				eventType: CONTRACT_PUBLISHED,
+			} as const;
+
+			expect(getEventFingerprint(payload)).toBe(`${CONTRACT_PUBLISHED}|https://pact/pact-version/abc|1.0.0`);
+		});
+	});
+
 	describe('getProviderSlackChannel', () => {
 		const payload: ProviderVerificationPublishedPayload = {
 			eventType: PROVIDER_VERIFICATION_PUBLISHED,
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { validatePactWebhookPayload } from '../src/payload-validation';
+import { makeContractPublicationPayload, makeDeploymentPayload, makeProviderVerificationPayload } from './test-utilities';
+import {
+	CONTRACT_CONTENT_CHANGED,
+	CONTRACT_PUBLISHED,
+	PROVIDER_VERIFICATION_FAILED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PACTICIPANT_VERSION_RELEASED,
+} from '../src/constants';
+
+describe('payload-validation', () => {
+	describe('validatePactWebhookPayload', () => {
+		it('accepts a valid provider verification payload', () => {
+			const payload = makeProviderVerificationPayload();
+
+			const result = validatePactWebhookPayload(payload);
+
+			expect(result).toEqual({ ok: true, payload });
+		});
+
+		it('accepts a valid contract publication payload with empty branches', () => {
+			const payload = makeContractPublicationPayload({ consumerVersionBranch: '', providerVersionBranch: '' });
+
+			const result = validatePactWebhookPayload(payload);
+
+			expect(result.ok).toBe(true);
+		});
+
+		it('accepts the additional publication and verification event types', () => {
+			for (const eventType of [CONTRACT_PUBLISHED, CONTRACT_CONTENT_CHANGED]) {
+				expect(validatePactWebhookPayload({ ...makeContractPublicationPayload({}), eventType }).ok).toBe(true);
+			}
+			for (const eventType of [PROVIDER_VERIFICATION_SUCCEEDED, PROVIDER_VERIFICATION_FAILED]) {
+				expect(validatePactWebhookPayload({ ...makeProviderVerificationPayload(), eventType }).ok).toBe(true);
+			}
+		});
+
+		it('fills in the verification status implied by succeeded/failed events', () => {
+			const result = validatePactWebhookPayload({
+				...makeProviderVerificationPayload(),
+				eventType: PROVIDER_VERIFICATION_FAILED,
+				githubVerificationStatus: undefined,
+			});
+
+			expect(result.ok && result.payload).toMatchObject({ githubVerificationStatus: 'failure' });
+		});
+
+		it('accepts deployment and release payloads without any consumer/provider fields', () => {
+			const deployment = makeDeploymentPayload();
+			const release = makeDeploymentPayload({ eventType: PACTICIPANT_VERSION_RELEASED, environmentName: 'production' });
+
+			expect(validatePactWebhookPayload(deployment)).toEqual({ ok: true, payload: deployment });
+			expect(validatePactWebhookPayload(release)).toEqual({ ok: true, payload: release });
+		});
+
+		it('collects every field error for a deployment payload', () => {
+			const result = validatePactWebhookPayload({ ...makeDeploymentPayload(), pacticipantVersionNumber: 3, environmentName: '' });
+
+			expect(result.ok ? [] : result.errors.map((e) => [e.field, e.code])).toEqual([
+				['pacticipantVersionNumber', 'invalid_type'],
+				['environmentName', 'empty'],
+			]);
+		});
+
+		it('rejects non-object bodies', () => {
+			const result = validatePactWebhookPayload([]);
+
+			expect(result).toEqual({ ok: false, errors: [{ field: '', code: 'invalid_type', message: 'Payload must be a JSON object' }] });
+		});
+
+		it('rejects unknown and missing event types', () => {
+			const unknown = validatePactWebhookPayload({ ...makeProviderVerificationPayload(), eventType: 'contract_deleted' });
+			const missing = validatePactWebhookPayload({ ...makeProviderVerificationPayload(), eventType: undefined });
+
+			expect(unknown.ok ? [] : unknown.errors.map((e) => e.code)).toEqual(['unsupported_event_type']);
+			expect(missing.ok ? [] : missing.errors.map((e) => e.code)).toEqual(['missing']);
+		});
+
+		it('collects every field error for a verification payload', () => {
+			const result = validatePactWebhookPayload({
+				...makeProviderVerificationPayload(),
+				providerName: '',
+				consumerVersionNumber: 42,
+				githubVerificationStatus: undefined,
+				verificationResultUrl: 'not-a-url/pact-version/abc',
+			});
+
+			expect(result.ok).toBe(false);
+			expect(result.ok ? [] : result.errors.map((e) => [e.field, e.code])).toEqual([
+				['providerName', 'empty'],
+				['consumerVersionNumber', 'invalid_type'],
+				['githubVerificationStatus', 'missing'],
+				['verificationResultUrl', 'invalid_url'],
+			]);
+		});
+
+		it('rejects unrendered ${pactbroker.xxx} placeholders, including in optional fields', () => {
+			const result = validatePactWebhookPayload(
+				makeContractPublicationPayload({
+					providerVersionBranch: '${pactbroker.providerVersionBranch}',
+					providerVersionDescriptions: '${pactbroker.providerVersionDescriptions}',
+				}),
+			);
+
+			expect(result.ok ? [] : result.errors.map((e) => [e.field, e.code])).toEqual([
+				['providerVersionBranch', 'unrendered_placeholder'],
+				['providerVersionDescriptions', 'unrendered_placeholder'],
+			]);
+		});
+
+		it('rejects pact URLs without a /pact-version/ segment', () => {
+			const result = validatePactWebhookPayload(
+				makeContractPublicationPayload({ pactUrl: 'https://example.com/pacts/provider/P/consumer/C/latest' }),
+			);
+
+			expect(result.ok ? [] : result.errors.map((e) => [e.field, e.code])).toEqual([['pactUrl', 'missing_pact_version']]);
+		});
+	});
+});
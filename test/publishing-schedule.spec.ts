@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getNextPublishingTime,
+	getPublishingWindow,
+	hasChannelOverride,
+	isPublishingTime,
+	parsePublishingSchedule,
+} from '../src/publishing-schedule';
+
+// 2025-06-02 is a Monday
+const at = (day: number, hour: number, minute = 0) => Date.UTC(2025, 5, day, hour, minute);
+
+describe('publishing schedule', () => {
+	describe('parsePublishingSchedule', () => {
+		it('defaults to Monday to Friday 08:00-21:00, hourly off-hours and every 4 hours on other days', () => {
+			const { schedule, errors } = parsePublishingSchedule({});
+
+			expect(errors).toEqual([]);
+			expect(schedule).toEqual({
+				timezone: 'UTC',
+				workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+				workingHours: ['08:00-21:00'],
+				offHoursIntervalMinutes: 60,
+				weekendIntervalMinutes: 240,
+				holidays: [],
+				channels: {},
+			});
+		});
+
+		it('accepts a JSON string and uses TIMEZONE unless the schedule sets its own', () => {
+			expect(parsePublishingSchedule({ PUBLISHING_SCHEDULE: '{"workingDays":["Sun"]}', TIMEZONE: 'Europe/Athens' }).schedule).toMatchObject(
+				{
+					timezone: 'Europe/Athens',
+					workingDays: ['sun'],
+				},
+			);
+			expect(
+				parsePublishingSchedule({ PUBLISHING_SCHEDULE: { timezone: 'Asia/Tokyo' }, TIMEZONE: 'Europe/Athens' }).schedule.timezone,
+			).toBe('Asia/Tokyo');
+		});
+
+		it('reports invalid fields and keeps their defaults', () => {
+			const { schedule, errors } = parsePublishingSchedule({
+				PUBLISHING_SCHEDULE: {
+					timezone: 'Mars/Olympus',
+					workingHours: ['21:00-08:00'],
+					offHoursIntervalMinutes: 0,
+					holidays: ['2025-02-30'],
+					weekendIntervalMinutes: 120,
+					workingDay: ['mon'],
+				},
+			});
+
+			expect(errors).toEqual([
+				'PUBLISHING_SCHEDULE.workingDay: unknown field',
+				'PUBLISHING_SCHEDULE.timezone: expected an IANA timezone such as "Europe/Athens"',
+				'PUBLISHING_SCHEDULE.workingHours: expected hour ranges such as ["08:00-21:00"]',
+				'PUBLISHING_SCHEDULE.offHoursIntervalMinutes: expected whole minutes from 1 to 1440',
+				'PUBLISHING_SCHEDULE.holidays: expected dates such as ["2025-12-25"]',
+			]);
+			expect(schedule).toMatchObject({
+				timezone: 'UTC',
+				workingHours: ['08:00-21:00'],
+				offHoursIntervalMinutes: 60,
+				weekendIntervalMinutes: 120,
+				holidays: [],
+			});
+		});
+
+		it('reports a schedule that is not an object', () => {
+			expect(parsePublishingSchedule({ PUBLISHING_SCHEDULE: '{' }).errors).toEqual(['PUBLISHING_SCHEDULE: invalid JSON']);
+			expect(parsePublishingSchedule({ PUBLISHING_SCHEDULE: [] }).errors).toEqual(['PUBLISHING_SCHEDULE: expected an object']);
+		});
+
+		it('merges channel overrides over the main schedule', () => {
+			const { schedule, errors } = parsePublishingSchedule({
+				PUBLISHING_SCHEDULE: {
+					holidays: ['2025-12-25'],
+					channels: { '#team-payments': { timezone: 'America/New_York', workingHours: ['09:00-17:00'] } },
+				},
+			});
+
+			expect(errors).toEqual([]);
+			expect(hasChannelOverride(schedule, '#team-payments')).toBe(true);
+			expect(hasChannelOverride(schedule, '#ci')).toBe(false);
+			expect(getPublishingWindow(schedule, '#team-payments')).toEqual({
+				timezone: 'America/New_York',
+				workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+				workingHours: ['09:00-17:00'],
+				offHoursIntervalMinutes: 60,
+				weekendIntervalMinutes: 240,
+				holidays: ['2025-12-25'],
+			});
+			expect(getPublishingWindow(schedule, '#ci')).toBe(schedule);
+		});
+	});
+
+	describe('isPublishingTime', () => {
+		const { schedule } = parsePublishingSchedule({ PUBLISHING_SCHEDULE: { holidays: ['2025-06-04'] } });
+
+		it('publishes at any minute during working hours', () => {
+			expect(isPublishingTime(schedule, at(2, 8, 0))).toBe(true);
+			expect(isPublishingTime(schedule, at(2, 20, 59))).toBe(true);
+		});
+
+		it('publishes on the off-hours interval outside working hours', () => {
+			expect(isPublishingTime(schedule, at(2, 21, 0))).toBe(true);
+			expect(isPublishingTime(schedule, at(2, 21, 30))).toBe(false);
+			expect(isPublishingTime(schedule, at(2, 7, 59))).toBe(false);
+		});
+
+		it('uses the weekend interval on weekends and holidays', () => {
+			// Saturday
+			expect(isPublishingTime(schedule, at(7, 12, 0))).toBe(true);
+			expect(isPublishingTime(schedule, at(7, 13, 0))).toBe(false);
+			// Wednesday holiday
+			expect(isPublishingTime(schedule, at(4, 10, 0))).toBe(false);
+			expect(isPublishingTime(schedule, at(4, 16, 0))).toBe(true);
+		});
+
+		it('evaluates working hours in the schedule timezone', () => {
+			const { schedule: athens } = parsePublishingSchedule({ TIMEZONE: 'Europe/Athens' });
+
+			// 05:30 UTC is 08:30 in Athens (UTC+3 in summer)
+			expect(isPublishingTime(athens, at(2, 5, 30))).toBe(true);
+			expect(isPublishingTime(schedule, at(2, 5, 30))).toBe(false);
+		});
+	});
+
+	describe('getNextPublishingTime', () => {
+		const { schedule } = parsePublishingSchedule({});
+
+		it('returns the time itself when publishing is allowed', () => {
+			expect(getNextPublishingTime(schedule, at(2, 10, 15) + 1234)).toBe(at(2, 10, 15) + 1234);
+		});
+
+		it('returns the next allowed minute otherwise', () => {
+			expect(getNextPublishingTime(schedule, at(2, 21, 30))).toBe(at(2, 22, 0));
+			// Saturday 01:00 waits for 04:00
+			expect(getNextPublishingTime(schedule, at(7, 1, 0) + 1)).toBe(at(7, 4, 0));
+		});
+	});
+});
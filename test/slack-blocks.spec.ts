@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { blocksIfEnabled, contextBlock, fieldsBlock, isBlockKitEnabled, limitBlocks, linkButton, sectionBlock } from '../src/slack-blocks';
+
+describe('slack-blocks', () => {
+	describe('isBlockKitEnabled', () => {
+		it('is only enabled for the blocks format', () => {
+			expect(isBlockKitEnabled({ SLACK_MESSAGE_FORMAT: 'blocks' })).toBe(true);
+			expect(isBlockKitEnabled({ SLACK_MESSAGE_FORMAT: ' Blocks ' })).toBe(true);
+			expect(isBlockKitEnabled({ SLACK_MESSAGE_FORMAT: 'text' })).toBe(false);
+			expect(isBlockKitEnabled({})).toBe(false);
+		});
+	});
+
+	describe('blocksIfEnabled', () => {
+		it('drops the blocks in the legacy text format', () => {
+			const blocks = [sectionBlock('hello')];
+
+			expect(blocksIfEnabled({ SLACK_MESSAGE_FORMAT: 'text' }, blocks)).toBeUndefined();
+			expect(blocksIfEnabled({ SLACK_MESSAGE_FORMAT: 'blocks' }, blocks)).toEqual(blocks);
+		});
+	});
+
+	describe('block builders', () => {
+		it('renders sections with a link button accessory and status fields', () => {
+			expect(sectionBlock('*Results*', linkButton('View results', 'https://broker/results/1'))).toEqual({
+				type: 'section',
+				text: { type: 'mrkdwn', text: '*Results*' },
+				accessory: {
+					type: 'button',
+					text: { type: 'plain_text', text: 'View results' },
+					url: 'https://broker/results/1',
+					action_id: 'link-view-results',
+				},
+			});
+			expect(fieldsBlock(['*staging*\n✅'], 'Can I deploy?')).toEqual({
+				type: 'section',
+				fields: [{ type: 'mrkdwn', text: '*staging*\n✅' }],
+				text: { type: 'mrkdwn', text: 'Can I deploy?' },
+			});
+		});
+	});
+
+	describe('limitBlocks', () => {
+		it("keeps messages within Slack's 50 block limit", () => {
+			const blocks = [...Array(60).keys()].map((i) => sectionBlock(`line ${i}`));
+
+			const limited = limitBlocks(blocks);
+
+			expect(limited).toHaveLength(50);
+			expect(limited[49]).toEqual(contextBlock('…and 11 more'));
+			expect(limitBlocks(blocks.slice(0, 50))).toHaveLength(50);
+		});
+	});
+});
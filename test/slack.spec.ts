@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isRetryableSlackError, postPacticipantEventsToSlack, SlackApiError, slackPost } from '../src/slack';
+
+const slackEnv = { SLACK_CHANNEL: '#ci', SLACK_TOKEN: 'xoxb-test', SLACK_RETRY_BASE_DELAY_MS: 1 };
+
+function slackResponse(body: unknown, init: ResponseInit = {}) {
+	return new Response(typeof body === 'string' ? body : JSON.stringify(body), init);
+}
+
+function stubSlack(...responses: (Response | Error)[]) {
+	const fetchMock = vi.fn();
+	for (const response of responses) {
+		if (response instanceof Error) fetchMock.mockRejectedValueOnce(response);
+		else fetchMock.mockResolvedValueOnce(response);
+	}
+	vi.stubGlobal('fetch', fetchMock);
+	return fetchMock;
+}
+
+describe('slack', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	describe('slackPost', () => {
+		it('retries HTTP 429 responses after the Retry-After delay', async () => {
+			const fetchMock = stubSlack(
+				slackResponse({ ok: false, error: 'ratelimited' }, { status: 429, headers: { 'Retry-After': '0' } }),
+				slackResponse({ ok: true, ts: '1.1', channel: 'C1' }),
+			);
+
+			const result = await slackPost(slackEnv, 'hello');
+
+			expect(result).toMatchObject({ ok: true, ts: '1.1' });
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('gives up without waiting when Retry-After exceeds the total retry budget', async () => {
+			const fetchMock = stubSlack(slackResponse({ ok: false, error: 'ratelimited' }, { status: 429, headers: { 'Retry-After': '60' } }));
+
+			const result = await slackPost({ ...slackEnv, SLACK_RETRY_MAX_TOTAL_MS: 1000 }, 'hello');
+
+			expect(result).toEqual({ ok: false, error: 'ratelimited', retryable: true });
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('retries non-JSON server errors and network failures', async () => {
+			const fetchMock = stubSlack(
+				slackResponse('<html>Bad gateway</html>', { status: 502 }),
+				new TypeError('fetch failed'),
+				slackResponse({ ok: true, ts: '1.1' }),
+			);
+
+			const result = await slackPost(slackEnv, 'hello');
+
+			expect(result.ok).toBe(true);
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('stops after SLACK_MAX_RETRIES and reports the failure as retryable', async () => {
+			const fetchMock = stubSlack(
+				slackResponse({ ok: false, error: 'internal_error' }),
+				slackResponse({ ok: false, error: 'internal_error' }),
+				slackResponse({ ok: false, error: 'internal_error' }),
+			);
+
+			const result = await slackPost({ ...slackEnv, SLACK_MAX_RETRIES: 2 }, 'hello');
+
+			expect(result).toEqual({ ok: false, error: 'internal_error', retryable: true });
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('does not retry permanent errors', async () => {
+			const fetchMock = stubSlack(slackResponse({ ok: false, error: 'not_in_channel' }));
+
+			const result = await slackPost(slackEnv, 'hello');
+
+			expect(result).toEqual({ ok: false, error: 'not_in_channel', retryable: false });
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('postPacticipantEventsToSlack', () => {
+		it('throws a SlackApiError telling whether the failure is permanent', async () => {
+			stubSlack(slackResponse({ ok: false, error: 'channel_not_found' }));
+
+			const error: unknown = await postPacticipantEventsToSlack(slackEnv, 'summary', ['details']).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(SlackApiError);
+			expect(error).toMatchObject({ error: 'channel_not_found', retryable: false });
+		});
+	});
+
+	describe('isRetryableSlackError', () => {
+		it('only treats transient Slack errors as retryable', () => {
+			expect(isRetryableSlackError('ratelimited')).toBe(true);
+			expect(isRetryableSlackError('service_unavailable')).toBe(true);
+			expect(isRetryableSlackError('channel_not_found')).toBe(false);
+			expect(isRetryableSlackError(undefined)).toBe(false);
+		});
+	});
+});
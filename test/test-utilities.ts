@@ -1,6 +1,20 @@
 import { expect } from 'vitest';
-import type { PactEventData, ProviderVerificationPublishedPayload, ContractRequiringVerificationPublishedPayload } from '../src/types';
-import { PROVIDER_VERIFICATION_PUBLISHED, CONTRACT_REQUIRING_VERIFICATION_PUBLISHED } from '../src/constants';
+import type {
+	PactEventData,
+	PactWebhookPayload,
+	ProviderVerificationPayload,
+	ProviderVerificationPublishedPayload,
+	ContractRequiringVerificationPublishedPayload,
+	DeploymentWebhookPayload,
+} from '../src/types';
+import type { PactActivityRow } from '../src/aggregator-storage';
+import {
+	PROVIDER_VERIFICATION_PUBLISHED,
+	PROVIDER_VERIFICATION_SUCCEEDED,
+	PROVIDER_VERIFICATION_FAILED,
+	CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
+	PACTICIPANT_VERSION_DEPLOYED,
+} from '../src/constants';
 import { getEventDataFromPayload } from '../src/payload-utils';
 
 let auto_id = 0;
@@ -57,6 +71,39 @@ export function makeContractPublicationPayload(
 	return { ...createContractPublicationPayload(), ...overrides };
 }
 
+export function makeDeploymentPayload(overrides: Partial<DeploymentWebhookPayload> = {}): DeploymentWebhookPayload {
+	return {
+		eventType: PACTICIPANT_VERSION_DEPLOYED,
+		pacticipantName: 'TestConsumer',
+		pacticipantVersionNumber: '1.0.0',
+		environmentName: 'staging',
+		...overrides,
+	};
+}
+
+/**
+ * Activity log rows (as read back from storage) for `[ts, payload]` entries, in the given order
+ */
+export function activity(...entries: [number, PactWebhookPayload][]): PactActivityRow[] {
+	return entries.map(([ts, payload], i) => ({ id: i + 1, ts, payload }));
+}
+
+/**
+ * Factory for a provider_verification_succeeded/failed payload of the TestProvider/TestConsumer pact version `pactVersion`,
+ * each with its own verification result URL
+ */
+export function verification(success: boolean, pactVersion = 'p1', providerVersionBranch = 'main'): ProviderVerificationPayload {
+	auto_id += 1;
+	return {
+		...makeProviderVerificationPayload({
+			githubVerificationStatus: success ? 'success' : 'failure',
+			providerVersionBranch,
+			verificationResultUrl: `https://broker.example.com/pacts/provider/TestProvider/consumer/TestConsumer/pact-version/${pactVersion}/verification-results/${auto_id}`,
+		}),
+		eventType: success ? PROVIDER_VERIFICATION_SUCCEEDED : PROVIDER_VERIFICATION_FAILED,
+	};
+}
+
 function createContractPublicationPayload(): ContractRequiringVerificationPublishedPayload {
 	return {
 		eventType: CONTRACT_REQUIRING_VERIFICATION_PUBLISHED,
@@ -1,5 +1,14 @@
-import { describe, it, expect } from 'vitest';
-import { pascalCaseToDash, getVerificationId, extractPactUrlFromVerificationUrl, isMasterBranch, coerceInt } from '../src/utils';
+import { describe, it, expect, vi } from 'vitest';
+import {
+	pascalCaseToDash,
+	getVerificationId,
+	extractPactUrlFromVerificationUrl,
+	isMasterBranch,
+	coerceInt,
+	matchesGlob,
+	parseJsonConfig,
+	cacheConfigParser,
+} from '../src/utils';
 
 describe('Utils', () => {
 	describe('pascalCaseToDash', () => {
@@ -63,6 +72,61 @@ describe('Utils', () => {
 		});
 	});
 
+	describe('matchesGlob', () => {
+		it('should match * against any run of characters and ? against one', () => {
+			expect(matchesGlob('feature/login', 'feature/*')).toBe(true);
+			expect(matchesGlob('feature', 'feature*')).toBe(true);
+			expect(matchesGlob('release-1.2', 'release-?.?')).toBe(true);
+			expect(matchesGlob('release-1.20', 'release-?.?')).toBe(false);
+		});
+
+		it('should match the whole value and treat other characters literally', () => {
+			expect(matchesGlob('my-feature/login', 'feature/*')).toBe(false);
+			expect(matchesGlob('release-1x2', 'release-1.2')).toBe(false);
+			expect(matchesGlob('(main)', '(main)')).toBe(true);
+		});
+	});
+
+	describe('parseJsonConfig', () => {
+		it('should parse JSON strings and pass other values through', () => {
+			const errors: string[] = [];
+			expect(parseJsonConfig('CONFIG', '{"a":1}', errors)).toEqual({ a: 1 });
+			expect(parseJsonConfig('CONFIG', { a: 1 }, errors)).toEqual({ a: 1 });
+			expect(parseJsonConfig('CONFIG', ' ', errors)).toBeUndefined();
+			expect(errors).toEqual([]);
+		});
+
+		it('should report invalid JSON and treat it as unset', () => {
+			const errors: string[] = [];
+			expect(parseJsonConfig('CONFIG', '{', errors)).toBeUndefined();
+			expect(errors).toEqual(['CONFIG: invalid JSON']);
+		});
+	});
+
+	describe('cacheConfigParser', () => {
+		it('should parse and log the errors again only when a config value changes', () => {
+			const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+			const parse = vi.fn((env: { CONFIG: string; TIMEZONE?: string }) => ({ value: env.CONFIG, errors: ['CONFIG: problem'] }));
+			const getConfig = cacheConfigParser(
+				(env: { CONFIG: string; TIMEZONE?: string }) => [env.CONFIG, env.TIMEZONE],
+				parse,
+				'Invalid config',
+			);
+
+			expect(getConfig({ CONFIG: 'a' }).value).toBe('a');
+			expect(getConfig({ CONFIG: 'a' }).value).toBe('a');
+			expect(getConfig({ CONFIG: 'a', TIMEZONE: 'UTC' }).value).toBe('a');
+			expect(getConfig({ CONFIG: 'b', TIMEZONE: 'UTC' }).value).toBe('b');
+
+			expect(parse).toHaveBeenCalledTimes(3);
+			expect(consoleError.mock.calls).toEqual([
+				['Invalid config: CONFIG: problem'],
+				['Invalid config: CONFIG: problem'],
+				['Invalid config: CONFIG: problem'],
+			]);
+		});
+	});
+
 	describe('coerceInt', () => {
 		it('should coerce valid number strings to integers', () => {
 			expect(coerceInt('42', 0, { min: 0 })).toBe(42);
@@ -112,5 +176,45 @@ describe('Utils', () => {
 			expect(isMasterBranch(env, 'SpecialPacticipant', 'main')).toBe(true);
 			expect(isMasterBranch(env, 'SpecialPacticipant', 'master')).toBe(false);
 		});
+		it('should match lists of branch names and globs', () => {
+			const env = {
+				DEFAULT_MASTER_BRANCH: ['main', 'master', 'release/*'],
+				PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: { SpecialPacticipant: ['trunk', 'hotfix-?'] },
+			};
+			expect(isMasterBranch(env, 'AnyPacticipant', 'main')).toBe(true);
+			expect(isMasterBranch(env, 'AnyPacticipant', 'release/2.1')).toBe(true);
+			expect(isMasterBranch(env, 'AnyPacticipant', 'release')).toBe(false);
+			expect(isMasterBranch(env, 'SpecialPacticipant', 'hotfix-1')).toBe(true);
+			expect(isMasterBranch(env, 'SpecialPacticipant', 'main')).toBe(false);
+		});
+		it('should match regular expressions written as /pattern/flags', () => {
+			const env = { DEFAULT_MASTER_BRANCH: ['/^release\\/v\\d+$/', '/^MAIN$/i'] };
+			expect(isMasterBranch(env, 'AnyPacticipant', 'release/v12')).toBe(true);
+			expect(isMasterBranch(env, 'AnyPacticipant', 'release/v12-rc')).toBe(false);
+			expect(isMasterBranch(env, 'AnyPacticipant', 'main')).toBe(true);
+		});
+		it('should ignore invalid regular expressions and fall back to "master" for an empty list', () => {
+			expect(isMasterBranch({ DEFAULT_MASTER_BRANCH: ['/release(/', 'main'] }, 'AnyPacticipant', 'main')).toBe(true);
+			expect(isMasterBranch({ DEFAULT_MASTER_BRANCH: ['/release(/'] }, 'AnyPacticipant', 'release(')).toBe(false);
+			expect(isMasterBranch({ DEFAULT_MASTER_BRANCH: [] }, 'AnyPacticipant', 'master')).toBe(true);
+		});
+		it('should read PACTICIPANT_MASTER_BRANCH_EXCEPTIONS and a DEFAULT_MASTER_BRANCH list given as JSON strings', () => {
+			const env = {
+				DEFAULT_MASTER_BRANCH: '["main", "release/*"]',
+				PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: '{"SpecialPacticipant": ["trunk"]}',
+			};
+			expect(isMasterBranch(env, 'AnyPacticipant', 'release/2.1')).toBe(true);
+			expect(isMasterBranch(env, 'SpecialPacticipant', 'trunk')).toBe(true);
+			expect(isMasterBranch(env, 'SpecialPacticipant', 'main')).toBe(false);
+			expect(isMasterBranch(env, 'SpecialPacticipant', '{"SpecialPacticipant": ["trunk"]}')).toBe(false);
+		});
+		it('should fall back to DEFAULT_MASTER_BRANCH when PACTICIPANT_MASTER_BRANCH_EXCEPTIONS is invalid', () => {
+			const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+			const env = { DEFAULT_MASTER_BRANCH: 'main', PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: '{not json' };
+			expect(isMasterBranch(env, 'SpecialPacticipant', 'main')).toBe(true);
+			expect(consoleError).toHaveBeenCalledWith(
+				'Invalid master branch config, ignoring it: PACTICIPANT_MASTER_BRANCH_EXCEPTIONS: invalid JSON',
+			);
+		});
 	});
 });
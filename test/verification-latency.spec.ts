@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { computeLatencyPercentiles, summarizeVerificationLatencies } from '../src/verification-latency';
+import type { VerificationLatencyRow } from '../src/aggregator-storage';
+import type { VerificationLatencyKind } from '../src/types';
+
+function latency(providerName: string, kind: VerificationLatencyKind, latencyMs: number): VerificationLatencyRow {
+	return { ts: 0, providerName, consumerName: 'TestConsumer', pactVersion: 'p1', kind, latencyMs };
+}
+
+describe('verification latency', () => {
+	describe('computeLatencyPercentiles', () => {
+		it('uses nearest-rank percentiles', () => {
+			const latencies = [...Array(20).keys()].map((i) => (20 - i) * 1000);
+
+			expect(computeLatencyPercentiles(latencies)).toEqual({ count: 20, p50Ms: 10_000, p90Ms: 18_000, p95Ms: 19_000, maxMs: 20_000 });
+			expect(computeLatencyPercentiles([5])).toEqual({ count: 1, p50Ms: 5, p90Ms: 5, p95Ms: 5, maxMs: 5 });
+		});
+
+		it('returns null without latencies', () => {
+			expect(computeLatencyPercentiles([])).toBeNull();
+		});
+	});
+
+	describe('summarizeVerificationLatencies', () => {
+		it('summarizes each kind per provider', () => {
+			const summary = summarizeVerificationLatencies([
+				latency('ProviderB', 'firstVerification', 3),
+				latency('ProviderA', 'firstVerification', 1),
+				latency('ProviderA', 'firstMasterVerification', 2),
+				latency('ProviderA', 'firstVerification', 5),
+			]);
+
+			expect(summary).toEqual([
+				{
+					providerName: 'ProviderA',
+					firstVerification: { count: 2, p50Ms: 1, p90Ms: 5, p95Ms: 5, maxMs: 5 },
+					firstMasterVerification: { count: 1, p50Ms: 2, p90Ms: 2, p95Ms: 2, maxMs: 2 },
+				},
+				{
+					providerName: 'ProviderB',
+					firstVerification: { count: 1, p50Ms: 3, p90Ms: 3, p95Ms: 3, maxMs: 3 },
+					firstMasterVerification: null,
+				},
+			]);
+		});
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { authenticateWebhookRequest, signWebhookPayload } from '../src/webhook-auth';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../src/constants';
+import { mockTime, resetTime } from '../src/time-utils';
+
+const NOW_MS = 1_700_000_000_000;
+const NOW_SECONDS = String(NOW_MS / 1000);
+const BODY = '{"eventType":"provider_verification_published"}';
+
+function makeAuthEnv(overrides: Record<string, unknown> = {}) {
+	return {
+		DEBUG_KEY: 'debug-key',
+		WEBHOOK_HMAC_SECRETS: 'old-secret, new-secret',
+		WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: 300,
+		WEBHOOK_QUERY_KEY_AUTH_ENABLED: true,
+		...overrides,
+	};
+}
+
+function makeRequest(headers: Record<string, string> = {}, query = '') {
+	return new Request(`https://example.com${query}`, { method: 'POST', headers, body: BODY });
+}
+
+async function makeSignedRequest(secret: string, timestamp = NOW_SECONDS) {
+	const signature = await signWebhookPayload(secret, timestamp, BODY);
+	return makeRequest({ [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`, [WEBHOOK_TIMESTAMP_HEADER]: timestamp });
+}
+
+describe('webhook-auth', () => {
+	afterEach(() => {
+		resetTime();
+	});
+
+	describe('authenticateWebhookRequest', () => {
+		it('accepts a request signed with any of the active secrets', async () => {
+			mockTime(() => NOW_MS);
+
+			for (const secret of ['old-secret', 'new-secret']) {
+				const result = await authenticateWebhookRequest(await makeSignedRequest(secret), BODY, makeAuthEnv());
+				expect(result).toEqual({ ok: true, method: 'hmac' });
+			}
+		});
+
+		it('rejects a request signed with an unknown secret', async () => {
+			mockTime(() => NOW_MS);
+
+			const result = await authenticateWebhookRequest(await makeSignedRequest('retired-secret'), BODY, makeAuthEnv());
+
+			expect(result).toEqual({ ok: false, reason: 'invalid_signature' });
+		});
+
+		it('rejects a signature when the body was tampered with', async () => {
+			mockTime(() => NOW_MS);
+
+			const result = await authenticateWebhookRequest(await makeSignedRequest('new-secret'), BODY + ' ', makeAuthEnv());
+
+			expect(result).toEqual({ ok: false, reason: 'invalid_signature' });
+		});
+
+		it('rejects timestamps outside the replay window', async () => {
+			mockTime(() => NOW_MS + 301 * 1000);
+
+			const result = await authenticateWebhookRequest(await makeSignedRequest('new-secret'), BODY, makeAuthEnv());
+
+			expect(result).toEqual({ ok: false, reason: 'timestamp_outside_replay_window' });
+		});
+
+		it('rejects a signature without a timestamp header', async () => {
+			const request = makeRequest({ [WEBHOOK_SIGNATURE_HEADER]: 'sha256=abcd' });
+
+			const result = await authenticateWebhookRequest(request, BODY, makeAuthEnv());
+
+			expect(result).toEqual({ ok: false, reason: 'missing_signature_header' });
+		});
+
+		it('falls back to the ?key= query parameter when the request is not signed', async () => {
+			const accepted = await authenticateWebhookRequest(makeRequest({}, '?key=debug-key'), BODY, makeAuthEnv());
+			const rejected = await authenticateWebhookRequest(makeRequest({}, '?key=wrong'), BODY, makeAuthEnv());
+
+			expect(accepted).toEqual({ ok: true, method: 'query_key' });
+			expect(rejected).toEqual({ ok: false, reason: 'invalid_key' });
+		});
+
+		it('rejects the ?key= query parameter when the fallback is disabled', async () => {
+			const env = makeAuthEnv({ WEBHOOK_QUERY_KEY_AUTH_ENABLED: 'false' });
+
+			const result = await authenticateWebhookRequest(makeRequest({}, '?key=debug-key'), BODY, env);
+
+			expect(result).toEqual({ ok: false, reason: 'missing_signature' });
+		});
+
+		it('ignores signature headers when no secrets are configured', async () => {
+			const request = new Request('https://example.com?key=debug-key', {
+				method: 'POST',
+				headers: { [WEBHOOK_SIGNATURE_HEADER]: 'sha256=abcd', [WEBHOOK_TIMESTAMP_HEADER]: NOW_SECONDS },
+				body: BODY,
+			});
+
+			const result = await authenticateWebhookRequest(request, BODY, makeAuthEnv({ WEBHOOK_HMAC_SECRETS: '' }));
+
+			expect(result).toEqual({ ok: true, method: 'query_key' });
+		});
+	});
+});
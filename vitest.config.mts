@@ -11,6 +11,10 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.dev.jsonc' },
+				// Tests mock the clock, so alarms would be due at once and publish behind the tests' back.
+				// Alarm tests enable them per Durable Object and run them with runDurableObjectAlarm().
+				// Admin endpoints refuse every request without a dedicated ADMIN_TOKEN.
+				miniflare: { bindings: { PUBLISH_ALARM_ENABLED: false, ADMIN_TOKEN: 'test-admin-token' } },
 				// Force isolated storage for each test
 				isolatedStorage: true,
 			},